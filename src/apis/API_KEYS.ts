@@ -0,0 +1,69 @@
+import z from "zod";
+import { Request, Response } from 'express'
+import { createApiKey, listApiKeys, revokeApiKey } from "../functions/api-keys";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger('routes/api-keys');
+
+export const CreateApiKeySchema = z.object({
+  // Who the key belongs to, shown in usage reports
+  name: z.string().min(1),
+  limits: z.object({
+    urlsScraped: z.number().int().min(0),
+    leadsExtracted: z.number().int().min(0),
+    placesApiCalls: z.number().int().min(0)
+  }).partial().optional()
+});
+
+export const CREATE_API_KEY = async (req: Request, res: Response) => {
+  const parsedBody = CreateApiKeySchema.safeParse(req.body);
+
+  if (!parsedBody.success) {
+    res.status(400).json({ success: false, error: "Invalid query parameters" });
+    return;
+  }
+
+  try {
+    const { apiKey, key } = await createApiKey(parsedBody.data.name, parsedBody.data.limits);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        id: apiKey._id,
+        name: apiKey.name,
+        // Only returned here, the server keeps just its hash
+        key,
+        keyPrefix: apiKey.keyPrefix,
+        limits: apiKey.limits,
+        createdAt: apiKey.createdAt
+      }
+    });
+  } catch (error) {
+    logger.error("Failed to create API key", { error });
+    res.status(500).json({ success: false, error: "Failed to create API key" });
+  }
+};
+
+export const LIST_API_KEYS = async (_: Request, res: Response) => {
+  try {
+    const apiKeys = await listApiKeys();
+    res.json({ success: true, data: { apiKeys, count: apiKeys.length } });
+  } catch (error) {
+    logger.error("Failed to list API keys", { error });
+    res.status(500).json({ success: false, error: "Failed to list API keys" });
+  }
+};
+
+export const REVOKE_API_KEY = async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    if (!await revokeApiKey(req.params.id)) {
+      res.status(404).json({ success: false, error: "API key not found" });
+      return;
+    }
+
+    res.json({ success: true, data: { id: req.params.id, active: false } });
+  } catch (error) {
+    logger.error("Failed to revoke API key", { error });
+    res.status(500).json({ success: false, error: "Failed to revoke API key" });
+  }
+};
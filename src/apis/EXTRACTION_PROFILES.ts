@@ -0,0 +1,119 @@
+import z from "zod";
+import { Request, Response } from 'express'
+import {
+  activateExtractionProfile,
+  createExtractionProfile,
+  DEFAULT_EXTRACTION_PROFILE,
+  ExtractionProfileExistsError,
+  isValidPostProcessStep,
+  isValidProfileSelector,
+  listExtractionProfiles,
+  PLACE_PROFILE_FIELDS,
+  REVIEW_PROFILE_FIELDS,
+  REVIEWS_PROFILE_ELEMENTS,
+  SEARCH_PROFILE_ELEMENTS,
+  TPlaceProfileField,
+  TReviewProfileField,
+  TReviewsProfileElement,
+  TSearchProfileElement
+} from "../functions/extraction-profiles";
+import { isDatabaseConfigured } from "../functions/mongo-db";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger('routes/extraction-profiles');
+
+const ProfileSelectorSchema = z.string().min(1).refine(isValidProfileSelector, "Invalid selector");
+
+const SelectorRuleSchema = z.object({
+  css: ProfileSelectorSchema,
+  attribute: z.string().min(1).optional(),
+  postProcess: z.array(z.string().refine(isValidPostProcessStep, "Invalid post-processing step")).optional()
+});
+
+const FieldRuleSchema = z.object({
+  selectors: z.array(SelectorRuleSchema).min(1),
+  required: z.boolean().optional()
+});
+
+const SelectorChainSchema = z.array(ProfileSelectorSchema).min(1);
+
+export const ExtractionProfileSchema = z.object({
+  version: z.string().regex(/^[\w.-]+$/, "Versions may only contain letters, digits, dots, dashes and underscores"),
+  description: z.string().optional(),
+  place: z.object(Object.fromEntries(PLACE_PROFILE_FIELDS.map(field => [field, FieldRuleSchema])) as Record<TPlaceProfileField, typeof FieldRuleSchema>),
+  search: z.object(Object.fromEntries(SEARCH_PROFILE_ELEMENTS.map(element => [element, SelectorChainSchema])) as Record<TSearchProfileElement, typeof SelectorChainSchema>),
+  // Profiles that only change place or search selectors keep the built-in review selectors
+  reviews: z.object({
+    elements: z.object(Object.fromEntries(REVIEWS_PROFILE_ELEMENTS.map(element => [element, SelectorChainSchema])) as Record<TReviewsProfileElement, typeof SelectorChainSchema>),
+    fields: z.object(Object.fromEntries(REVIEW_PROFILE_FIELDS.map(field => [field, FieldRuleSchema])) as Record<TReviewProfileField, typeof FieldRuleSchema>)
+  }).default(DEFAULT_EXTRACTION_PROFILE.reviews),
+  // Make it the profile every scrape uses as soon as it is stored
+  activate: z.boolean().optional()
+});
+
+const requireProfileStore = (res: Response) => {
+  if (isDatabaseConfigured()) return true;
+
+  res.status(503).json({ success: false, error: "Extraction profile store is not configured" });
+  return false;
+};
+
+export const LIST_EXTRACTION_PROFILES = async (_: Request, res: Response) => {
+  if (!requireProfileStore(res)) return;
+
+  try {
+    const profiles = await listExtractionProfiles();
+    res.json({ success: true, data: { profiles, count: profiles.length, activeVersion: profiles.find(profile => profile.active)?.version } });
+  } catch (error) {
+    logger.error("Failed to list extraction profiles", { error });
+    res.status(500).json({ success: false, error: "Failed to list extraction profiles" });
+  }
+};
+
+export const CREATE_EXTRACTION_PROFILE = async (req: Request, res: Response) => {
+  const parsedBody = ExtractionProfileSchema.safeParse(req.body);
+
+  if (!parsedBody.success) {
+    const issue = parsedBody.error.issues[0];
+    res.status(400).json({ success: false, error: issue ? `${issue.path.join('.')}: ${issue.message}` : "Invalid extraction profile" });
+    return;
+  }
+
+  if (!requireProfileStore(res)) return;
+
+  const { activate, ...profile } = parsedBody.data;
+
+  try {
+    const stored = await createExtractionProfile(profile);
+    if (activate) await activateExtractionProfile(stored.version);
+
+    res.status(201).json({ success: true, data: { ...profile, active: !!activate, createdAt: stored.createdAt } });
+  } catch (error) {
+    if (error instanceof ExtractionProfileExistsError) {
+      res.status(409).json({ success: false, error: error.message });
+      return;
+    }
+
+    logger.error("Failed to create extraction profile", { error });
+    res.status(500).json({ success: false, error: "Failed to create extraction profile" });
+  }
+};
+
+// Switches every scrape to this version, the built-in version rolls back to the selectors of the release
+export const ACTIVATE_EXTRACTION_PROFILE = async (req: Request<{ version: string }>, res: Response) => {
+  if (!requireProfileStore(res)) return;
+
+  try {
+    const profile = await activateExtractionProfile(req.params.version);
+
+    if (!profile) {
+      res.status(404).json({ success: false, error: "Extraction profile not found" });
+      return;
+    }
+
+    res.json({ success: true, data: { ...profile, active: true } });
+  } catch (error) {
+    logger.error("Failed to activate extraction profile", { error });
+    res.status(500).json({ success: false, error: "Failed to activate extraction profile" });
+  }
+};
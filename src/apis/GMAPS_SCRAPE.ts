@@ -1,9 +1,31 @@
 import z from "zod";
-import { Request, Response } from 'express'
-import { generateGoogleMapsUrls } from "../utils/helpers";
-import { BrowserBatchHandler } from "../functions/common/browser-batch-handler";
-import {scrapeLinks} from "../functions/scrape-links";
-import {GmapsDetailsLeadInfoExtractor} from "../functions/gmap-details-lead-extractor";
+import { NextFunction, Request, Response } from 'express'
+import { generateGoogleMapsSearchTargets } from "../utils/helpers";
+import { runGmapsScrapePipeline, TGmapsScrapePhase } from "../functions/gmaps-scrape-pipeline";
+import { startScrapeJob } from "../functions/scrape-jobs";
+import { cancelScrape, registerScrape, unregisterScrape } from "../functions/scrape-cancellation";
+import { createScrapeEventStream, getScrapeEventStream } from "../functions/common/scrape-event-stream";
+import { randomUUID } from "crypto";
+import { LEAD_SOURCES } from "../functions/gmap-details-lead-extractor";
+import { DEFAULT_REVIEWS_LIMIT, REVIEW_SORT_ORDERS } from "../functions/gmaps-reviews-extractor";
+import { GOOGLE_MAPS_TEXT_FIELD_MASK_PRESETS } from "../utils/constants";
+import { GMAPS_LANGUAGES } from "../utils/gmaps-locales";
+import { ApiKeyQuotaError, createApiKeyUsageMeter, isOwnedByApiKey, requireApiKey, TApiKey } from "../functions/api-keys";
+import { scrapeRequestDurationSeconds, scrapeRequestsTotal, TScrapeRequestOutcome } from "../functions/common/metrics";
+import { createLogger, withLogContext } from "../utils/logger";
+
+const logger = createLogger('routes/gmaps-scrape');
+
+const TilingSchema = z.object({
+  // Tiles this circle instead of the city's viewport, which is looked up through the Places API
+  center: z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180)
+  }).optional(),
+  radiusKm: z.number().positive().max(100).optional(),
+  gridSize: z.number().int().min(1).max(10).default(3),
+  maxDepth: z.number().int().min(0).max(4).default(2)
+}).refine(tiling => !tiling.center === !tiling.radiusKm, "center and radiusKm must be given together");
 
 export const GmapsScrapeSchema = z.object({
   query: z.string(),
@@ -11,121 +33,247 @@ export const GmapsScrapeSchema = z.object({
   states: z.array(z.object({
     name: z.string(),
     cities: z.array(z.string())
-  }))
+  })),
+  // browser, places_api or hybrid, every source answers with the same lead shape
+  source: z.enum(LEAD_SOURCES).default('browser'),
+  // Text Search billing tier and city filter for the places_api and hybrid sources
+  fieldMask: z.enum(Object.keys(GOOGLE_MAPS_TEXT_FIELD_MASK_PRESETS) as [keyof typeof GOOGLE_MAPS_TEXT_FIELD_MASK_PRESETS]).default('enterprise'),
+  locationMode: z.enum(['bias', 'restriction']).default('restriction'),
+  // Language Maps pages are requested and read in, English when unset
+  language: z.enum(GMAPS_LANGUAGES).optional(),
+  // Two letter country code Maps ranks and formats results for
+  region: z.string().regex(/^[a-z]{2}$/i).transform(region => region.toLowerCase()).optional(),
+  // Run as a persisted background job and respond with its id instead of streaming
+  background: z.boolean().optional(),
+  // Crawl each lead's website for emails and social profiles after the details phase
+  enrichWebsites: z.boolean().optional(),
+  // Search each city as a grid of map tiles to get past the roughly 120 results Maps lists per search
+  tiling: TilingSchema.optional(),
+  // Collect up to limit reviews of every lead in this order and store them against the lead
+  reviews: z.object({
+    limit: z.number().int().min(1).max(1000).default(DEFAULT_REVIEWS_LIMIT),
+    sort: z.enum(REVIEW_SORT_ORDERS).default('newest')
+  }).optional()
 });
 
 export type GmapsScrape = z.infer<typeof GmapsScrapeSchema>;
 
+// The places_api and hybrid sources call the Places API and cannot run without its key
+export const isLeadSourceAvailable = (source: GmapsScrape['source']) => source === 'browser' || !!process.env.GOOGLE_MAPS_PLACES_API_KEY;
+
+// Tiling rules that depend on the rest of the request, null when the request can be tiled
+export const findTilingError = (request: Pick<GmapsScrape, 'source' | 'states' | 'tiling'>): string | null => {
+  const { tiling } = request;
+  if (!tiling) return null;
+
+  if (request.source !== 'browser') return "Tiling is only supported for the browser source";
+  if (tiling.center && request.states.flatMap(state => state.cities).length !== 1) return "A tiling center can only be used with a single city";
+  if (!tiling.center && !process.env.GOOGLE_MAPS_PLACES_API_KEY) return "Tiling a city needs center and radiusKm when the Places API key is not configured";
+
+  return null;
+};
+
+const PHASE_START_MESSAGES: Record<TGmapsScrapePhase, (total: number) => string> = {
+  1: () => 'Phase 1: Searching for business listings...',
+  2: (total) => `Phase 2: Extracting details from ${total} business listings...`,
+  3: (total) => `Phase 3: Looking up emails and social profiles on ${total} websites...`,
+  4: (total) => `Phase 4: Collecting reviews of ${total} places...`
+};
+
+const countScrapeRequest = (outcome: TScrapeRequestOutcome) => scrapeRequestsTotal.inc({ route: 'gmaps_scrape', outcome });
+
 export const GMAPS_SCRAPE =  async (req: Request, res: Response) => {
   const requestBody = req.body;
 
   const parsedBody = GmapsScrapeSchema.safeParse(requestBody);
 
   if (!parsedBody.success) {
+    countScrapeRequest('invalid');
     res.status(400).json({ success: false, error: "Invalid query parameters" });
     return;
   }
 
-  const finalScrappingUrls = generateGoogleMapsUrls(parsedBody.data);
+  const finalScrappingTargets = generateGoogleMapsSearchTargets(parsedBody.data);
 
-  if (finalScrappingUrls.length === 0) {
+  if (finalScrappingTargets.length === 0) {
+    countScrapeRequest('invalid');
     res.status(400).json({ success: false, error: "No URLs provided" });
     return;
   }
 
-  // Set up Server-Sent Events headers for streaming
-  res.writeHead(200, {
-    'Content-Type': 'text/event-stream',
-    'Cache-Control': 'no-cache',
-    'Connection': 'keep-alive',
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Headers': 'Cache-Control'
-  });
+  if (!isLeadSourceAvailable(parsedBody.data.source)) {
+    countScrapeRequest('unavailable');
+    res.status(503).json({ success: false, error: "Places API key is not configured" });
+    return;
+  }
+
+  const tilingError = findTilingError(parsedBody.data);
 
-  // Send initial message
-  res.write(`data: ${JSON.stringify({
+  if (tilingError) {
+    countScrapeRequest('invalid');
+    res.status(400).json({ success: false, error: tilingError });
+    return;
+  }
+
+  // Unset only when API key authentication is disabled
+  const apiKey = res.locals.apiKey as TApiKey | undefined;
+
+  if (parsedBody.data.background) {
+    try {
+      const job = await startScrapeJob(parsedBody.data, finalScrappingTargets, apiKey);
+      countScrapeRequest('queued');
+      res.status(202).json({
+        success: true,
+        data: {
+          jobId: job._id,
+          status: job.status,
+          statusUrl: `/jobs/${job._id}`,
+          resultsUrl: `/jobs/${job._id}/results`
+        }
+      });
+    } catch (error) {
+      logger.error("Failed to start scrape job", { error });
+      countScrapeRequest('failed');
+      res.status(500).json({ success: false, error: "Failed to start scrape job" });
+    }
+    return;
+  }
+
+  const scrapeId = randomUUID();
+  const controller = registerScrape(scrapeId, apiKey?._id);
+  const endRequestTimer = scrapeRequestDurationSeconds.startTimer({ route: 'gmaps_scrape' });
+  // Nobody reconnected after the client went away, stop scraping for them
+  const events = createScrapeEventStream(scrapeId, () => controller.abort(), apiKey?._id);
+
+  events.attach(res);
+
+  events.emit({
     type: 'status',
     message: `Starting Google Maps scraping for "${parsedBody.data.query}" in ${parsedBody.data.states.length} states`,
-    data: { 
-      total: finalScrappingUrls.length,
+    data: {
+      source: parsedBody.data.source,
+      total: finalScrappingTargets.length,
+      scrapeId,
+      cancelUrl: `/gmaps/scrape/${scrapeId}/cancel`,
+      eventsUrl: `/gmaps/scrape/${scrapeId}/events?token=${events.accessToken}`,
       stage: 'api_start'
-    },
-    timestamp: new Date().toISOString()
-  })}\n\n`);
+    }
+  });
 
   try {
-    // Phase 1: Scrape business listing URLs
-    res.write(`data: ${JSON.stringify({
-      type: 'status',
-      message: 'Phase 1: Searching for business listings...',
-      data: { 
-        stage: 'phase_1_start',
-        phase: 1
+    const { founded, allLeads, savedLeadsCount, savedReviewsCount, errors, cancelled } = await withLogContext({ scrapeId }, () => runGmapsScrapePipeline(finalScrappingTargets, events.emit, {
+      onPhaseStart: (phase, total) => {
+        events.emit({
+          type: 'status',
+          message: PHASE_START_MESSAGES[phase](total),
+          data: {
+            stage: `phase_${phase}_start`,
+            phase,
+            total
+          }
+        });
       },
-      timestamp: new Date().toISOString()
-    })}\n\n`);
-
-    const foundedLeads = await BrowserBatchHandler(finalScrappingUrls, scrapeLinks, res);
-    
-    const foundedLeadsResults = foundedLeads.results.flat();
-    
-    if (foundedLeadsResults.length === 0) {
-      res.write(`data: ${JSON.stringify({
-        type: 'complete',
-        message: 'No business listings found',
-        data: {
-          founded: foundedLeadsResults,
-          foundedLeadsCount: foundedLeadsResults.length,
-          allLeads: [],
-          allLeadsCount: 0,
-          stage: 'no_results'
-        },
-        timestamp: new Date().toISOString()
-      })}\n\n`);
-      res.end();
-      return;
+      onLeadPageResult: (url, result) => {
+        if (!result.success || !result.data) return;
+        events.emit({ type: 'lead', message: `Extracted ${result.data.name}`, data: { url, lead: result.data } });
+      },
+      onWebsitePageResult: (website, result) => {
+        if (!result.success || !result.data) return;
+        events.emit({
+          type: 'lead_contacts',
+          message: `Found ${result.data.emails.length} emails and ${result.data.socialProfiles.length} social profiles on ${website}`,
+          data: { website, emails: result.data.emails, socialProfiles: result.data.socialProfiles }
+        });
+      },
+      onUsage: apiKey && createApiKeyUsageMeter(apiKey, controller)
+    }, {
+      source: parsedBody.data.source,
+      places: { fieldMask: parsedBody.data.fieldMask, locationMode: parsedBody.data.locationMode },
+      enrichWebsites: parsedBody.data.enrichWebsites,
+      signal: controller.signal,
+      runId: scrapeId,
+      tiling: parsedBody.data.tiling,
+      reviews: parsedBody.data.reviews,
+      locale: { language: parsedBody.data.language, region: parsedBody.data.region }
+    }));
+
+    if (cancelled) {
+      logger.info('Scrape cancelled', { scrapeId, leadsCount: allLeads.length });
     }
+    countScrapeRequest(cancelled ? 'cancelled' : 'completed');
 
-    // Phase 2: Extract detailed business information
-    res.write(`data: ${JSON.stringify({
-      type: 'status',
-      message: `Phase 2: Extracting details from ${foundedLeadsResults.length} business listings...`,
-      data: { 
-        stage: 'phase_2_start',
-        phase: 2,
-        total: foundedLeadsResults.length
-      },
-      timestamp: new Date().toISOString()
-    })}\n\n`);
-
-    const allLeads = await BrowserBatchHandler(foundedLeadsResults, GmapsDetailsLeadInfoExtractor, res);
-    const allLeadsResults = allLeads.results.flat();
-    
-    // Send final results
-    res.write(`data: ${JSON.stringify({
+    const quotaError = controller.signal.reason instanceof ApiKeyQuotaError ? controller.signal.reason : null;
+
+    events.emit({
       type: 'complete',
-      message: 'Scraping completed successfully!',
+      message: quotaError
+          ? `${quotaError.message}, returning the results gathered so far`
+          : cancelled ? 'Scraping cancelled, returning the results gathered so far'
+          : founded.length === 0 ? 'No business listings found' : 'Scraping completed successfully!',
       data: {
-        founded: foundedLeadsResults,
-        foundedLeadsCount: foundedLeadsResults.length,
-        allLeads: allLeadsResults,
-        allLeadsCount: allLeadsResults.length,
-        stage: 'final_results'
-      },
-      timestamp: new Date().toISOString()
-    })}\n\n`);
-    
-    res.end();
+        founded,
+        foundedLeadsCount: founded.length,
+        allLeads,
+        allLeadsCount: allLeads.length,
+        savedLeadsCount,
+        ...(parsedBody.data.reviews && { savedReviewsCount }),
+        errors,
+        stage: cancelled ? 'cancelled' : founded.length === 0 ? 'no_results' : 'final_results'
+      }
+    });
   } catch (error) {
-    res.write(`data: ${JSON.stringify({
+    countScrapeRequest('failed');
+    events.emit({
       type: 'error',
       message: 'Scraping failed due to system error',
       data: {
         stage: 'api_error',
         error: error instanceof Error ? error.message : String(error)
-      },
-      timestamp: new Date().toISOString()
-    })}\n\n`);
-    res.end();
+      }
+    });
+  } finally {
+    endRequestTimer();
+    events.end();
+    unregisterScrape(scrapeId);
+  }
+};
+
+const readEventsToken = (req: Request) => typeof req.query.token === 'string' ? req.query.token : undefined;
+
+const hasScrapeEventsToken = (req: Request<{ id: string }>) =>
+    getScrapeEventStream(req.params.id)?.hasAccessToken(readEventsToken(req)) ?? false;
+
+// Clients that cannot set headers attach with the token from the scrape's eventsUrl, everyone else needs their API key
+export const requireScrapeEventsAccess = async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+  if (hasScrapeEventsToken(req)) {
+    next();
+    return;
+  }
+
+  await requireApiKey(req, res, next);
+};
+
+// Reconnects to a running or just finished scrape, replaying every event after Last-Event-ID
+export const GMAPS_SCRAPE_EVENTS = async (req: Request<{ id: string }>, res: Response) => {
+  const events = getScrapeEventStream(req.params.id);
+
+  // Another key's scrape is reported as missing so its id can't be probed
+  if (!events || !(hasScrapeEventsToken(req) || isOwnedByApiKey(events.ownerKeyId, res.locals.apiKey))) {
+    res.status(404).json({ success: false, error: "No scrape events found for this id" });
+    return;
+  }
+
+  // Clients that cannot set headers, like a plain EventSource opened by hand, may pass it as a query parameter
+  const lastEventId = req.get('Last-Event-ID') ?? (typeof req.query.lastEventId === 'string' ? req.query.lastEventId : undefined);
+  events.attach(res, lastEventId);
+};
+
+// Cancels a streaming scrape or a background job that is running in this process
+export const CANCEL_GMAPS_SCRAPE = async (req: Request<{ id: string }>, res: Response) => {
+  if (!cancelScrape(req.params.id, res.locals.apiKey)) {
+    res.status(404).json({ success: false, error: "No running scrape with this id" });
+    return;
   }
-};
\ No newline at end of file
+
+  res.status(202).json({ success: true, data: { scrapeId: req.params.id, status: 'cancelling' } });
+};
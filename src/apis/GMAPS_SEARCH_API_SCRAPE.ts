@@ -2,8 +2,15 @@ import z from "zod";
 import { Request, Response } from 'express'
 import dotenv from "dotenv"
 dotenv.config()
-import {GOOGLE_MAPS_TEXT_FREE_FIELD_MASKS, GOOGLE_MAPS_TEXTSEARCH_API_URL} from "../utils/constants";
-import {generateGoogleMapsUrls} from "../utils/helpers";
+import {GOOGLE_MAPS_TEXT_FIELD_MASK_PRESETS} from "../utils/constants";
+import {GMAPS_LANGUAGES} from "../utils/gmaps-locales";
+import {generateGoogleMapsSearchTargets} from "../utils/helpers";
+import {searchPlacesForTargets} from "../functions/places-api-search";
+import {ApiKeyQuotaError, createApiKeyUsageMeter, TApiKey} from "../functions/api-keys";
+import {scrapeRequestDurationSeconds, scrapeRequestsTotal, TScrapeRequestOutcome} from "../functions/common/metrics";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger('routes/gmaps-search-api-scrape');
 
 export const POSTv3ScrapeSchema = z.object({
     query: z.string(),
@@ -11,9 +18,17 @@ export const POSTv3ScrapeSchema = z.object({
     states: z.array(z.object({
         name: z.string(),
         cities: z.array(z.string())
-    }))
+    })),
+    // Which Text Search billing tier to request, see GOOGLE_MAPS_TEXT_FIELD_MASK_PRESETS
+    fieldMask: z.enum(Object.keys(GOOGLE_MAPS_TEXT_FIELD_MASK_PRESETS) as [keyof typeof GOOGLE_MAPS_TEXT_FIELD_MASK_PRESETS]).default('enterprise'),
+    locationMode: z.enum(['bias', 'restriction']).default('restriction'),
+    // Language of names and categories, and the two letter country code results are formatted for
+    language: z.enum(GMAPS_LANGUAGES).optional(),
+    region: z.string().regex(/^[a-z]{2}$/i).transform(region => region.toLowerCase()).optional()
 })
 
+const countSearchRequest = (outcome: TScrapeRequestOutcome) => scrapeRequestsTotal.inc({ route: 'gmaps_search_scrape', outcome });
+
 export const GMAPS_SEARCH_API_SCRAPE =  async (req: Request, res: Response) => {
 
     const requestBody = req.body;
@@ -21,46 +36,78 @@ export const GMAPS_SEARCH_API_SCRAPE =  async (req: Request, res: Response) => {
     const parsedBody = POSTv3ScrapeSchema.safeParse(requestBody);
 
     if (!parsedBody.success) {
-        res.status(400).json({ error: "Invalid query parameters" });
+        countSearchRequest('invalid');
+        res.status(400).json({ success: false, error: "Invalid query parameters" });
         return;
     }
 
-    const finalScrappingUrls = generateGoogleMapsUrls(parsedBody.data);
+    const searchTargets = generateGoogleMapsSearchTargets(parsedBody.data);
 
-    if (finalScrappingUrls.length === 0) {
-        res.status(400).json({ error: "No URLs provided" });
+    if (searchTargets.length === 0) {
+        countSearchRequest('invalid');
+        res.status(400).json({ success: false, error: "No URLs provided" });
         return;
     }
 
-    let allPlaces: any[] = [];
-    let pageToken: string | undefined = undefined;
+    if (!process.env.GOOGLE_MAPS_PLACES_API_KEY) {
+        countSearchRequest('unavailable');
+        res.status(503).json({ success: false, error: "Places API key is not configured" });
+        return;
+    }
 
-    do {
+    const apiKey = res.locals.apiKey as TApiKey | undefined;
+    const controller = new AbortController();
+    const meterUsage = apiKey && createApiKeyUsageMeter(apiKey, controller);
+    const endRequestTimer = scrapeRequestDurationSeconds.startTimer({ route: 'gmaps_search_scrape' });
 
-        // @ts-ignore
-        const response = await fetch(GOOGLE_MAPS_TEXTSEARCH_API_URL, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'X-Goog-Api-Key': process.env.GOOGLE_MAPS_PLACES_API_KEY as string,
-                'X-Goog-FieldMask': GOOGLE_MAPS_TEXT_FREE_FIELD_MASKS
-            },
-            body: JSON.stringify({
-                textQuery: parsedBody.data?.query,
-                pageToken: pageToken ? pageToken : '',
-            })
+    try {
+        const cityResults = await searchPlacesForTargets(searchTargets, {
+            fieldMask: parsedBody.data.fieldMask,
+            locationMode: parsedBody.data.locationMode,
+            locale: { language: parsedBody.data.language, region: parsedBody.data.region },
+            signal: controller.signal,
+            onRequest: () => meterUsage?.({ placesApiCalls: 1 })
         });
 
-        // @ts-ignore
-        const data = await response.json();
-
-        allPlaces.push(...(data.places || []));
-        pageToken = data.nextPageToken;
-
-        // Optional delay if token requires wait (see note below)
-        await new Promise(r => setTimeout(r, 1000));
+        // Neighbouring cities can return the same place, the first city it was found in keeps it
+        const seenPlaceIds = new Set<string>();
+        const allLeads = cityResults.flatMap(result => result.leads).filter(lead => {
+            if (seenPlaceIds.has(lead.googlePlaceId)) return false;
+            seenPlaceIds.add(lead.googlePlaceId);
+            return true;
+        });
+        const failedCities = cityResults.filter(result => result.error);
+        await meterUsage?.({ leadsExtracted: allLeads.length });
 
-    } while (pageToken);
+        // Nothing came back at all, surface the API's own error instead of an empty success
+        if (failedCities.length === cityResults.length) {
+            countSearchRequest('failed');
+            res.status(502).json({ success: false, error: failedCities[0].error });
+            return;
+        }
 
-    res.send({ success: true, data: allPlaces });
-};
\ No newline at end of file
+        countSearchRequest('completed');
+        res.json({
+            success: true,
+            data: {
+                allLeads,
+                allLeadsCount: allLeads.length,
+                // The key ran out of Places API calls part way, cities after that point were not searched
+                ...(controller.signal.reason instanceof ApiKeyQuotaError && { quotaExceeded: controller.signal.reason.message }),
+                cities: cityResults.map(({ target, leads, error }) => ({
+                    country: target.country,
+                    state: target.state,
+                    city: target.city,
+                    leadsCount: leads.length,
+                    error
+                }))
+            }
+        });
+    } catch (error) {
+        logger.error("Places API search failed", { error });
+        countSearchRequest('failed');
+        res.status(500).json({ success: false, error: "Places API search failed" });
+    } finally {
+        endRequestTimer();
+    }
+};
@@ -0,0 +1,86 @@
+import z from "zod";
+import { Request, Response } from 'express'
+import {
+  getConfiguredCanaryTargets,
+  getLatestCanaryReport,
+  getScraperHealthStatus,
+  hasCanaryTargets,
+  listCanaryReports,
+  runConfiguredHealthCanary,
+  runHealthCanary
+} from "../functions/scraper-health";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger('routes/health');
+
+export const CanaryReportsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+});
+
+// Without targets the configured canary runs and its report becomes the current health
+export const CanaryRunSchema = z.object({
+  searchUrls: z.array(z.string().url()).default([]),
+  placeUrls: z.array(z.string().url()).default([])
+});
+
+// The server answers either way, scraperStatus tells whether the last canary run could still read Maps
+export const PING = (_: Request, res: Response) => {
+  res.json({ success: true, message: "Server is running", scraperStatus: getScraperHealthStatus() });
+};
+
+// 503 while degraded so uptime monitors alert on it
+export const GET_HEALTH = (_: Request, res: Response) => {
+  const report = getLatestCanaryReport();
+
+  res.status(report?.status === 'degraded' ? 503 : 200).json({
+    success: true,
+    data: {
+      status: getScraperHealthStatus(),
+      canaryConfigured: hasCanaryTargets(getConfiguredCanaryTargets()),
+      latestRun: report
+    }
+  });
+};
+
+export const GET_CANARY_REPORTS = async (req: Request, res: Response) => {
+  const parsedQuery = CanaryReportsQuerySchema.safeParse(req.query);
+
+  if (!parsedQuery.success) {
+    res.status(400).json({ success: false, error: parsedQuery.error.issues[0]?.message ?? "Invalid query" });
+    return;
+  }
+
+  try {
+    const reports = await listCanaryReports(parsedQuery.data.limit);
+    res.json({ success: true, data: { reports, count: reports.length } });
+  } catch (error) {
+    logger.error("Failed to list health canary runs", { error });
+    res.status(500).json({ success: false, error: "Failed to list health canary runs" });
+  }
+};
+
+// Targets in the body are checked on the spot, e.g. locally served pages, without touching the current health
+export const RUN_HEALTH_CANARY = async (req: Request, res: Response) => {
+  const parsedBody = CanaryRunSchema.safeParse(req.body ?? {});
+
+  if (!parsedBody.success) {
+    const issue = parsedBody.error.issues[0];
+    res.status(400).json({ success: false, error: issue ? `${issue.path.join('.')}: ${issue.message}` : "Invalid canary targets" });
+    return;
+  }
+
+  const customTargets = hasCanaryTargets(parsedBody.data);
+
+  if (!customTargets && !hasCanaryTargets(getConfiguredCanaryTargets())) {
+    res.status(400).json({ success: false, error: "No canary targets are configured, pass searchUrls or placeUrls" });
+    return;
+  }
+
+  try {
+    const report = customTargets ? await runHealthCanary(parsedBody.data) : await runConfiguredHealthCanary();
+    res.json({ success: true, data: report });
+  } catch (error) {
+    logger.error("Health canary run failed", { error });
+    res.status(500).json({ success: false, error: "Health canary run failed" });
+  }
+};
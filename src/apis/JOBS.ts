@@ -0,0 +1,123 @@
+import z from "zod";
+import { Request, Response } from 'express'
+import { getScrapeJob, getScrapeJobResults, streamScrapeJobResults } from "../functions/scrape-jobs";
+import { LEAD_EXPORT_FORMATS, resolveLeadExportFormat, streamLeadsExport } from "../functions/lead-export";
+import { isOwnedByApiKey } from "../functions/api-keys";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger('routes/jobs');
+
+export const JobResultsQuerySchema = z.object({
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(1000).default(500)
+});
+
+export const JobExportQuerySchema = z.object({
+  format: z.enum(LEAD_EXPORT_FORMATS).optional()
+});
+
+export const GET_JOB = async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const job = await getScrapeJob(req.params.id);
+
+    // Another key's job is reported as missing so its id can't be probed
+    if (!job || !isOwnedByApiKey(job.apiKeyId, res.locals.apiKey)) {
+      res.status(404).json({ success: false, error: "Job not found" });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        jobId: job._id,
+        status: job.status,
+        phase: job.phase,
+        progress: job.progress,
+        foundedLeadsCount: job.foundedLeadsCount,
+        allLeadsCount: job.allLeadsCount,
+        savedLeadsCount: job.savedLeadsCount,
+        savedReviewsCount: job.savedReviewsCount,
+        errorCount: job.errors.length,
+        errors: job.errors,
+        error: job.error,
+        createdAt: job.createdAt,
+        startedAt: job.startedAt,
+        finishedAt: job.finishedAt
+      }
+    });
+  } catch (error) {
+    logger.error("Failed to read scrape job", { error });
+    res.status(500).json({ success: false, error: "Failed to read job" });
+  }
+};
+
+export const GET_JOB_RESULTS = async (req: Request<{ id: string }>, res: Response) => {
+  const parsedQuery = JobResultsQuerySchema.safeParse(req.query);
+
+  if (!parsedQuery.success) {
+    res.status(400).json({ success: false, error: "Invalid query parameters" });
+    return;
+  }
+
+  try {
+    const job = await getScrapeJob(req.params.id);
+
+    if (!job || !isOwnedByApiKey(job.apiKeyId, res.locals.apiKey)) {
+      res.status(404).json({ success: false, error: "Job not found" });
+      return;
+    }
+
+    const { offset, limit } = parsedQuery.data;
+    const leads = await getScrapeJobResults(job._id, offset, limit);
+
+    res.json({
+      success: true,
+      data: {
+        jobId: job._id,
+        status: job.status,
+        // Results are partial until the job completes
+        partial: job.status !== 'completed',
+        allLeadsCount: job.allLeadsCount,
+        offset,
+        limit,
+        leads
+      }
+    });
+  } catch (error) {
+    logger.error("Failed to read scrape job results", { error });
+    res.status(500).json({ success: false, error: "Failed to read job results" });
+  }
+};
+
+export const EXPORT_JOB_RESULTS = async (req: Request<{ id: string }>, res: Response) => {
+  const parsedQuery = JobExportQuerySchema.safeParse(req.query);
+
+  if (!parsedQuery.success) {
+    res.status(400).json({ success: false, error: "Invalid query parameters" });
+    return;
+  }
+
+  const format = resolveLeadExportFormat(req, parsedQuery.data.format);
+
+  if (!format) {
+    res.status(406).json({ success: false, error: `Supported formats: ${LEAD_EXPORT_FORMATS.join(', ')}` });
+    return;
+  }
+
+  try {
+    const job = await getScrapeJob(req.params.id);
+
+    if (!job || !isOwnedByApiKey(job.apiKeyId, res.locals.apiKey)) {
+      res.status(404).json({ success: false, error: "Job not found" });
+      return;
+    }
+
+    const leads = await streamScrapeJobResults(job._id);
+    await streamLeadsExport(res, leads, format, `job-${job._id}`);
+  } catch (error) {
+    logger.error("Failed to export scrape job results", { error });
+    if (!res.headersSent) {
+      res.status(500).json({ success: false, error: "Failed to export job results" });
+    }
+  }
+};
@@ -0,0 +1,276 @@
+import z from "zod";
+import { Request, Response } from 'express'
+import { findLeadsForExport, InvalidLeadCursorError, LEAD_SORT_FIELDS, searchLeads } from "../functions/search-leads";
+import { LEAD_EXPORT_FORMATS, resolveLeadExportFormat, streamLeadsExport } from "../functions/lead-export";
+import { getLeadRoutingRules, leadFilter } from "../utils/lead-filter-router";
+import { getLeadHistory, getLeadRunDiff, LeadRunNotFoundError, listLeadRuns } from "../functions/lead-history";
+import { createQuerySlug } from "../functions/gmaps-save-to-db";
+import { getLeadReviews } from "../functions/lead-reviews";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger('routes/leads');
+
+const queryBoolean = z.enum(['true', 'false']).transform(value => value === 'true');
+
+const LeadFiltersSchema = z.object({
+  country: z.string().optional(),
+  state: z.string().optional(),
+  city: z.string().optional(),
+  query: z.string().optional(),
+  minRating: z.coerce.number().min(0).max(5).optional(),
+  minReviews: z.coerce.number().int().min(0).optional(),
+  hasWebsite: queryBoolean.optional(),
+  hasPhone: queryBoolean.optional(),
+  hasEmail: queryBoolean.optional(),
+  category: z.string().optional(),
+  businessStatus: z.enum(['OPERATIONAL', 'CLOSED_TEMPORARILY', 'CLOSED_PERMANENTLY']).optional(),
+  scenario: z.string().optional(),
+  targetSystem: z.string().optional(),
+  sortBy: z.enum(LEAD_SORT_FIELDS).default('lastSeenAt'),
+  order: z.enum(['asc', 'desc']).default('desc')
+});
+
+export const LeadsQuerySchema = LeadFiltersSchema.extend({
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  cursor: z.string().optional()
+});
+
+export type LeadsQuery = z.infer<typeof LeadsQuerySchema>;
+
+export const LeadsExportQuerySchema = LeadFiltersSchema.extend({
+  format: z.enum(LEAD_EXPORT_FORMATS).optional()
+});
+
+const contactValue = z.union([z.string(), z.array(z.string())]).optional();
+
+export const RouteLeadsSchema = z.object({
+  leads: z.array(z.object({
+    email: contactValue,
+    phoneNumber: contactValue,
+    websiteUrl: contactValue,
+    website: contactValue,
+    socialProfiles: z.array(z.string()).optional()
+  }).passthrough()).min(1).max(10000)
+});
+
+// One query in one city, the unit runs are compared in
+const LeadSeriesSchema = z.object({
+  country: z.string().min(1),
+  state: z.string().min(1),
+  city: z.string().min(1),
+  query: z.string().min(1)
+});
+
+export const LeadRunsQuerySchema = LeadSeriesSchema.extend({
+  limit: z.coerce.number().int().min(1).max(200).default(20)
+});
+
+// Each side is picked by run id or by date, both default to the latest run and the one before it
+export const LeadChangesQuerySchema = LeadSeriesSchema.extend({
+  fromRun: z.string().optional(),
+  toRun: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+});
+
+export const LeadHistoryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(100)
+});
+
+export const LeadReviewsQuerySchema = z.object({
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  maxRating: z.coerce.number().min(1).max(5).optional(),
+  unanswered: queryBoolean.optional()
+});
+
+const toLeadSeries = ({ country, state, city, query }: z.infer<typeof LeadSeriesSchema>) => ({
+  country,
+  state,
+  city,
+  querySlug: createQuerySlug(query)
+});
+
+export const GET_LEADS = async (req: Request, res: Response) => {
+  const parsedQuery = LeadsQuerySchema.safeParse(req.query);
+
+  if (!parsedQuery.success) {
+    res.status(400).json({ success: false, error: "Invalid query parameters" });
+    return;
+  }
+
+  try {
+    const { leads, nextCursor } = await searchLeads(parsedQuery.data);
+
+    res.json({
+      success: true,
+      data: {
+        leads,
+        count: leads.length,
+        nextCursor
+      }
+    });
+  } catch (error) {
+    if (error instanceof InvalidLeadCursorError) {
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+
+    logger.error("Failed to search leads", { error });
+    res.status(500).json({ success: false, error: "Failed to search leads" });
+  }
+};
+
+export const EXPORT_LEADS = async (req: Request, res: Response) => {
+  const parsedQuery = LeadsExportQuerySchema.safeParse(req.query);
+
+  if (!parsedQuery.success) {
+    res.status(400).json({ success: false, error: "Invalid query parameters" });
+    return;
+  }
+
+  const { format: requestedFormat, ...options } = parsedQuery.data;
+  const format = resolveLeadExportFormat(req, requestedFormat);
+
+  if (!format) {
+    res.status(406).json({ success: false, error: `Supported formats: ${LEAD_EXPORT_FORMATS.join(', ')}` });
+    return;
+  }
+
+  try {
+    const leads = await findLeadsForExport(options);
+    await streamLeadsExport(res, leads, format, 'leads');
+  } catch (error) {
+    logger.error("Failed to export leads", { error });
+    if (!res.headersSent) {
+      res.status(500).json({ success: false, error: "Failed to export leads" });
+    }
+  }
+};
+
+export const ROUTE_LEADS = async (req: Request, res: Response) => {
+  const parsedBody = RouteLeadsSchema.safeParse(req.body);
+
+  if (!parsedBody.success) {
+    res.status(400).json({ success: false, error: "Invalid request body" });
+    return;
+  }
+
+  // Read the rules once so a file change mid-request cannot split the batch across two rule sets
+  const rules = getLeadRoutingRules();
+  const routedLeads = parsedBody.data.leads.map(lead => ({
+    lead,
+    routing: leadFilter({ leadInfo: lead }, rules)
+  }));
+
+  const countsByScenario = routedLeads.reduce<Record<string, number>>((counts, { routing }) => {
+    counts[routing.scenario] = (counts[routing.scenario] ?? 0) + 1;
+    return counts;
+  }, {});
+
+  res.json({
+    success: true,
+    data: {
+      leads: routedLeads,
+      count: routedLeads.length,
+      countsByScenario
+    }
+  });
+};
+
+export const GET_LEAD_RUNS = async (req: Request, res: Response) => {
+  const parsedQuery = LeadRunsQuerySchema.safeParse(req.query);
+
+  if (!parsedQuery.success) {
+    res.status(400).json({ success: false, error: "Invalid query parameters" });
+    return;
+  }
+
+  try {
+    const runs = await listLeadRuns(toLeadSeries(parsedQuery.data), parsedQuery.data.limit);
+    res.json({ success: true, data: { runs, count: runs.length } });
+  } catch (error) {
+    logger.error("Failed to list lead runs", { error });
+    res.status(500).json({ success: false, error: "Failed to list runs" });
+  }
+};
+
+export const GET_LEAD_CHANGES = async (req: Request, res: Response) => {
+  const parsedQuery = LeadChangesQuerySchema.safeParse(req.query);
+
+  if (!parsedQuery.success) {
+    res.status(400).json({ success: false, error: "Invalid query parameters" });
+    return;
+  }
+
+  const { fromRun, toRun, from, to } = parsedQuery.data;
+
+  try {
+    const diff = await getLeadRunDiff(
+        toLeadSeries(parsedQuery.data),
+        { runId: fromRun, at: from },
+        { runId: toRun, at: to }
+    );
+    res.json({ success: true, data: diff });
+  } catch (error) {
+    if (error instanceof LeadRunNotFoundError) {
+      res.status(404).json({ success: false, error: error.message });
+      return;
+    }
+
+    logger.error("Failed to compare lead runs", { error });
+    res.status(500).json({ success: false, error: "Failed to compare runs" });
+  }
+};
+
+export const GET_LEAD_HISTORY = async (req: Request<{ placeId: string }>, res: Response) => {
+  const parsedQuery = LeadHistoryQuerySchema.safeParse(req.query);
+
+  if (!parsedQuery.success) {
+    res.status(400).json({ success: false, error: "Invalid query parameters" });
+    return;
+  }
+
+  try {
+    const history = await getLeadHistory(req.params.placeId, parsedQuery.data.limit);
+
+    if (history.length === 0) {
+      res.status(404).json({ success: false, error: "No history found for this lead" });
+      return;
+    }
+
+    res.json({ success: true, data: { placeId: req.params.placeId, history, count: history.length } });
+  } catch (error) {
+    logger.error("Failed to read lead history", { error });
+    res.status(500).json({ success: false, error: "Failed to read lead history" });
+  }
+};
+
+// Stored reviews of one lead, lowest rated first so complaints come up front
+export const GET_LEAD_REVIEWS = async (req: Request<{ placeId: string }>, res: Response) => {
+  const parsedQuery = LeadReviewsQuerySchema.safeParse(req.query);
+
+  if (!parsedQuery.success) {
+    res.status(400).json({ success: false, error: "Invalid query parameters" });
+    return;
+  }
+
+  try {
+    const { reviews, total } = await getLeadReviews(req.params.placeId, parsedQuery.data);
+
+    res.json({
+      success: true,
+      data: {
+        placeId: req.params.placeId,
+        reviews,
+        count: reviews.length,
+        total,
+        offset: parsedQuery.data.offset,
+        limit: parsedQuery.data.limit
+      }
+    });
+  } catch (error) {
+    logger.error("Failed to read lead reviews", { error });
+    res.status(500).json({ success: false, error: "Failed to read lead reviews" });
+  }
+};
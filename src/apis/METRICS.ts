@@ -0,0 +1,23 @@
+import { Request, Response } from 'express'
+import { metricsRegistry } from "../functions/common/metrics";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger('routes/metrics');
+
+// Prometheus text format, when METRICS_TOKEN is set scrapers have to send it as a bearer token
+export const GET_METRICS = async (req: Request, res: Response) => {
+  const token = process.env.METRICS_TOKEN;
+
+  if (token && req.get('Authorization') !== `Bearer ${token}`) {
+    res.status(401).json({ success: false, error: "Invalid metrics token" });
+    return;
+  }
+
+  try {
+    res.set('Content-Type', metricsRegistry.contentType);
+    res.send(await metricsRegistry.metrics());
+  } catch (error) {
+    logger.error("Failed to collect metrics", { error });
+    res.status(500).json({ success: false, error: "Failed to collect metrics" });
+  }
+};
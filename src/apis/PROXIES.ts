@@ -0,0 +1,18 @@
+import { Request, Response } from 'express'
+import { getProxyPoolHealth } from "../functions/common/proxy-pool";
+import { getBrowserPoolStats } from "../functions/common/browser-pool";
+
+// Health of every configured proxy next to the browser pool they serve
+export const GET_PROXY_HEALTH = async (_: Request, res: Response) => {
+  const proxies = getProxyPoolHealth();
+
+  res.json({
+    success: true,
+    data: {
+      proxies,
+      count: proxies.length,
+      retiredCount: proxies.filter(proxy => proxy.retiredUntil).length,
+      browserPool: getBrowserPoolStats()
+    }
+  });
+};
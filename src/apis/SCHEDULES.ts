@@ -0,0 +1,204 @@
+import z from "zod";
+import { Request, Response } from 'express'
+import { findTilingError, GmapsScrapeSchema, isLeadSourceAvailable } from "./GMAPS_SCRAPE";
+import { TApiKey } from "../functions/api-keys";
+import {
+  createScrapeSchedule,
+  deleteScrapeSchedule,
+  getScheduleRuns,
+  getScrapeSchedule,
+  isValidCronExpression,
+  isValidTimeZone,
+  listScrapeSchedules,
+  ScheduleAlreadyRunningError,
+  triggerScheduleRun,
+  updateScrapeSchedule
+} from "../functions/scrape-schedules";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger('routes/schedules');
+
+export const ScrapeScheduleSchema = z.object({
+  name: z.string().min(1),
+  // Five field cron expression like "0 9 * * 1" for every Monday at 09:00
+  cron: z.string().refine(isValidCronExpression, "Invalid cron expression"),
+  // IANA time zone the cron expression is evaluated in
+  timezone: z.string().refine(isValidTimeZone, "Invalid time zone").default('UTC'),
+  enabled: z.boolean().default(true),
+  // Scheduled runs always execute as background jobs
+  request: GmapsScrapeSchema.omit({ background: true })
+});
+
+export const UpdateScrapeScheduleSchema = ScrapeScheduleSchema.partial();
+
+export const ScheduleRunsQuerySchema = z.object({
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+});
+
+// Schedules belong to the key that created them, without authentication every schedule is visible
+const getApiKeyId = (res: Response) => (res.locals.apiKey as TApiKey | undefined)?._id;
+
+export const CREATE_SCHEDULE = async (req: Request, res: Response) => {
+  const parsedBody = ScrapeScheduleSchema.safeParse(req.body);
+
+  if (!parsedBody.success) {
+    res.status(400).json({ success: false, error: parsedBody.error.issues[0]?.message ?? "Invalid query parameters" });
+    return;
+  }
+
+  // A schedule whose source cannot run would only record a failed run at every occurrence
+  if (parsedBody.data.request && !isLeadSourceAvailable(parsedBody.data.request.source)) {
+    res.status(503).json({ success: false, error: "Places API key is not configured" });
+    return;
+  }
+
+  const tilingError = parsedBody.data.request && findTilingError(parsedBody.data.request);
+
+  if (tilingError) {
+    res.status(400).json({ success: false, error: tilingError });
+    return;
+  }
+
+  try {
+    const schedule = await createScrapeSchedule(parsedBody.data, getApiKeyId(res));
+    res.status(201).json({ success: true, data: schedule });
+  } catch (error) {
+    logger.error("Failed to create schedule", { error });
+    res.status(500).json({ success: false, error: "Failed to create schedule" });
+  }
+};
+
+export const LIST_SCHEDULES = async (_: Request, res: Response) => {
+  try {
+    const schedules = await listScrapeSchedules(getApiKeyId(res));
+    res.json({ success: true, data: { schedules, count: schedules.length } });
+  } catch (error) {
+    logger.error("Failed to list schedules", { error });
+    res.status(500).json({ success: false, error: "Failed to list schedules" });
+  }
+};
+
+export const GET_SCHEDULE = async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const schedule = await getScrapeSchedule(req.params.id, getApiKeyId(res));
+
+    if (!schedule) {
+      res.status(404).json({ success: false, error: "Schedule not found" });
+      return;
+    }
+
+    res.json({ success: true, data: schedule });
+  } catch (error) {
+    logger.error("Failed to read schedule", { error });
+    res.status(500).json({ success: false, error: "Failed to read schedule" });
+  }
+};
+
+export const UPDATE_SCHEDULE = async (req: Request<{ id: string }>, res: Response) => {
+  const parsedBody = UpdateScrapeScheduleSchema.safeParse(req.body);
+
+  if (!parsedBody.success) {
+    res.status(400).json({ success: false, error: parsedBody.error.issues[0]?.message ?? "Invalid query parameters" });
+    return;
+  }
+
+  if (parsedBody.data.request && !isLeadSourceAvailable(parsedBody.data.request.source)) {
+    res.status(503).json({ success: false, error: "Places API key is not configured" });
+    return;
+  }
+
+  const tilingError = parsedBody.data.request && findTilingError(parsedBody.data.request);
+
+  if (tilingError) {
+    res.status(400).json({ success: false, error: tilingError });
+    return;
+  }
+
+  try {
+    const schedule = await updateScrapeSchedule(req.params.id, parsedBody.data, getApiKeyId(res));
+
+    if (!schedule) {
+      res.status(404).json({ success: false, error: "Schedule not found" });
+      return;
+    }
+
+    res.json({ success: true, data: schedule });
+  } catch (error) {
+    logger.error("Failed to update schedule", { error });
+    res.status(500).json({ success: false, error: "Failed to update schedule" });
+  }
+};
+
+export const DELETE_SCHEDULE = async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    if (!await deleteScrapeSchedule(req.params.id, getApiKeyId(res))) {
+      res.status(404).json({ success: false, error: "Schedule not found" });
+      return;
+    }
+
+    res.json({ success: true, data: { id: req.params.id, deleted: true } });
+  } catch (error) {
+    logger.error("Failed to delete schedule", { error });
+    res.status(500).json({ success: false, error: "Failed to delete schedule" });
+  }
+};
+
+export const GET_SCHEDULE_RUNS = async (req: Request<{ id: string }>, res: Response) => {
+  const parsedQuery = ScheduleRunsQuerySchema.safeParse(req.query);
+
+  if (!parsedQuery.success) {
+    res.status(400).json({ success: false, error: "Invalid query parameters" });
+    return;
+  }
+
+  try {
+    if (!await getScrapeSchedule(req.params.id, getApiKeyId(res))) {
+      res.status(404).json({ success: false, error: "Schedule not found" });
+      return;
+    }
+
+    const runs = await getScheduleRuns(req.params.id, parsedQuery.data.offset, parsedQuery.data.limit);
+    res.json({
+      success: true,
+      data: {
+        runs,
+        count: runs.length,
+        offset: parsedQuery.data.offset,
+        limit: parsedQuery.data.limit
+      }
+    });
+  } catch (error) {
+    logger.error("Failed to read schedule runs", { error });
+    res.status(500).json({ success: false, error: "Failed to read schedule runs" });
+  }
+};
+
+// Starts a run now, refused while the previous run of the same schedule is still going
+export const RUN_SCHEDULE = async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const runId = await triggerScheduleRun(req.params.id, getApiKeyId(res));
+
+    if (!runId) {
+      res.status(404).json({ success: false, error: "Schedule not found" });
+      return;
+    }
+
+    res.status(202).json({
+      success: true,
+      data: {
+        scheduleId: req.params.id,
+        runId,
+        runsUrl: `/schedules/${req.params.id}/runs`
+      }
+    });
+  } catch (error) {
+    if (error instanceof ScheduleAlreadyRunningError) {
+      res.status(409).json({ success: false, error: error.message });
+      return;
+    }
+
+    logger.error("Failed to start schedule run", { error });
+    res.status(500).json({ success: false, error: "Failed to start schedule run" });
+  }
+};
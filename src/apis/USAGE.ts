@@ -0,0 +1,108 @@
+import z from "zod";
+import { Request, Response } from 'express'
+import {
+  findApiKeyForRequest,
+  getApiKeyUsage,
+  getUsageDay,
+  isAdminRequest,
+  listApiKeys,
+  TApiKey,
+  USAGE_METRICS
+} from "../functions/api-keys";
+import { isDatabaseConfigured } from "../functions/mongo-db";
+import type { TScrapeUsage } from "../functions/gmaps-scrape-pipeline";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger('routes/usage');
+
+const USAGE_DEFAULT_DAYS = 30;
+
+const usageDay = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+export const UsageQuerySchema = z.object({
+  from: usageDay.optional(),
+  to: usageDay.optional(),
+  // Admin only, narrows the report to one key
+  keyId: z.string().optional()
+});
+
+const emptyUsage = (): TScrapeUsage => ({ urlsScraped: 0, leadsExtracted: 0, placesApiCalls: 0 });
+
+/**
+ * Daily usage per key for billing. A regular key only sees its own usage,
+ * the admin key sees every key.
+ */
+export const GET_USAGE = async (req: Request, res: Response) => {
+  const parsedQuery = UsageQuerySchema.safeParse(req.query);
+
+  if (!parsedQuery.success) {
+    res.status(400).json({ success: false, error: "Invalid query parameters" });
+    return;
+  }
+
+  if (!isDatabaseConfigured()) {
+    res.status(503).json({ success: false, error: "API key store is not configured" });
+    return;
+  }
+
+  const today = getUsageDay();
+  const to = parsedQuery.data.to ?? today;
+  const from = parsedQuery.data.from ?? getUsageDay(new Date(Date.now() - (USAGE_DEFAULT_DAYS - 1) * 24 * 60 * 60 * 1000));
+
+  try {
+    let apiKeys: TApiKey[];
+
+    if (isAdminRequest(req)) {
+      apiKeys = await listApiKeys(parsedQuery.data.keyId);
+    } else {
+      const apiKey = await findApiKeyForRequest(req);
+
+      if (!apiKey) {
+        res.status(401).json({ success: false, error: "Missing or invalid API key" });
+        return;
+      }
+      apiKeys = [apiKey];
+    }
+
+    const usage = await getApiKeyUsage(apiKeys.map(apiKey => apiKey._id), from, to);
+    const todaysUsage = await getApiKeyUsage(apiKeys.map(apiKey => apiKey._id), today, today);
+
+    res.json({
+      success: true,
+      data: {
+        from,
+        to,
+        keys: apiKeys.map(apiKey => {
+          const days = usage.filter(entry => entry.keyId === apiKey._id);
+          const todayEntry = todaysUsage.find(entry => entry.keyId === apiKey._id);
+          const totals = emptyUsage();
+          const remainingToday = emptyUsage();
+
+          USAGE_METRICS.forEach(metric => {
+            totals[metric] = days.reduce((sum, day) => sum + (day[metric] ?? 0), 0);
+            remainingToday[metric] = Math.max(0, apiKey.limits[metric] - (todayEntry?.[metric] ?? 0));
+          });
+
+          return {
+            keyId: apiKey._id,
+            name: apiKey.name,
+            keyPrefix: apiKey.keyPrefix,
+            active: apiKey.active,
+            limits: apiKey.limits,
+            remainingToday,
+            totals,
+            days: days.map(({ day, urlsScraped, leadsExtracted, placesApiCalls }) => ({
+              day,
+              urlsScraped: urlsScraped ?? 0,
+              leadsExtracted: leadsExtracted ?? 0,
+              placesApiCalls: placesApiCalls ?? 0
+            }))
+          };
+        })
+      }
+    });
+  } catch (error) {
+    logger.error("Failed to read API key usage", { error });
+    res.status(500).json({ success: false, error: "Failed to read usage" });
+  }
+};
@@ -0,0 +1,274 @@
+import {createHash, randomBytes, randomUUID, timingSafeEqual} from "crypto";
+import {config} from "dotenv";
+import {NextFunction, Request, Response} from "express";
+import {Collection} from "mongodb";
+import {getDatabase, isDatabaseConfigured} from "./mongo-db";
+import type {TScrapeUsage} from "./gmaps-scrape-pipeline";
+import {createLogger} from "../utils/logger";
+
+config();
+
+const logger = createLogger('api-keys');
+
+const API_KEYS_COLLECTION = "api_keys";
+const API_KEY_USAGE_COLLECTION = "api_key_usage";
+
+const API_KEY_PREFIX = "axl_";
+
+// Used for keys created without explicit limits
+const DEFAULT_API_KEY_LIMITS: TApiKeyLimits = {
+  urlsScraped: Number(process.env.API_KEY_DAILY_URLS_LIMIT) || 5000,
+  leadsExtracted: Number(process.env.API_KEY_DAILY_LEADS_LIMIT) || 2000,
+  placesApiCalls: Number(process.env.API_KEY_DAILY_PLACES_CALLS_LIMIT) || 1000
+};
+
+export const USAGE_METRICS = ['urlsScraped', 'leadsExtracted', 'placesApiCalls'] as const;
+
+export type TUsageMetric = typeof USAGE_METRICS[number];
+
+// Daily limits, counted per UTC day
+export type TApiKeyLimits = Record<TUsageMetric, number>;
+
+export type TApiKey = {
+  _id: string;
+  name: string;
+  // Only the hash is stored, the key itself is shown once when it is created
+  keyHash: string;
+  // First characters of the key so people can tell their keys apart
+  keyPrefix: string;
+  limits: TApiKeyLimits;
+  active: boolean;
+  createdAt: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+}
+
+// One ledger entry per key and UTC day, scrapes add to it as they go
+export type TApiKeyUsage = TScrapeUsage & {
+  keyId: string;
+  day: string;
+  updatedAt: Date;
+}
+
+// Aborts a scrape whose key ran out of its daily allowance while it was running
+export class ApiKeyQuotaError extends Error {
+  constructor(public readonly metric: TUsageMetric, public readonly limit: number) {
+    super(`Daily ${metric} limit of ${limit} reached for this API key`);
+    this.name = 'ApiKeyQuotaError';
+  }
+}
+
+const getApiKeysCollection = async (): Promise<Collection<TApiKey>> => {
+  const { db } = await getDatabase();
+  const collection = db.collection<TApiKey>(API_KEYS_COLLECTION);
+  await collection.createIndex({ keyHash: 1 }, { unique: true });
+  return collection;
+};
+
+const getApiKeyUsageCollection = async (): Promise<Collection<TApiKeyUsage>> => {
+  const { db } = await getDatabase();
+  const collection = db.collection<TApiKeyUsage>(API_KEY_USAGE_COLLECTION);
+  await collection.createIndex({ keyId: 1, day: 1 }, { unique: true });
+  await collection.createIndex({ day: 1 });
+  return collection;
+};
+
+export const hashApiKey = (key: string) => createHash('sha256').update(key).digest('hex');
+
+export const getUsageDay = (date: Date = new Date()) => date.toISOString().slice(0, 10);
+
+// The first limit the usage has reached, if any
+export const findExceededLimit = (limits: TApiKeyLimits, usage: Partial<TScrapeUsage>): TUsageMetric | null =>
+    USAGE_METRICS.find(metric => (usage[metric] ?? 0) >= limits[metric]) ?? null;
+
+export const createApiKey = async (name: string, limits: Partial<TApiKeyLimits> = {}): Promise<{ apiKey: TApiKey; key: string }> => {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  const apiKey: TApiKey = {
+    _id: randomUUID(),
+    name,
+    keyHash: hashApiKey(key),
+    keyPrefix: key.slice(0, API_KEY_PREFIX.length + 6),
+    limits: { ...DEFAULT_API_KEY_LIMITS, ...limits },
+    active: true,
+    createdAt: new Date()
+  };
+
+  const apiKeys = await getApiKeysCollection();
+  await apiKeys.insertOne(apiKey);
+
+  return { apiKey, key };
+};
+
+export const revokeApiKey = async (keyId: string): Promise<boolean> => {
+  const apiKeys = await getApiKeysCollection();
+  const { matchedCount } = await apiKeys.updateOne({ _id: keyId }, { $set: { active: false, revokedAt: new Date() } });
+  return matchedCount > 0;
+};
+
+export const listApiKeys = async (keyId?: string): Promise<TApiKey[]> => {
+  const apiKeys = await getApiKeysCollection();
+  return apiKeys.find(keyId ? { _id: keyId } : {}, { projection: { keyHash: 0 } }).toArray();
+};
+
+export const getApiKeyUsage = async (keyIds: string[], fromDay: string, toDay: string): Promise<TApiKeyUsage[]> => {
+  const usage = await getApiKeyUsageCollection();
+  return usage
+      .find({ keyId: { $in: keyIds }, day: { $gte: fromDay, $lte: toDay } }, { projection: { _id: 0 } })
+      .sort({ day: 1 })
+      .toArray();
+};
+
+// Active keys only, a revoked key must not start anything new
+export const getApiKey = async (keyId: string): Promise<TApiKey | null> => {
+  const apiKeys = await getApiKeysCollection();
+  return apiKeys.findOne({ _id: keyId, active: true });
+};
+
+const getTodaysUsage = async (keyId: string): Promise<Partial<TScrapeUsage>> => {
+  const usage = await getApiKeyUsageCollection();
+  return await usage.findOne({ keyId, day: getUsageDay() }) ?? {};
+};
+
+// The limit the key already used up today, null while it may still start scrapes
+export const findExceededApiKeyQuota = async (apiKey: TApiKey): Promise<TUsageMetric | null> =>
+    findExceededLimit(apiKey.limits, await getTodaysUsage(apiKey._id));
+
+const recordApiKeyUsage = async (keyId: string, usage: Partial<TScrapeUsage>): Promise<Partial<TScrapeUsage>> => {
+  const usageCollection = await getApiKeyUsageCollection();
+  const day = getUsageDay();
+
+  const updated = await usageCollection.findOneAndUpdate(
+      { keyId, day },
+      { $inc: usage, $set: { updatedAt: new Date() } },
+      { upsert: true, returnDocument: 'after' }
+  );
+
+  return updated ?? {};
+};
+
+/**
+ * Returns the usage hook for a scrape started with this key.
+ * Every report is added to the key's ledger, and once a daily limit is reached the scrape is aborted with an ApiKeyQuotaError.
+ * Metering failures are logged and never fail the scrape.
+ */
+export const createApiKeyUsageMeter = (apiKey: TApiKey, controller?: AbortController) => async (usage: Partial<TScrapeUsage>) => {
+  try {
+    const todaysUsage = await recordApiKeyUsage(apiKey._id, usage);
+    const exceededMetric = findExceededLimit(apiKey.limits, todaysUsage);
+
+    if (exceededMetric && controller && !controller.signal.aborted) {
+      logger.warn('API key reached its daily limit, stopping its scrape', { apiKeyId: apiKey._id, apiKeyName: apiKey.name, metric: exceededMetric });
+      controller.abort(new ApiKeyQuotaError(exceededMetric, apiKey.limits[exceededMetric]));
+    }
+  } catch (error) {
+    logger.error('Failed to record API key usage', { apiKeyId: apiKey._id, apiKeyName: apiKey.name, error });
+  }
+};
+
+// Jobs and scrapes belong to the key that started them, both sides are unset when API key authentication is disabled
+export const isOwnedByApiKey = (ownerKeyId: string | undefined, apiKey?: TApiKey) => ownerKeyId === apiKey?._id;
+
+const readApiKeyFromRequest = (req: Request) => {
+  const bearer = req.get('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  return bearer ?? req.get('X-API-Key');
+};
+
+export const findApiKeyForRequest = async (req: Request): Promise<TApiKey | null> => {
+  const key = readApiKeyFromRequest(req);
+  if (!key) return null;
+
+  const apiKeys = await getApiKeysCollection();
+  const apiKey = await apiKeys.findOneAndUpdate(
+      { keyHash: hashApiKey(key), active: true },
+      { $set: { lastUsedAt: new Date() } },
+      { returnDocument: 'after' }
+  );
+
+  return apiKey;
+};
+
+export const isAdminRequest = (req: Request) => {
+  const adminKey = process.env.ADMIN_API_KEY;
+  const key = readApiKeyFromRequest(req);
+  if (!adminKey || !key) return false;
+
+  const expected = Buffer.from(hashApiKey(adminKey));
+  return timingSafeEqual(Buffer.from(hashApiKey(key)), expected);
+};
+
+// Local development without a key store, never set this in production
+const isApiKeyAuthDisabled = () => process.env.API_KEY_AUTH_DISABLED === 'true';
+
+/**
+ * Rejects requests without an active API key and exposes the key as res.locals.apiKey.
+ */
+export const requireApiKey = async (req: Request, res: Response, next: NextFunction) => {
+  if (isApiKeyAuthDisabled()) {
+    next();
+    return;
+  }
+
+  if (!isDatabaseConfigured()) {
+    res.status(503).json({ success: false, error: "API key store is not configured" });
+    return;
+  }
+
+  try {
+    const apiKey = await findApiKeyForRequest(req);
+
+    if (!apiKey) {
+      res.status(401).json({ success: false, error: "Missing or invalid API key" });
+      return;
+    }
+
+    res.locals.apiKey = apiKey;
+    next();
+  } catch (error) {
+    logger.error("API key lookup failed", { error });
+    res.status(500).json({ success: false, error: "Failed to verify API key" });
+  }
+};
+
+/**
+ * Refuses to start new scrapes for keys that already used up one of today's limits.
+ * Must run after requireApiKey.
+ */
+export const requireApiKeyQuota = async (_: Request, res: Response, next: NextFunction) => {
+  const apiKey = res.locals.apiKey as TApiKey | undefined;
+
+  if (!apiKey) {
+    next();
+    return;
+  }
+
+  try {
+    const exceededMetric = await findExceededApiKeyQuota(apiKey);
+
+    if (exceededMetric) {
+      res.status(429).json({ success: false, error: new ApiKeyQuotaError(exceededMetric, apiKey.limits[exceededMetric]).message });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    logger.error("API key quota check failed", { error });
+    res.status(500).json({ success: false, error: "Failed to check API key quota" });
+  }
+};
+
+/**
+ * Admin routes are protected by ADMIN_API_KEY rather than a stored key, so they keep working when every key is revoked.
+ */
+export const requireAdminKey = (req: Request, res: Response, next: NextFunction) => {
+  if (!process.env.ADMIN_API_KEY) {
+    res.status(503).json({ success: false, error: "ADMIN_API_KEY is not configured" });
+    return;
+  }
+
+  if (!isAdminRequest(req)) {
+    res.status(401).json({ success: false, error: "Missing or invalid admin key" });
+    return;
+  }
+
+  next();
+};
@@ -1,440 +1,297 @@
-import puppeteer, {Browser, Page} from "puppeteer";
-import {getBrowserOptions} from "../../utils/browser";
-import {config} from "dotenv";
-import {Response} from "express";
+import {Page} from "puppeteer";
+import {MAX_BROWSER_SESSIONS, MAX_PAGES_PER_BROWSER, recordPooledPageResult, retirePooledBrowser, withPooledPage} from "./browser-pool";
+import {TEmitScrapeEvent, TScrapeEventInput} from "../../utils/scrape-events";
+import {classifyScrapeError, getRetryDelayMs, SCRAPE_RETRY_POLICY, TScrapeErrorRecord} from "./scrape-errors";
+import {batchDurationSeconds, pagesFailedTotal, pagesScrapedTotal, TScrapeMetricPhase} from "./metrics";
+import {createLogger, TLogFields, TLogLevel, withLogContext} from "../../utils/logger";
 
-config();
+const logger = createLogger('browser-batch-handler');
 
-// Configuration constants
-const MAX_BROWSER_SESSIONS = Number(process.env.MAX_BROWSER_SESSIONS) || 10;
-const MAX_PAGES_PER_BROWSER = Number(process.env.MAX_PAGES_PER_BROWSER) || 5;
 const TOTAL_CONCURRENT_URLS = MAX_BROWSER_SESSIONS * MAX_PAGES_PER_BROWSER;
 
-type EachPageResult<T> = {
+// Numbers every handler call of this process, so the log lines of one batch can be told apart from a concurrent one
+let nextBatchNumber = 1;
+
+export type EachPageResult<T> = {
   success: boolean;
   data?: T;
-  error?: string;
-}
-
-type SingleBrowserResult<T> = {
-  results: EachPageResult<T>[];
-  error?: string;
-  browserIndex: number;
+  error?: TScrapeErrorRecord;
+  attempts: number;
 }
 
-const processSingleBrowser = async <T>(
-    urlItems: string[],
-    browserIndex: number,
-    batchNumber: number,
-    scrapingFunction: (url: string, page: Page) => Promise<T>,
-    res: Response | null = null
-): Promise<SingleBrowserResult<T>> => {
-
-  let browser: Browser | null = null;
-  const pages: Page[] = [];
-
-  try {
-    sendStreamMessage(res, {
-      type: 'status',
-      message: `Starting browser ${browserIndex} to process ${urlItems.length} items`,
-      data: { browser: browserIndex, batch: batchNumber },
-      timestamp: new Date().toISOString()
-    });
+export type TScrapingFunction<T> = (url: string, page: Page, signal?: AbortSignal) => Promise<T>;
 
-    const browserOptions = await getBrowserOptions();
-    browser = await puppeteer.launch(browserOptions);
+export type TBrowserBatchHandlerOptions<T> = {
+  // Called as soon as a single url finishes, so callers can persist partial results before the whole run ends
+  onPageResult?: (url: string, result: EachPageResult<T>) => void | Promise<void>;
+  // Aborting stops queued urls from starting and closes the pages of those in flight
+  signal?: AbortSignal;
+  // Label of the page and batch metrics, batches without one are counted as unknown
+  phase?: TScrapeMetricPhase;
+}
 
-    if (!browser) {
-      sendStreamMessage(res, {
-        type: 'error',
-        message: `Failed to start browser ${browserIndex} - system error`,
-        data: { browser: browserIndex, batch: batchNumber },
-        timestamp: new Date().toISOString()
-      });
-      return {
-        results: [],
-        error: `Browser launch failed - browser is null`,
-        browserIndex
-      };
-    }
+// Shared by every url of one handler call so progress counts finished urls rather than input positions
+type TUrlProgress = {
+  completed: number;
+  total: number;
+}
 
-    // Process each URL with its own page
-    const pagePromises = urlItems.map(async (url, pageIndex): Promise<EachPageResult<T>> => {
-      let page: Page | null = null;
+// Resolves early when the signal fires so a cancelled scrape never sits out a backoff
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    resolve();
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const processSingleUrl = async <T>(
+    url: string,
+    itemIndex: number,
+    progress: TUrlProgress,
+    scrapingFunction: TScrapingFunction<T>,
+    emit: TEmitScrapeEvent | null = null,
+    options: TBrowserBatchHandlerOptions<T> = {}
+): Promise<EachPageResult<T>> => {
+  const { signal } = options;
+  let browserIndex: number | undefined;
+
+  // Every attempt gets a fresh page, the slot is handed back while we back off so other urls keep moving
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const scrapeData = await withPooledPage(async (page, pooledBrowserIndex) => {
+        browserIndex = pooledBrowserIndex;
 
-      try {
-        sendStreamMessage(res, {
+        sendStreamMessage(emit, {
           type: 'status',
-          message: `Processing item ${pageIndex + 1} of ${urlItems.length} in browser ${browserIndex}`,
-          data: { 
-            browser: browserIndex, 
-            batch: batchNumber,
-            current: pageIndex + 1,
-            total: urlItems.length,
-            percentage: Math.round(((pageIndex + 1) / urlItems.length) * 100)
-          },
-          timestamp: new Date().toISOString()
-        });
-
-        page = await browser!.newPage();
-        pages.push(page);
+          message: `Processing item ${itemIndex + 1} of ${progress.total} in browser ${browserIndex}${attempt > 1 ? ` (attempt ${attempt})` : ''}`,
+          data: {
+            browser: browserIndex,
+            current: itemIndex + 1,
+            total: progress.total,
+            stage: 'processing'
+          }
+        }, 'debug', { browser: browserIndex, attempt });
 
         // Set page timeout and other configurations
         page.setDefaultTimeout(60000);
         page.setDefaultNavigationTimeout(60000);
 
-        const scrapeData = await scrapingFunction(url, page);
-
-        sendStreamMessage(res, {
-          type: 'progress',
-          message: `Successfully processed item ${pageIndex + 1} in browser ${browserIndex}`,
-          data: { 
-            browser: browserIndex, 
-            batch: batchNumber,
-            current: pageIndex + 1,
-            total: urlItems.length,
-            percentage: Math.round(((pageIndex + 1) / urlItems.length) * 100)
-          },
-          timestamp: new Date().toISOString()
-        });
-
-        return { success: true, data: scrapeData };
-
-      } catch (pageScrapeError) {
-        const errorMessage = pageScrapeError instanceof Error ? pageScrapeError.message : String(pageScrapeError);
-        
-        sendStreamMessage(res, {
-          type: 'error',
-          message: `Failed to process item ${pageIndex + 1} in browser ${browserIndex}`,
-          data: { 
-            browser: browserIndex, 
-            batch: batchNumber,
-            current: pageIndex + 1,
-            total: urlItems.length
-          },
-          timestamp: new Date().toISOString()
-        });
-        
-        return { success: false, error: `Page had error for this url ${url} at Browser ${browserIndex} for page ${pageIndex + 1} : ${errorMessage}` };
-      }
-    });
-
-    const results = await Promise.all(pagePromises);
-
-    sendStreamMessage(res, {
-      type: 'status',
-      message: `Browser ${browserIndex} completed processing all ${urlItems.length} items`,
-      data: { 
-        browser: browserIndex, 
-        batch: batchNumber,
-        current: urlItems.length,
-        total: urlItems.length,
-        percentage: 100
-      },
-      timestamp: new Date().toISOString()
-    });
+        return withLogContext({ browser: pooledBrowserIndex }, () => scrapingFunction(url, page, signal));
+      }, signal);
+
+      if (browserIndex !== undefined) await recordPooledPageResult(browserIndex, null);
+
+      pagesScrapedTotal.inc({ phase: options.phase ?? 'unknown' });
+      progress.completed++;
+      sendStreamMessage(emit, {
+        type: 'progress',
+        message: `Successfully processed item ${itemIndex + 1} in browser ${browserIndex}`,
+        data: {
+          browser: browserIndex,
+          current: progress.completed,
+          total: progress.total,
+          percentage: Math.round((progress.completed / progress.total) * 100)
+        }
+      }, 'debug', { browser: browserIndex, attempt });
 
-    return {
-      results,
-      browserIndex
-    };
+      const pageResult: EachPageResult<T> = { success: true, data: scrapeData, attempts: attempt };
+      await notifyPageResult(options, url, pageResult);
+      return pageResult;
 
-  } catch (browserScrapeError) {
-    const errorMessage = browserScrapeError instanceof Error ? browserScrapeError.message : String(browserScrapeError);
+    } catch (pageScrapeError) {
+      const errorMessage = pageScrapeError instanceof Error ? pageScrapeError.message : String(pageScrapeError);
+      const errorType = signal?.aborted ? 'cancelled' : classifyScrapeError(pageScrapeError);
 
-    sendStreamMessage(res, {
-      type: 'error',
-      message: `Browser ${browserIndex} encountered a critical error and stopped`,
-      data: { 
-        browser: browserIndex, 
-        batch: batchNumber
-      },
-      timestamp: new Date().toISOString()
-    });
+      // Pages that keep failing through one proxy get that proxy retired
+      if (browserIndex !== undefined) await recordPooledPageResult(browserIndex, errorType);
 
-    return {
-      results: [],
-      error: errorMessage,
-      browserIndex
-    };
+      if (attempt <= SCRAPE_RETRY_POLICY[errorType]) {
+        const retryDelayMs = getRetryDelayMs(attempt);
 
-  } finally {
-    // Cleanup pages first
-    sendStreamMessage(res, {
-      type: 'status',
-      message: `Cleaning up browser ${browserIndex} resources`,
-      data: { browser: browserIndex, batch: batchNumber },
-      timestamp: new Date().toISOString()
-    });
+        sendStreamMessage(emit, {
+          type: 'status',
+          message: `Item ${itemIndex + 1} failed with ${errorType}, retrying in ${retryDelayMs}ms`,
+          data: {
+            browser: browserIndex,
+            current: itemIndex + 1,
+            total: progress.total,
+            stage: 'retry'
+          }
+        }, 'warn', { browser: browserIndex, attempt, errorType, error: errorMessage });
 
-    for (let i = 0; i < pages.length; i++) {
-      try {
-        const page = pages[i];
-        if (page && !page.isClosed()) {
-          await page.close();
+        // The retry should land on a fresh browser rather than the one that just died
+        if (errorType === 'browser_crash' && browserIndex !== undefined) {
+          await retirePooledBrowser(browserIndex);
         }
-      } catch (pageCloseError) {
-        console.error(`⚠️ Browser ${browserIndex}-Page ${i + 1}: Error closing page:`, pageCloseError);
-      }
-    }
 
-    // Then cleanup browser
-    if (browser) {
-      try {
-        await browser.close();
-        sendStreamMessage(res, {
-          type: 'status',
-          message: `Browser ${browserIndex} closed successfully`,
-          data: { browser: browserIndex, batch: batchNumber },
-          timestamp: new Date().toISOString()
-        });
-      } catch (browserCloseError) {
-        console.error(`⚠️ Browser ${browserIndex}: Error closing browser:`, browserCloseError);
+        await sleep(retryDelayMs, signal);
+        continue;
       }
-    }
-  }
-};
-
-const processBatchOfBrowsers = async <T>(
-    urlItems: string[],
-    batchNumber: number,
-    scrapingFunction: (url: string, page: Page) => Promise<T>,
-    res: Response | null = null
-): Promise<SingleBrowserResult<T>[]> => {
-  sendStreamMessage(res, {
-    type: 'status',
-    message: `Starting batch ${batchNumber} with ${urlItems.length} items`,
-    data: { 
-      batch: batchNumber,
-      total: urlItems.length,
-      stage: 'batch_start'
-    },
-    timestamp: new Date().toISOString()
-  });
-
-  // Split URLs into groups for each browser
-  const browserPagesBatches: string[][] = [];
-  for (let i = 0; i < urlItems.length; i += MAX_PAGES_PER_BROWSER) {
-    browserPagesBatches.push(urlItems.slice(i, i + MAX_PAGES_PER_BROWSER));
-  }
-
-  sendStreamMessage(res, {
-    type: 'status',
-    message: `Batch ${batchNumber} will use ${browserPagesBatches.length} browsers`,
-    data: { 
-      batch: batchNumber,
-      total: browserPagesBatches.length,
-      stage: 'browser_allocation'
-    },
-    timestamp: new Date().toISOString()
-  });
 
-  // Process all browsers in this batch concurrently
-  const browserPromises = browserPagesBatches.map((batchUrls, index) =>
-    processSingleBrowser(batchUrls, index + 1, batchNumber, scrapingFunction, res)
-  );
+      pagesFailedTotal.inc({ phase: options.phase ?? 'unknown', error_type: errorType });
+      progress.completed++;
 
-  const browserResults = await Promise.all(browserPromises);
-  const flattenedBrowserResults = browserResults.flat();
-
-  sendStreamMessage(res, {
-    type: 'status',
-    message: `Batch ${batchNumber} completed successfully`,
-    data: { 
-      batch: batchNumber,
-      total: flattenedBrowserResults.length,
-      stage: 'batch_complete'
-    },
-    timestamp: new Date().toISOString()
-  });
+      // Cancelled urls are expected, they are reported once at the end rather than one error each
+      if (errorType === 'cancelled') {
+        return { success: false, error: { url, type: errorType, attempts: attempt, message: errorMessage }, attempts: attempt };
+      }
 
-  // Add delay between batches to prevent overwhelming the system
-  sendStreamMessage(res, {
-    type: 'status',
-    message: `Waiting 10 seconds before starting next batch`,
-    data: { 
-      batch: batchNumber,
-      stage: 'batch_delay'
-    },
-    timestamp: new Date().toISOString()
-  });
-  
-  await new Promise(resolve => setTimeout(resolve, 10));
+      const failure: TScrapeErrorRecord = { url, type: errorType, attempts: attempt, message: errorMessage };
 
-  // Check for device temperature here, if greater than certain threshold then sleep for 10 minutes and then
-  // continue further
+      sendStreamMessage(emit, {
+        type: 'error',
+        message: `Failed to process item ${itemIndex + 1} in browser ${browserIndex ?? 'n/a'} after ${attempt} attempts (${errorType})`,
+        data: {
+          browser: browserIndex,
+          current: progress.completed,
+          total: progress.total,
+          percentage: Math.round((progress.completed / progress.total) * 100),
+          failure
+        }
+      }, 'warn', { browser: browserIndex, attempt, errorType, error: errorMessage });
 
-  return flattenedBrowserResults;
+      const pageResult: EachPageResult<T> = { success: false, error: failure, attempts: attempt };
+      await notifyPageResult(options, url, pageResult);
+      return pageResult;
+    }
+  }
 };
 
-type TBrowserBatchHandlerReturn<T> = {
+export type TBrowserBatchHandlerReturn<T> = {
   success: boolean;
   results: T[];
-  errors: string[];
+  errors: TScrapeErrorRecord[];
   successCount: number;
   errorCount: number;
   totalUrls: number;
-  batches: number;
   duration: number;
+  // True when the signal fired, results then only hold the urls finished before that
+  cancelled: boolean;
 }
 
-// Streaming message types
-type StreamMessage = {
-  type: 'progress' | 'status' | 'error' | 'complete';
-  message: string;
-  data?: {
-    current?: number;
-    total?: number;
-    percentage?: number;
-    stage?: string;
-    batch?: number;
-    browser?: number;
-  };
-  timestamp: string;
-}
+// A failing callback must never turn a successfully scraped page into a failed one
+const notifyPageResult = async <T>(options: TBrowserBatchHandlerOptions<T>, url: string, result: EachPageResult<T>) => {
+  if (!options.onPageResult) return;
 
-// Helper function to send streaming messages
-const sendStreamMessage = (res: Response | null, message: StreamMessage) => {
-  if (res && !res.headersSent) {
-    try {
-      res.write(`data: ${JSON.stringify(message)}\n\n`);
-    } catch (error) {
-      console.warn('Failed to send stream message:', error);
-    }
+  try {
+    await options.onPageResult(url, result);
+  } catch (callbackError) {
+    logger.warn('onPageResult callback failed', { url, error: callbackError });
   }
-  // Always log to console as well
-  console.log(`📡 [${message.type.toUpperCase()}] ${message.message}`);
 };
 
-export const BrowserBatchHandler = async <T>(
+// Sends an event to the client when there is one and logs it, per-url events are debug output
+const sendStreamMessage = (emit: TEmitScrapeEvent | null, event: TScrapeEventInput, level: TLogLevel = 'debug', fields: TLogFields = {}) => {
+  emit?.(event);
+  logger[level](event.message, { event: event.type, ...fields });
+};
+
+const runBatch = async <T>(
     urlItems: string[],
-    scrapingFunction: (url: string, page: Page) => Promise<T>,
-    res: Response | null = null
+    scrapingFunction: TScrapingFunction<T>,
+    emit: TEmitScrapeEvent | null = null,
+    options: TBrowserBatchHandlerOptions<T> = {}
 ): Promise<TBrowserBatchHandlerReturn<T>> => {
   const startTime = Date.now();
-  
-  sendStreamMessage(res, {
+
+  sendStreamMessage(emit, {
     type: 'status',
     message: `Starting processing of ${urlItems.length} items`,
-    data: { 
+    data: {
       total: urlItems.length,
       stage: 'initialization'
-    },
-    timestamp: new Date().toISOString()
-  });
+    }
+  }, 'info', { total: urlItems.length, phase: options.phase });
 
-  sendStreamMessage(res, {
+  sendStreamMessage(emit, {
     type: 'status',
     message: `System configured for ${MAX_BROWSER_SESSIONS} browsers with ${MAX_PAGES_PER_BROWSER} pages each`,
-    data: { 
+    data: {
       total: TOTAL_CONCURRENT_URLS,
       stage: 'configuration'
-    },
-    timestamp: new Date().toISOString()
+    }
   });
 
   try {
-    // Split all URLs into batches that can be processed simultaneously
-    const batches: string[][] = [];
-    for (let i = 0; i < urlItems.length; i += TOTAL_CONCURRENT_URLS) {
-      batches.push(urlItems.slice(i, i + TOTAL_CONCURRENT_URLS));
-    }
+    const progress: TUrlProgress = { completed: 0, total: urlItems.length };
 
-    sendStreamMessage(res, {
-      type: 'status',
-      message: `Organized items into ${batches.length} batches for processing`,
-      data: { 
-        total: batches.length,
-        stage: 'batching'
-      },
-      timestamp: new Date().toISOString()
-    });
+    const pageResults = await Promise.all(urlItems.map((url, itemIndex) =>
+        withLogContext({ url }, () => processSingleUrl(url, itemIndex, progress, scrapingFunction, emit, options))
+    ));
 
     const aggregatedResults: T[] = [];
-    const aggregatedErrors: string[] = [];
+    const aggregatedErrors: TScrapeErrorRecord[] = [];
     let successCount = 0;
     let errorCount = 0;
-
-    // Process each batch sequentially to manage resource usage
-    for (let batchIndex = 0; batchIndex < batches.length; batchIndex++) {
-      try {
-        const currentBatchResults = await processBatchOfBrowsers(batches[batchIndex], batchIndex + 1, scrapingFunction, res);
-        // Extract results and errors from each browser result
-        currentBatchResults.forEach(browserResult => {
-          // Add errors from this browser
-          if (browserResult.error) {
-            aggregatedErrors.push(browserResult.error);
-          }
-
-          // Process each page result
-          browserResult.results.forEach(pageResult => {
-            if (pageResult.success && pageResult.data) {
-              aggregatedResults.push(pageResult.data);
-              successCount++;
-            } else if (pageResult.error) {
-              aggregatedErrors.push(pageResult.error);
-              errorCount++;
-            }
-          });
-        });
-
-        sendStreamMessage(res, {
-          type: 'progress',
-          message: `Batch ${batchIndex + 1} completed: ${successCount} successful, ${errorCount} failed`,
-          data: { 
-            current: successCount + errorCount,
-            total: urlItems.length,
-            percentage: Math.round(((successCount + errorCount) / urlItems.length) * 100),
-            batch: batchIndex + 1
-          },
-          timestamp: new Date().toISOString()
-        });
-
-      } catch (batchError) {
-        const batchErrorMessage = `Batch ${batchIndex + 1} processing failed: ${batchError instanceof Error ? batchError.message : String(batchError)}`;
-        
-        sendStreamMessage(res, {
-          type: 'error',
-          message: `Batch ${batchIndex + 1} failed completely`,
-          data: { 
-            batch: batchIndex + 1,
-            stage: 'batch_error'
-          },
-          timestamp: new Date().toISOString()
-        });
-
-        // Add error for this entire batch
-        aggregatedErrors.push(batchErrorMessage);
-        errorCount += batches[batchIndex].length;
+    let cancelledCount = 0;
+
+    pageResults.forEach(pageResult => {
+      if (pageResult.success && pageResult.data) {
+        aggregatedResults.push(pageResult.data);
+        successCount++;
+      } else if (pageResult.error?.type === 'cancelled') {
+        cancelledCount++;
+      } else if (pageResult.error) {
+        aggregatedErrors.push(pageResult.error);
+        errorCount++;
       }
-    }
+    });
 
     const endTime = Date.now();
     const duration = Math.round((endTime - startTime) / 1000);
+    batchDurationSeconds.observe({ phase: options.phase ?? 'unknown' }, (endTime - startTime) / 1000);
+    const cancelled = !!options.signal?.aborted;
+
+    if (cancelled) {
+      sendStreamMessage(emit, {
+        type: 'status',
+        message: `Processing cancelled: ${successCount} successful, ${errorCount} failed, ${cancelledCount} not processed`,
+        data: {
+          current: successCount + errorCount,
+          total: urlItems.length,
+          stage: 'cancelled'
+        }
+      }, 'info', { successCount, errorCount, cancelledCount });
 
-    sendStreamMessage(res, {
-      type: 'complete',
+      return {
+        success: successCount > 0,
+        results: aggregatedResults,
+        errors: aggregatedErrors,
+        duration,
+        errorCount,
+        successCount,
+        totalUrls: urlItems.length,
+        cancelled
+      };
+    }
+
+    // Only the end of this set of urls, the scrape as a whole reports its own completion
+    sendStreamMessage(emit, {
+      type: 'status',
       message: `Processing completed successfully!`,
-      data: { 
+      data: {
         current: urlItems.length,
         total: urlItems.length,
         percentage: 100,
         stage: 'complete'
-      },
-      timestamp: new Date().toISOString()
+      }
     });
 
-    sendStreamMessage(res, {
+    sendStreamMessage(emit, {
       type: 'status',
       message: `Final results: ${successCount} successful, ${errorCount} failed (${((successCount / urlItems.length) * 100).toFixed(1)}% success rate)`,
-      data: { 
+      data: {
         current: successCount,
         total: urlItems.length,
         percentage: Math.round((successCount / urlItems.length) * 100),
         stage: 'final_summary'
-      },
-      timestamp: new Date().toISOString()
-    });
+      }
+    }, 'info', { successCount, errorCount, durationMs: endTime - startTime });
 
     return {
       success: errorCount < urlItems.length, // Success if not all URLs failed
@@ -443,41 +300,44 @@ export const BrowserBatchHandler = async <T>(
       duration,
       errorCount,
       successCount,
-      batches: batches.length,
       totalUrls: urlItems.length,
+      cancelled
     };
 
   } catch (error) {
     const endTime = Date.now();
     const duration = Math.round((endTime - startTime) / 1000);
+    batchDurationSeconds.observe({ phase: options.phase ?? 'unknown' }, (endTime - startTime) / 1000);
+    const errorMessage = error instanceof Error ? error.message : String(error);
 
-    sendStreamMessage(res, {
+    sendStreamMessage(emit, {
       type: 'error',
       message: `Critical system error occurred during processing`,
-      data: { 
+      data: {
         stage: 'critical_error'
-      },
-      timestamp: new Date().toISOString()
-    });
+      }
+    }, 'error', { error });
 
     return {
       duration,
       success: false,
       results: [],
-      errors: [error instanceof Error ? error.message : String(error)],
-      batches: 0,
+      errors: urlItems.map((url): TScrapeErrorRecord => ({ url, type: classifyScrapeError(error), attempts: 0, message: errorMessage })),
       successCount: 0,
       errorCount: urlItems.length, // All URLs failed
-      totalUrls: urlItems.length
+      totalUrls: urlItems.length,
+      cancelled: !!options.signal?.aborted
     };
   }
 };
 
-// Save to database immediately after successful scrape
-// try {
-//   await upsertScrapingResults(db, item.country, item.state, item.city, item.query, scrapeData);
-//   console.log(`💾 Database updated for ${item.city}, ${item.state} - ${item.query}`);
-// } catch (dbError) {
-//   console.error(`❌ Database save failed for ${item.city}, ${item.state}:`, dbError);
-//   // Continue processing even if DB save fails
-// }
\ No newline at end of file
+/**
+ * Scrapes every url on the shared browser pool.
+ * All urls are queued up front and each freed page slot picks up the next one, results keep the input order.
+ */
+export const BrowserBatchHandler = <T>(
+    urlItems: string[],
+    scrapingFunction: TScrapingFunction<T>,
+    emit: TEmitScrapeEvent | null = null,
+    options: TBrowserBatchHandlerOptions<T> = {}
+): Promise<TBrowserBatchHandlerReturn<T>> => withLogContext({ batch: nextBatchNumber++ }, () => runBatch(urlItems, scrapingFunction, emit, options));
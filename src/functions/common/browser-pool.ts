@@ -0,0 +1,324 @@
+import fs from "fs";
+import puppeteer, {Browser, Page} from "puppeteer";
+import {anonymizeProxy, closeAnonymizedProxy} from "proxy-chain";
+import {createBrowserIdentity, getBrowserOptions, TBrowserIdentity} from "../../utils/browser";
+import {ScrapeError, TScrapeErrorType} from "./scrape-errors";
+import {acquireProxy, recordProxyResult, releaseProxy, TProxy} from "./proxy-pool";
+import {browserLaunchFailuresTotal, metricsRegistry} from "./metrics";
+import {config} from "dotenv";
+import {Gauge} from "prom-client";
+import {createLogger} from "../../utils/logger";
+
+config();
+
+const logger = createLogger('browser-pool');
+
+// Configuration constants
+export const MAX_BROWSER_SESSIONS = Number(process.env.MAX_BROWSER_SESSIONS) || 10;
+export const MAX_PAGES_PER_BROWSER = Number(process.env.MAX_PAGES_PER_BROWSER) || 5;
+// A browser is restarted after serving this many pages, Chromium slowly leaks memory on long runs
+const BROWSER_RECYCLE_AFTER_PAGES = Number(process.env.BROWSER_RECYCLE_AFTER_PAGES) || 200;
+// A browser whose process tree grows past this is restarted as soon as its open pages finish
+const BROWSER_MAX_MEMORY_MB = Number(process.env.BROWSER_MAX_MEMORY_MB) || 1536;
+// Warm browsers are closed after the pool has had no work for this long
+const BROWSER_IDLE_TIMEOUT_MS = Number(process.env.BROWSER_IDLE_TIMEOUT_MS) || 60000;
+
+type TPooledBrowser = {
+  index: number;
+  browser: Browser;
+  identity: TBrowserIdentity;
+  // Unset when no proxies are configured
+  proxy: TProxy | null;
+  activePages: number;
+  pagesServed: number;
+  // Retiring browsers take no new pages and close once their open pages finish
+  retiring: boolean;
+}
+
+type TPageSlot = {
+  pooledBrowser: TPooledBrowser;
+  page: Page;
+}
+
+type TSlotWaiter = {
+  resolve: (slot: TPageSlot) => void;
+  reject: (error: unknown) => void;
+}
+
+export type TBrowserPoolStats = {
+  browsers: number;
+  activePages: number;
+  queuedPages: number;
+}
+
+const browsers: TPooledBrowser[] = [];
+const waiters: TSlotWaiter[] = [];
+let launchingBrowsers = 0;
+let nextBrowserIndex = 1;
+let idleTimer: NodeJS.Timeout | null = null;
+
+// Sums resident memory of the browser and all of its renderer processes, only available on Linux
+const getProcessTreeMemoryMb = (pid: number): number | null => {
+  try {
+    const rssKb = Number(fs.readFileSync(`/proc/${pid}/status`, 'utf8').match(/VmRSS:\s+(\d+)/)?.[1] ?? 0);
+    const children = fs.readFileSync(`/proc/${pid}/task/${pid}/children`, 'utf8').trim().split(/\s+/).filter(Boolean);
+
+    return children.reduce((total, childPid) => total + (getProcessTreeMemoryMb(Number(childPid)) ?? 0), rssKb / 1024);
+  } catch {
+    return null;
+  }
+};
+
+const isOverMemoryLimit = (pooledBrowser: TPooledBrowser) => {
+  const pid = pooledBrowser.browser.process()?.pid;
+  if (!pid) return false;
+
+  const memoryMb = getProcessTreeMemoryMb(pid);
+  return memoryMb !== null && memoryMb > BROWSER_MAX_MEMORY_MB;
+};
+
+// Gives the browser's proxy back and stops the local forwarder its credentials went through
+const releaseBrowserProxy = (proxy: TProxy | null, proxyServer?: string) => {
+  if (proxy) releaseProxy(proxy);
+  if (proxyServer) void closeAnonymizedProxy(proxyServer, true).catch(() => undefined);
+};
+
+const removeBrowser = (pooledBrowser: TPooledBrowser) => {
+  const position = browsers.indexOf(pooledBrowser);
+  if (position === -1) return;
+
+  browsers.splice(position, 1);
+  releaseBrowserProxy(pooledBrowser.proxy, pooledBrowser.identity.proxyServer);
+};
+
+const closeBrowser = async (pooledBrowser: TPooledBrowser) => {
+  removeBrowser(pooledBrowser);
+  try {
+    await pooledBrowser.browser.close();
+  } catch (browserCloseError) {
+    logger.warn('Error closing browser', { browser: pooledBrowser.index, error: browserCloseError });
+  }
+};
+
+// Each browser gets its own proxy, user agent, viewport and language
+const launchBrowser = async (): Promise<TPooledBrowser> => {
+  launchingBrowsers++;
+  const proxy = acquireProxy();
+  let proxyServer: string | undefined;
+
+  try {
+    // Chrome cannot answer proxy credential prompts for SOCKS, so credentials are added by a local forwarder
+    proxyServer = proxy ? await anonymizeProxy(proxy.url) : undefined;
+    const identity = createBrowserIdentity(proxyServer);
+    const browser = await puppeteer.launch(await getBrowserOptions(identity));
+    const pooledBrowser: TPooledBrowser = { index: nextBrowserIndex++, browser, identity, proxy, activePages: 0, pagesServed: 0, retiring: false };
+
+    // A crashed browser is dropped so the next page goes to a healthy or freshly launched one
+    browser.once('disconnected', () => {
+      if (browsers.includes(pooledBrowser)) {
+        logger.warn('Browser disconnected unexpectedly', { browser: pooledBrowser.index });
+        removeBrowser(pooledBrowser);
+        dispatchWaiters();
+      }
+    });
+
+    browsers.push(pooledBrowser);
+    logger.info('Browser launched', { browser: pooledBrowser.index, poolSize: browsers.length, maxPoolSize: MAX_BROWSER_SESSIONS, proxy: proxy?.id });
+    return pooledBrowser;
+  } catch (error) {
+    browserLaunchFailuresTotal.inc();
+    releaseBrowserProxy(proxy, proxyServer);
+    throw error;
+  } finally {
+    launchingBrowsers--;
+  }
+};
+
+const openPage = async (pooledBrowser: TPooledBrowser): Promise<TPageSlot> => {
+  pooledBrowser.activePages++;
+  try {
+    const page = await pooledBrowser.browser.newPage();
+    await page.setUserAgent(pooledBrowser.identity.userAgent);
+    await page.setExtraHTTPHeaders({ 'Accept-Language': pooledBrowser.identity.acceptLanguage });
+    return { pooledBrowser, page };
+  } catch (error) {
+    pooledBrowser.activePages--;
+    throw error;
+  }
+};
+
+const findAvailableBrowser = () => browsers.find(pooledBrowser =>
+    !pooledBrowser.retiring && pooledBrowser.activePages < MAX_PAGES_PER_BROWSER
+);
+
+// Hands free page slots to waiting work in FIFO order, launching browsers while the pool is below its size
+const dispatchWaiters = () => {
+  while (waiters.length > 0) {
+    const availableBrowser = findAvailableBrowser();
+
+    if (availableBrowser) {
+      const waiter = waiters.shift()!;
+      openPage(availableBrowser).then(waiter.resolve, waiter.reject);
+      continue;
+    }
+
+    if (browsers.length + launchingBrowsers < MAX_BROWSER_SESSIONS) {
+      const waiter = waiters.shift()!;
+      launchBrowser()
+          .then(openPage)
+          .then(waiter.resolve, waiter.reject)
+          .finally(dispatchWaiters);
+      continue;
+    }
+
+    return;
+  }
+};
+
+const scheduleIdleShutdown = () => {
+  if (idleTimer) clearTimeout(idleTimer);
+
+  idleTimer = setTimeout(() => {
+    const isIdle = waiters.length === 0 && browsers.every(pooledBrowser => pooledBrowser.activePages === 0);
+    if (!isIdle || browsers.length === 0) return;
+
+    logger.info('Browser pool idle, closing browsers', { count: browsers.length });
+    void Promise.all([...browsers].map(closeBrowser));
+  }, BROWSER_IDLE_TIMEOUT_MS);
+  idleTimer.unref();
+};
+
+const releasePage = async ({ pooledBrowser, page }: TPageSlot) => {
+  try {
+    if (!page.isClosed()) await page.close();
+  } catch (pageCloseError) {
+    logger.warn('Error closing page', { browser: pooledBrowser.index, error: pageCloseError });
+  }
+
+  pooledBrowser.activePages--;
+  pooledBrowser.pagesServed++;
+
+  if (!pooledBrowser.retiring && (pooledBrowser.pagesServed >= BROWSER_RECYCLE_AFTER_PAGES || isOverMemoryLimit(pooledBrowser))) {
+    logger.info('Recycling browser', { browser: pooledBrowser.index, pagesServed: pooledBrowser.pagesServed });
+    pooledBrowser.retiring = true;
+  }
+
+  if (pooledBrowser.retiring && pooledBrowser.activePages === 0) {
+    await closeBrowser(pooledBrowser);
+  }
+
+  dispatchWaiters();
+  scheduleIdleShutdown();
+};
+
+const createCancelledError = () => new ScrapeError('cancelled', 'Scrape was cancelled');
+
+// Leaves the queue when the signal fires, a slot that was already handed out is released right away
+const waitForSlot = (signal?: AbortSignal) => new Promise<TPageSlot>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(createCancelledError());
+    return;
+  }
+
+  const onAbort = () => {
+    const position = waiters.indexOf(waiter);
+    if (position !== -1) waiters.splice(position, 1);
+    reject(createCancelledError());
+  };
+
+  const waiter: TSlotWaiter = {
+    resolve: (slot) => {
+      signal?.removeEventListener('abort', onAbort);
+      if (signal?.aborted) {
+        void releasePage(slot);
+        reject(createCancelledError());
+        return;
+      }
+      resolve(slot);
+    },
+    reject: (error) => {
+      signal?.removeEventListener('abort', onAbort);
+      reject(error);
+    }
+  };
+
+  signal?.addEventListener('abort', onAbort, { once: true });
+  waiters.push(waiter);
+  dispatchWaiters();
+});
+
+/**
+ * Runs work on a fresh page from the shared pool of warm browsers.
+ * Callers queue up in order and each page slot is handed to the next caller the moment it frees up,
+ * so one slow page never holds back the others.
+ * An aborted signal takes the caller out of the queue, or closes its page when the work already started.
+ */
+export const withPooledPage = async <R>(work: (page: Page, browserIndex: number) => Promise<R>, signal?: AbortSignal): Promise<R> => {
+  if (idleTimer) clearTimeout(idleTimer);
+
+  const slot = await waitForSlot(signal);
+
+  // Closing the page makes whatever puppeteer call the work is awaiting reject straight away
+  const closePage = () => {
+    slot.page.close().catch(() => undefined);
+  };
+  signal?.addEventListener('abort', closePage, { once: true });
+
+  try {
+    return await work(slot.page, slot.pooledBrowser.index);
+  } catch (error) {
+    throw signal?.aborted ? createCancelledError() : error;
+  } finally {
+    signal?.removeEventListener('abort', closePage);
+    await releasePage(slot);
+  }
+};
+
+// Stops handing out pages from a browser that looks unhealthy, it is closed once its open pages finish
+export const retirePooledBrowser = async (browserIndex: number) => {
+  const pooledBrowser = browsers.find(candidate => candidate.index === browserIndex);
+  if (!pooledBrowser || pooledBrowser.retiring) return;
+
+  logger.info('Retiring unhealthy browser', { browser: browserIndex });
+  pooledBrowser.retiring = true;
+  if (pooledBrowser.activePages === 0) await closeBrowser(pooledBrowser);
+  dispatchWaiters();
+};
+
+/**
+ * Feeds a page's outcome into the health of the browser's proxy, errorType is null for a success.
+ * When the proxy gets retired every browser using it is retired as well, so the next pages launch with other proxies.
+ */
+export const recordPooledPageResult = async (browserIndex: number, errorType: TScrapeErrorType | null) => {
+  const proxy = browsers.find(candidate => candidate.index === browserIndex)?.proxy;
+  if (!proxy || !recordProxyResult(proxy, errorType)) return;
+
+  const proxyBrowsers = browsers.filter(pooledBrowser => pooledBrowser.proxy === proxy);
+  await Promise.all(proxyBrowsers.map(pooledBrowser => retirePooledBrowser(pooledBrowser.index)));
+};
+
+export const getBrowserPoolStats = (): TBrowserPoolStats => ({
+  browsers: browsers.length,
+  activePages: browsers.reduce((total, pooledBrowser) => total + pooledBrowser.activePages, 0),
+  queuedPages: waiters.length
+});
+
+// Read from the pool whenever /metrics is scraped
+const POOL_GAUGES: Record<keyof TBrowserPoolStats, { name: string; help: string }> = {
+  browsers: { name: 'scraper_active_browsers', help: 'Browsers in the pool, retiring ones included' },
+  activePages: { name: 'scraper_active_pages', help: 'Pages open in pooled browsers' },
+  queuedPages: { name: 'scraper_queued_pages', help: 'Pages waiting for a free slot in the pool' }
+};
+
+(Object.keys(POOL_GAUGES) as (keyof TBrowserPoolStats)[]).forEach(stat => new Gauge({
+  ...POOL_GAUGES[stat],
+  registers: [metricsRegistry],
+  collect() {
+    this.set(getBrowserPoolStats()[stat]);
+  }
+}));
+
+export const closeBrowserPool = async () => {
+  if (idleTimer) clearTimeout(idleTimer);
+  await Promise.all([...browsers].map(closeBrowser));
+};
@@ -0,0 +1,102 @@
+import {collectDefaultMetrics, Counter, Histogram, Registry} from "prom-client";
+
+// Everything /metrics exposes, kept apart from prom-client's global registry
+export const metricsRegistry = new Registry();
+
+// Process memory, CPU, event loop lag and heap sizes
+collectDefaultMetrics({ register: metricsRegistry });
+
+// Who is scraping the page, the canary's own pages are kept apart from client scrapes
+export const SCRAPE_METRIC_PHASES = ['search', 'details', 'website', 'reviews', 'canary'] as const;
+
+export type TScrapeMetricPhase = typeof SCRAPE_METRIC_PHASES[number];
+
+// What kind of page is loaded or read, the same page type is visited in several phases
+export type TScrapePageType = 'search' | 'place' | 'reviews' | 'website';
+
+// Load and extraction times range from a cached fixture to a feed scrolled for minutes
+const SCRAPE_DURATION_BUCKETS = [0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60, 120, 300];
+
+export const pagesScrapedTotal = new Counter({
+  name: 'scraper_pages_scraped_total',
+  help: 'Pages scraped successfully, however many attempts they took',
+  labelNames: ['phase'] as const,
+  registers: [metricsRegistry]
+});
+
+export const pagesFailedTotal = new Counter({
+  name: 'scraper_pages_failed_total',
+  help: 'Pages that failed after their last attempt',
+  labelNames: ['phase', 'error_type'] as const,
+  registers: [metricsRegistry]
+});
+
+export const pageLoadDurationSeconds = new Histogram({
+  name: 'scraper_page_load_duration_seconds',
+  help: 'Time until a page finished loading, failed loads included',
+  labelNames: ['page_type'] as const,
+  buckets: SCRAPE_DURATION_BUCKETS,
+  registers: [metricsRegistry]
+});
+
+export const extractionDurationSeconds = new Histogram({
+  name: 'scraper_extraction_duration_seconds',
+  help: 'Time spent reading a loaded page, scrolling a result feed included',
+  labelNames: ['page_type'] as const,
+  buckets: SCRAPE_DURATION_BUCKETS,
+  registers: [metricsRegistry]
+});
+
+export const batchDurationSeconds = new Histogram({
+  name: 'scraper_batch_duration_seconds',
+  help: 'Time a BrowserBatchHandler call took to scrape all of its urls',
+  labelNames: ['phase'] as const,
+  buckets: [1, 5, 15, 30, 60, 120, 300, 600, 1200, 1800, 3600],
+  registers: [metricsRegistry]
+});
+
+export const browserLaunchFailuresTotal = new Counter({
+  name: 'scraper_browser_launch_failures_total',
+  help: 'Pooled browsers that could not be launched',
+  registers: [metricsRegistry]
+});
+
+export const placesApiRequestsTotal = new Counter({
+  name: 'places_api_requests_total',
+  help: 'Places API Text Search requests by HTTP status, network_error when no response came back',
+  labelNames: ['status'] as const,
+  registers: [metricsRegistry]
+});
+
+// queued is a background job that was started, its pages are counted as they are scraped
+export type TScrapeRequestOutcome = 'invalid' | 'unavailable' | 'queued' | 'completed' | 'cancelled' | 'failed';
+
+export const scrapeRequestsTotal = new Counter({
+  name: 'scrape_requests_total',
+  help: 'Scrape requests by route and how they ended',
+  labelNames: ['route', 'outcome'] as const,
+  registers: [metricsRegistry]
+});
+
+export const scrapeRequestDurationSeconds = new Histogram({
+  name: 'scrape_request_duration_seconds',
+  help: 'Time a scrape request took until its results were sent, background jobs excluded',
+  labelNames: ['route'] as const,
+  buckets: [1, 5, 15, 30, 60, 120, 300, 600, 1200, 1800, 3600],
+  registers: [metricsRegistry]
+});
+
+// Observes how long the work took whether it succeeded or threw
+export const measureDuration = async <T>(
+    histogram: Histogram<'page_type'>,
+    pageType: TScrapePageType,
+    work: () => Promise<T>
+): Promise<T> => {
+  const endTimer = histogram.startTimer({ page_type: pageType });
+
+  try {
+    return await work();
+  } finally {
+    endTimer();
+  }
+};
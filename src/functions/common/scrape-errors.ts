@@ -0,0 +1,77 @@
+import {config} from "dotenv";
+
+config();
+
+export const SCRAPE_ERROR_TYPES = ['timeout', 'navigation', 'empty_results', 'selector_missing', 'browser_crash', 'api_error', 'cancelled', 'unknown'] as const;
+
+export type TScrapeErrorType = typeof SCRAPE_ERROR_TYPES[number];
+
+export type TScrapeErrorRecord = {
+  url: string;
+  type: TScrapeErrorType;
+  attempts: number;
+  message: string;
+}
+
+/**
+ * Thrown by scrapers when a page loaded but did not contain what they expected,
+ * failures coming from puppeteer itself are classified from their message instead.
+ */
+export class ScrapeError extends Error {
+  constructor(public readonly type: TScrapeErrorType, message: string) {
+    super(message);
+    this.name = 'ScrapeError';
+  }
+}
+
+// Retries per failure type, override with e.g. SCRAPE_RETRIES_TIMEOUT=3
+const DEFAULT_RETRIES: Record<TScrapeErrorType, number> = {
+  timeout: 2,
+  navigation: 2,
+  empty_results: 1,
+  selector_missing: 1,
+  browser_crash: 2,
+  // Places API requests are already retried inside the client
+  api_error: 0,
+  // Never retried, see readRetries
+  cancelled: 0,
+  unknown: 0
+};
+
+const RETRY_BASE_DELAY_MS = Number(process.env.SCRAPE_RETRY_BASE_DELAY_MS) || 1000;
+const RETRY_MAX_DELAY_MS = Number(process.env.SCRAPE_RETRY_MAX_DELAY_MS) || 30000;
+
+const readRetries = (type: TScrapeErrorType) => {
+  if (type === 'cancelled') return 0;
+
+  const configured = process.env[`SCRAPE_RETRIES_${type.toUpperCase()}`];
+  return configured !== undefined && configured !== '' && Number.isInteger(Number(configured)) && Number(configured) >= 0
+      ? Number(configured)
+      : DEFAULT_RETRIES[type];
+};
+
+export const SCRAPE_RETRY_POLICY = Object.fromEntries(
+    SCRAPE_ERROR_TYPES.map(type => [type, readRetries(type)])
+) as Record<TScrapeErrorType, number>;
+
+const BROWSER_CRASH_PATTERN = /Target closed|Session closed|browser has disconnected|Connection closed|Protocol error|detached Frame|Navigating frame was detached/i;
+const NAVIGATION_PATTERN = /net::ERR_|Navigation failed|Cannot navigate|ERR_ABORTED|Execution context was destroyed/i;
+const SELECTOR_PATTERN = /failed to find element|No element found|waiting for selector/i;
+
+export const classifyScrapeError = (error: unknown): TScrapeErrorType => {
+  if (error instanceof ScrapeError) return error.type;
+
+  const name = error instanceof Error ? error.name : '';
+  const message = error instanceof Error ? error.message : String(error);
+
+  // Selector waits also throw TimeoutError, the message tells them apart
+  if (SELECTOR_PATTERN.test(message)) return 'selector_missing';
+  if (name === 'TimeoutError' || /timeout .*exceeded/i.test(message)) return 'timeout';
+  if (BROWSER_CRASH_PATTERN.test(message)) return 'browser_crash';
+  if (NAVIGATION_PATTERN.test(message)) return 'navigation';
+
+  return 'unknown';
+};
+
+// Exponential backoff: base, 2x base, 4x base... capped so a long retry chain never stalls a run
+export const getRetryDelayMs = (attempt: number) => Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS);
@@ -0,0 +1,142 @@
+import {randomBytes, timingSafeEqual} from "crypto";
+import {Response} from "express";
+import {config} from "dotenv";
+import {SCRAPE_EVENTS_VERSION, TEmitScrapeEvent, TScrapeEvent} from "../../utils/scrape-events";
+import {createLogger} from "../../utils/logger";
+
+config();
+
+const logger = createLogger('scrape-event-stream');
+
+// Proxies commonly drop connections that stay silent for 30 to 60 seconds
+const SSE_HEARTBEAT_INTERVAL_MS = Number(process.env.SSE_HEARTBEAT_INTERVAL_MS) || 15000;
+// How long a scrape waits for its client to reconnect before it is cancelled, finished streams stay resumable as long
+const SSE_RESUME_WINDOW_MS = Number(process.env.SSE_RESUME_WINDOW_MS) || 30000;
+// Events kept for resume, a client that falls further behind than this misses the oldest ones
+const SSE_EVENT_BUFFER_SIZE = Number(process.env.SSE_EVENT_BUFFER_SIZE) || 10000;
+
+const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  'Connection': 'keep-alive',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Cache-Control, Last-Event-ID'
+};
+
+type TBufferedEvent = {
+  id: number;
+  payload: string;
+}
+
+export type TScrapeEventStream = {
+  scrapeId: string;
+  // Key that started the scrape, only that key may attach to its events
+  ownerKeyId?: string;
+  // Lets clients that cannot send the key attach, it is only valid while the stream is kept
+  accessToken: string;
+  hasAccessToken: (token?: string) => boolean;
+  emit: TEmitScrapeEvent;
+  // Starts streaming to a client, replaying everything after lastEventId first
+  attach: (res: Response, lastEventId?: string) => void;
+  end: () => void;
+}
+
+const streams = new Map<string, TScrapeEventStream>();
+
+const formatEvent = (event: TScrapeEvent, id?: number) =>
+    `${id !== undefined ? `id: ${id}\n` : ''}event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+
+/**
+ * Buffers the events of one scrape and fans them out to whichever clients are attached.
+ * When the last client disconnects onAbandoned runs after the resume window, unless a client reconnected in between.
+ */
+export const createScrapeEventStream = (scrapeId: string, onAbandoned: () => void, ownerKeyId?: string): TScrapeEventStream => {
+  const buffer: TBufferedEvent[] = [];
+  const subscribers = new Set<Response>();
+  let nextEventId = 1;
+  let ended = false;
+  let abandonTimer: NodeJS.Timeout | null = null;
+  const accessToken = randomBytes(24).toString('base64url');
+
+  const heartbeatTimer = setInterval(() => {
+    const heartbeat = formatEvent({
+      version: SCRAPE_EVENTS_VERSION,
+      type: 'heartbeat',
+      message: '',
+      data: {},
+      timestamp: new Date().toISOString()
+    });
+    subscribers.forEach(res => res.write(heartbeat));
+  }, SSE_HEARTBEAT_INTERVAL_MS);
+  heartbeatTimer.unref();
+
+  const detach = (res: Response) => {
+    subscribers.delete(res);
+    if (subscribers.size > 0 || ended) return;
+
+    abandonTimer = setTimeout(() => {
+      logger.info('No client reconnected to the scrape', { scrapeId, resumeWindowMs: SSE_RESUME_WINDOW_MS });
+      onAbandoned();
+    }, SSE_RESUME_WINDOW_MS);
+  };
+
+  const stream: TScrapeEventStream = {
+    scrapeId,
+    ownerKeyId,
+    accessToken,
+
+    hasAccessToken: (token) => token !== undefined && token.length === accessToken.length
+        && timingSafeEqual(Buffer.from(token), Buffer.from(accessToken)),
+
+    emit: (event) => {
+      if (ended) return;
+
+      const id = nextEventId++;
+      const payload = formatEvent({ ...event, version: SCRAPE_EVENTS_VERSION, timestamp: new Date().toISOString() } as TScrapeEvent, id);
+
+      buffer.push({ id, payload });
+      if (buffer.length > SSE_EVENT_BUFFER_SIZE) buffer.shift();
+
+      subscribers.forEach(res => res.write(payload));
+    },
+
+    attach: (res, lastEventId) => {
+      if (abandonTimer) clearTimeout(abandonTimer);
+      abandonTimer = null;
+
+      res.writeHead(200, SSE_HEADERS);
+
+      const lastSeenId = Number(lastEventId);
+      buffer
+          .filter(event => !lastEventId || !Number.isInteger(lastSeenId) || event.id > lastSeenId)
+          .forEach(event => res.write(event.payload));
+
+      if (ended) {
+        res.end();
+        return;
+      }
+
+      subscribers.add(res);
+      res.on('close', () => detach(res));
+    },
+
+    end: () => {
+      if (ended) return;
+      ended = true;
+
+      clearInterval(heartbeatTimer);
+      if (abandonTimer) clearTimeout(abandonTimer);
+
+      subscribers.forEach(res => res.end());
+      subscribers.clear();
+
+      // Kept a little longer so a client that dropped right before the end can still collect it
+      setTimeout(() => streams.delete(scrapeId), SSE_RESUME_WINDOW_MS).unref();
+    }
+  };
+
+  streams.set(scrapeId, stream);
+  return stream;
+};
+
+export const getScrapeEventStream = (scrapeId: string): TScrapeEventStream | null => streams.get(scrapeId) ?? null;
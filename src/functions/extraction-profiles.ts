@@ -0,0 +1,453 @@
+import {config} from "dotenv";
+import {JSDOM} from "jsdom";
+import {Collection, MongoServerError} from "mongodb";
+import {getDatabase, isDatabaseConfigured} from "./mongo-db";
+import {ariaLabelSelector, GMAPS_LABELS, readAriaLabelName, stripLabelPrefix, TGmapsLabels} from "../utils/gmaps-locales";
+import {createLogger} from "../utils/logger";
+
+config();
+
+const logger = createLogger('extraction-profiles');
+
+const EXTRACTION_PROFILES_COLLECTION = "extraction_profiles";
+
+// How long a process keeps using the profile it loaded before checking for a newly activated one
+const EXTRACTION_PROFILE_REFRESH_MS = Number(process.env.EXTRACTION_PROFILE_REFRESH_MS) || 60000;
+
+// Fields of a lead read from the place page, businessStatus is read from the text of the closed notice
+export const PLACE_PROFILE_FIELDS = [
+  'name', 'website', 'phoneNumber', 'overAllRating', 'numberOfReviews', 'address', 'plusCode', 'category', 'priceLevel', 'businessStatus'
+] as const;
+
+export type TPlaceProfileField = typeof PLACE_PROFILE_FIELDS[number];
+
+// Elements of a search result page, read in the browser while the feed is scrolled
+export const SEARCH_PROFILE_ELEMENTS = ['feed', 'endOfList', 'separator', 'listingLink'] as const;
+
+export type TSearchProfileElement = typeof SEARCH_PROFILE_ELEMENTS[number];
+
+// Elements of a place's reviews tab, used in the browser while the list is sorted, scrolled and expanded
+export const REVIEWS_PROFILE_ELEMENTS = ['placePanel', 'reviewsTab', 'sortButton', 'sortMenuItem', 'review', 'moreButton'] as const;
+
+export type TReviewsProfileElement = typeof REVIEWS_PROFILE_ELEMENTS[number];
+
+// Fields of one review, read from the markup of the review element
+export const REVIEW_PROFILE_FIELDS = ['reviewId', 'reviewerName', 'rating', 'relativeDate', 'text', 'ownerResponseText', 'ownerResponseDate'] as const;
+
+export type TReviewProfileField = typeof REVIEW_PROFILE_FIELDS[number];
+
+/**
+ * Post-processing steps, applied in order to the value a selector read.
+ * Steps taking a label name the key of the locale's label, like "stripLabel:phone", removePrefix takes the text itself.
+ */
+export const POST_PROCESS_STEPS = ['trim', 'removeWhitespace', 'firstWord', 'firstNumber', 'stripLabel', 'beforeLabel', 'ariaLabelName', 'removePrefix'] as const;
+
+export type TPostProcessStep = typeof POST_PROCESS_STEPS[number];
+
+const LABEL_STEPS: TPostProcessStep[] = ['stripLabel', 'beforeLabel', 'ariaLabelName'];
+
+export type TSelectorRule = {
+  // CSS selector, {{label:key}} is replaced by the locale's label and {{ariaLabel:key}} by an aria-label match for it
+  css: string;
+  // Attribute to read, the element's text when unset
+  attribute?: string;
+  postProcess?: string[];
+}
+
+export type TFieldRule = {
+  // Tried in order, the first one giving a non-empty value wins
+  selectors: TSelectorRule[];
+  // A page where none of them match is not a place page
+  required?: boolean;
+}
+
+export type TExtractionProfile = {
+  version: string;
+  description?: string;
+  place: Record<TPlaceProfileField, TFieldRule>;
+  // Fallback chains of plain selectors, the first that matches on the page is used
+  search: Record<TSearchProfileElement, string[]>;
+  reviews: {
+    // Fallback chains like search, moreButton is looked up inside each review
+    elements: Record<TReviewsProfileElement, string[]>;
+    fields: Record<TReviewProfileField, TFieldRule>;
+  };
+}
+
+export type TStoredExtractionProfile = TExtractionProfile & {
+  _id: string;
+  // At most one stored profile is active, none means the built-in profile is used
+  active: boolean;
+  createdAt: Date;
+  activatedAt?: Date;
+}
+
+// Which profile and selector each value of a browser scraped lead came from
+export type TLeadExtraction = {
+  profileVersion: string;
+  selectors: Partial<Record<TPlaceProfileField, string>>;
+}
+
+// Which profile and selector each value of a scraped review came from
+export type TReviewExtraction = {
+  profileVersion: string;
+  selectors: Partial<Record<TReviewProfileField, string>>;
+}
+
+export type TProfileFieldValues<TField extends string = TPlaceProfileField> = {
+  values: Partial<Record<TField, string>>;
+  selectors: Partial<Record<TField, string>>;
+  // Required fields none of whose selectors matched
+  missing: TField[];
+}
+
+export class ExtractionProfileExistsError extends Error {
+  constructor(version: string) {
+    super(`Extraction profile ${version} already exists`);
+    this.name = 'ExtractionProfileExistsError';
+  }
+}
+
+export const DEFAULT_EXTRACTION_PROFILE: TExtractionProfile = {
+  version: 'builtin-1',
+  description: 'Selectors built into this release',
+  place: {
+    name: {
+      required: true,
+      selectors: [
+        { css: 'div{{ariaLabel:informationFor}}', attribute: 'aria-label', postProcess: ['ariaLabelName:informationFor'] },
+        { css: 'h1.DUwDvf', postProcess: ['trim'] }
+      ]
+    },
+    website: {
+      selectors: [
+        { css: 'a[aria-label^="{{label:website}}"]', attribute: 'href' },
+        { css: 'a[data-item-id="authority"]', attribute: 'href' }
+      ]
+    },
+    phoneNumber: {
+      selectors: [
+        { css: 'button[aria-label^="{{label:phone}}"]', attribute: 'aria-label', postProcess: ['stripLabel:phone', 'removeWhitespace'] },
+        { css: 'button[data-item-id^="phone:tel:"]', attribute: 'data-item-id', postProcess: ['removePrefix:phone:tel:'] }
+      ]
+    },
+    overAllRating: {
+      selectors: [
+        { css: '.ceNzKf', attribute: 'aria-label', postProcess: ['firstWord'] },
+        { css: 'div.F7nice span[aria-hidden="true"]', postProcess: ['trim'] }
+      ]
+    },
+    numberOfReviews: {
+      selectors: [
+        { css: 'span[aria-label*="{{label:reviews}}"]', attribute: 'aria-label', postProcess: ['beforeLabel:reviews'] }
+      ]
+    },
+    address: {
+      selectors: [
+        { css: 'button[data-item-id="address"]', attribute: 'aria-label', postProcess: ['stripLabel:address'] }
+      ]
+    },
+    plusCode: {
+      selectors: [
+        { css: 'button[data-item-id="oloc"]', attribute: 'aria-label', postProcess: ['stripLabel:plusCode'] }
+      ]
+    },
+    category: {
+      selectors: [
+        { css: 'button[jsaction*="category"]', postProcess: ['trim'] },
+        { css: 'button.DkEaL', postProcess: ['trim'] }
+      ]
+    },
+    priceLevel: {
+      selectors: [
+        { css: 'span[aria-label^="{{label:price}}"]', attribute: 'aria-label', postProcess: ['stripLabel:price'] }
+      ]
+    },
+    businessStatus: {
+      selectors: [
+        { css: 'div[aria-label="{{label:notice}}"]', postProcess: ['trim'] }
+      ]
+    }
+  },
+  search: {
+    feed: ['div{{ariaLabel:resultsFor}}', 'div[role="feed"]'],
+    endOfList: ['span.HlvSq'],
+    separator: ['.TFQHme'],
+    listingLink: ['a[href*="/maps/place/"]']
+  },
+  reviews: {
+    elements: {
+      placePanel: ['div{{ariaLabel:informationFor}}'],
+      reviewsTab: ['button[role="tab"]{{ariaLabel:reviewsFor}}'],
+      sortButton: ['button[aria-label="{{label:sortReviews}}"]', 'button[data-value="Sort"]'],
+      sortMenuItem: ['div[role="menuitemradio"]'],
+      review: ['div.jftiEf[data-review-id]', 'div[data-review-id][aria-label]'],
+      moreButton: ['button.w8nwRe']
+    },
+    fields: {
+      reviewId: {
+        required: true,
+        selectors: [
+          { css: '[data-review-id]', attribute: 'data-review-id' }
+        ]
+      },
+      reviewerName: {
+        selectors: [
+          { css: 'div.d4r55', postProcess: ['trim'] },
+          { css: '[data-review-id][aria-label]', attribute: 'aria-label', postProcess: ['trim'] }
+        ]
+      },
+      rating: {
+        selectors: [
+          // "4 stars", "4,0 estrellas" depending on the language
+          { css: 'span.kvMYJc', attribute: 'aria-label', postProcess: ['firstNumber'] },
+          { css: 'span[role="img"][aria-label]', attribute: 'aria-label', postProcess: ['firstNumber'] }
+        ]
+      },
+      relativeDate: {
+        selectors: [
+          { css: 'span.rsqaWe', postProcess: ['trim'] }
+        ]
+      },
+      text: {
+        selectors: [
+          { css: 'span.wiI7pd', postProcess: ['trim'] }
+        ]
+      },
+      ownerResponseText: {
+        selectors: [
+          { css: 'div.CDe7pd div.wiI7pd', postProcess: ['trim'] }
+        ]
+      },
+      ownerResponseDate: {
+        selectors: [
+          { css: 'div.CDe7pd span.DZSIDd', postProcess: ['trim'] }
+        ]
+      }
+    }
+  }
+};
+
+// Only the plain text labels can be put into selectors and steps
+const isLabelKey = (key: string): key is keyof TGmapsLabels => typeof GMAPS_LABELS.en[key as keyof TGmapsLabels] === 'string';
+
+// Fills in the {{label:key}} and {{ariaLabel:key}} placeholders with the locale's labels
+export const resolveProfileSelector = (css: string, labels: TGmapsLabels) =>
+    css.replace(/{{(label|ariaLabel):(\w+)}}/g, (placeholder, kind: string, key: string) => {
+      if (!isLabelKey(key)) return placeholder;
+      const label = String(labels[key]);
+      return kind === 'label' ? label : ariaLabelSelector(label);
+    });
+
+let validationDocument: Document | null = null;
+
+// Rejects selectors the browser could not parse once their placeholders are filled in
+export const isValidProfileSelector = (css: string) => {
+  const resolved = resolveProfileSelector(css, GMAPS_LABELS.en);
+  if (/{{.*}}/.test(resolved)) return false;
+
+  validationDocument ??= new JSDOM('').window.document;
+  try {
+    validationDocument.querySelector(resolved);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const isValidPostProcessStep = (step: string) => {
+  const [name, argument] = splitStep(step);
+  if (!POST_PROCESS_STEPS.includes(name as TPostProcessStep)) return false;
+  if (LABEL_STEPS.includes(name as TPostProcessStep)) return !!argument && isLabelKey(argument);
+  return name === 'removePrefix' ? !!argument : argument === undefined;
+};
+
+// "removePrefix:phone:tel:" takes everything after the first colon as its argument
+const splitStep = (step: string): [string, string | undefined] => {
+  const separator = step.indexOf(':');
+  return separator === -1 ? [step, undefined] : [step.slice(0, separator), step.slice(separator + 1)];
+};
+
+const applyPostProcessStep = (value: string, step: string, labels: TGmapsLabels): string | null => {
+  const [name, argument = ''] = splitStep(step);
+  const label = isLabelKey(argument) ? String(labels[argument]) : argument;
+
+  switch (name as TPostProcessStep) {
+    case 'trim':
+      return value.trim();
+    case 'removeWhitespace':
+      return value.replace(/\s/g, '');
+    case 'firstWord':
+      return value.trim().split(/\s+/)[0];
+    case 'firstNumber':
+      return value.match(/\d+([.,]\d+)?/)?.[0] ?? null;
+    case 'stripLabel':
+      return stripLabelPrefix(value, label);
+    case 'beforeLabel':
+      // "1,234 reviews" or "1 234 avis" without the word
+      return value.includes(label) ? value.slice(0, value.indexOf(label)).trim() : null;
+    case 'ariaLabelName':
+      return readAriaLabelName(value, label);
+    case 'removePrefix':
+      return value.startsWith(argument) ? value.slice(argument.length) : value;
+    default:
+      return value;
+  }
+};
+
+const readSelectorRule = (root: ParentNode, rule: TSelectorRule, labels: TGmapsLabels): string | null => {
+  let element: Element | null;
+  try {
+    element = root.querySelector(resolveProfileSelector(rule.css, labels));
+  } catch {
+    // A broken selector in a loaded profile only costs its own fallback step
+    return null;
+  }
+  if (!element) return null;
+
+  let value = rule.attribute ? element.getAttribute(rule.attribute) : element.textContent;
+  for (const step of rule.postProcess ?? []) {
+    if (value === null) break;
+    value = applyPostProcessStep(value, step, labels);
+  }
+
+  return value || null;
+};
+
+const extractFields = <TField extends string>(
+    root: ParentNode,
+    fields: readonly TField[],
+    rules: Record<TField, TFieldRule>,
+    labels: TGmapsLabels
+): TProfileFieldValues<TField> => {
+  const result: TProfileFieldValues<TField> = { values: {}, selectors: {}, missing: [] };
+
+  for (const field of fields) {
+    const rule = rules[field];
+    const matched = rule.selectors
+        .map(selector => ({ selector, value: readSelectorRule(root, selector, labels) }))
+        .find(candidate => candidate.value !== null);
+
+    if (matched) {
+      result.values[field] = matched.value!;
+      result.selectors[field] = matched.selector.css;
+    } else if (rule.required) {
+      result.missing.push(field);
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Reads every place field of the profile from the page, walking each field's selectors until one gives a value.
+ * Records the selector, as written in the profile, that produced each value.
+ */
+export const extractProfileFields = (root: ParentNode, profile: TExtractionProfile, labels: TGmapsLabels): TProfileFieldValues =>
+    extractFields(root, PLACE_PROFILE_FIELDS, profile.place, labels);
+
+// Same as extractProfileFields for the markup of one review, root holds the review element itself
+export const extractReviewFields = (root: ParentNode, profile: TExtractionProfile, labels: TGmapsLabels): TProfileFieldValues<TReviewProfileField> =>
+    extractFields(root, REVIEW_PROFILE_FIELDS, profile.reviews.fields, labels);
+
+const resolveSelectorChains = <TElement extends string>(elements: readonly TElement[], chains: Record<TElement, string[]>, labels: TGmapsLabels) =>
+    Object.fromEntries(elements.map(element => [
+      element,
+      chains[element].map(css => resolveProfileSelector(css, labels))
+    ])) as Record<TElement, string[]>;
+
+// The search elements with their placeholders filled in, handed to the page as plain selector chains
+export const resolveSearchSelectors = (profile: TExtractionProfile, labels: TGmapsLabels): Record<TSearchProfileElement, string[]> =>
+    resolveSelectorChains(SEARCH_PROFILE_ELEMENTS, profile.search, labels);
+
+export const resolveReviewsSelectors = (profile: TExtractionProfile, labels: TGmapsLabels): Record<TReviewsProfileElement, string[]> =>
+    resolveSelectorChains(REVIEWS_PROFILE_ELEMENTS, profile.reviews.elements, labels);
+
+const getExtractionProfilesCollection = async (): Promise<Collection<TStoredExtractionProfile>> => {
+  const { db } = await getDatabase();
+  const collection = db.collection<TStoredExtractionProfile>(EXTRACTION_PROFILES_COLLECTION);
+  await collection.createIndex({ active: 1 });
+  return collection;
+};
+
+// Profiles stored before reviews were part of a profile read reviews with the built-in selectors
+const toExtractionProfile = ({ version, description, place, search, reviews }: TStoredExtractionProfile): TExtractionProfile =>
+    ({ version, ...(description && { description }), place, search, reviews: reviews ?? DEFAULT_EXTRACTION_PROFILE.reviews });
+
+let cachedProfile: { profile: TExtractionProfile; loadedAt: number } | null = null;
+
+/**
+ * The profile scrapes should use: the active stored profile, or the built-in one when none is active.
+ * Cached for EXTRACTION_PROFILE_REFRESH_MS, so a profile activated by another process is picked up without a restart.
+ */
+export const getActiveExtractionProfile = async (): Promise<TExtractionProfile> => {
+  if (!isDatabaseConfigured()) return DEFAULT_EXTRACTION_PROFILE;
+  if (cachedProfile && Date.now() - cachedProfile.loadedAt < EXTRACTION_PROFILE_REFRESH_MS) return cachedProfile.profile;
+
+  let profile = cachedProfile?.profile ?? DEFAULT_EXTRACTION_PROFILE;
+  try {
+    const profiles = await getExtractionProfilesCollection();
+    const active = await profiles.findOne({ active: true });
+    profile = active ? toExtractionProfile(active) : DEFAULT_EXTRACTION_PROFILE;
+  } catch (error) {
+    // Scrapes keep going with the profile they had, the next refresh tries again
+    logger.error('Could not load the active extraction profile', { fallbackVersion: profile.version, error });
+  }
+
+  cachedProfile = { profile, loadedAt: Date.now() };
+  return profile;
+};
+
+// Stored profiles, newest first, followed by the built-in one
+export const listExtractionProfiles = async (): Promise<(TExtractionProfile & { active: boolean })[]> => {
+  const profiles = await getExtractionProfilesCollection();
+  const stored = await profiles.find().sort({ createdAt: -1 }).toArray();
+  const hasActive = stored.some(profile => profile.active);
+
+  return [
+    ...stored.map(profile => ({ ...toExtractionProfile(profile), active: profile.active })),
+    { ...DEFAULT_EXTRACTION_PROFILE, active: !hasActive }
+  ];
+};
+
+// Versions are immutable, a changed profile is stored under a new version
+export const createExtractionProfile = async (profile: TExtractionProfile): Promise<TStoredExtractionProfile> => {
+  if (profile.version === DEFAULT_EXTRACTION_PROFILE.version) throw new ExtractionProfileExistsError(profile.version);
+
+  const profiles = await getExtractionProfilesCollection();
+  const stored: TStoredExtractionProfile = { ...profile, _id: profile.version, active: false, createdAt: new Date() };
+
+  try {
+    await profiles.insertOne(stored);
+  } catch (error) {
+    if (error instanceof MongoServerError && error.code === 11000) throw new ExtractionProfileExistsError(profile.version);
+    throw error;
+  }
+
+  return stored;
+};
+
+/**
+ * Makes the version the profile every scrape uses, activating the built-in version goes back to the built-in profile.
+ * Returns null for an unknown version.
+ */
+export const activateExtractionProfile = async (version: string): Promise<TExtractionProfile | null> => {
+  const profiles = await getExtractionProfilesCollection();
+  const isBuiltIn = version === DEFAULT_EXTRACTION_PROFILE.version;
+
+  if (!isBuiltIn && !await profiles.findOne({ _id: version })) return null;
+
+  await profiles.updateMany({ active: true, _id: { $ne: version } }, { $set: { active: false } });
+  const activated = isBuiltIn ? null : await profiles.findOneAndUpdate(
+      { _id: version },
+      { $set: { active: true, activatedAt: new Date() } },
+      { returnDocument: 'after' }
+  );
+
+  const profile = activated ? toExtractionProfile(activated) : DEFAULT_EXTRACTION_PROFILE;
+  // Takes effect in this process right away, other processes pick it up on their next refresh
+  cachedProfile = { profile, loadedAt: Date.now() };
+  logger.info('Extraction profile activated', { profileVersion: profile.version });
+
+  return profile;
+};
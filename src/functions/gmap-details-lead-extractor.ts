@@ -1,6 +1,19 @@
 import {Page} from "puppeteer";
-import {DEFAULT_PAGE_LOAD_TIMEOUT} from "../utils/constants";
 import {JSDOM} from "jsdom";
+import {parseGmapsUrlDetails} from "../utils/helpers";
+import {getGmapsLabels, gotoLocalizedMapsPage, removeLocaleParams, TGmapsLabels, TMapsLocale} from "../utils/gmaps-locales";
+import {ScrapeError} from "./common/scrape-errors";
+import {extractProfileFields, getActiveExtractionProfile, TLeadExtraction} from "./extraction-profiles";
+import {TScrapingFunction} from "./common/browser-batch-handler";
+import {extractionDurationSeconds, measureDuration, pageLoadDurationSeconds} from "./common/metrics";
+
+// Same values the Places API uses for businessStatus
+export type TBusinessStatus = 'OPERATIONAL' | 'CLOSED_TEMPORARILY' | 'CLOSED_PERMANENTLY';
+
+// browser scrapes Maps pages, places_api uses Text Search, hybrid fills gaps in API leads from their Maps page
+export const LEAD_SOURCES = ['browser', 'places_api', 'hybrid'] as const;
+
+export type TLeadSource = typeof LEAD_SOURCES[number];
 
 export type TGoogleMapLeadInfo = {
     website: string;
@@ -9,6 +22,23 @@ export type TGoogleMapLeadInfo = {
     gmapsUrl: string;
     overAllRating: string;
     numberOfReviews: string;
+    address: string;
+    category: string;
+    plusCode: string;
+    priceLevel: string;
+    latitude: number | null;
+    longitude: number | null;
+    // ChIJ place id and numeric cid, both parsed from gmapsUrl
+    googlePlaceId: string;
+    cid: string;
+    businessStatus: TBusinessStatus;
+    // Where the values came from, set by the scrape pipeline
+    source?: TLeadSource;
+    // Only present when website enrichment (phase 3) ran for the lead
+    emails?: string[];
+    socialProfiles?: string[];
+    // Only present on leads read from a Maps page: the extraction profile and the selector of each value
+    extraction?: TLeadExtraction;
 }
 
 export const gmapsSetupRequestInterception = async (page: Page) => {
@@ -48,14 +78,24 @@ export const gmapsSetupRequestInterception = async (page: Page) => {
 };
 
 
-export const GmapsDetailsLeadInfoExtractor = async (url: string, page: Page): Promise<TGoogleMapLeadInfo> => {
+const getBusinessStatus = (noticeText: string | null | undefined, labels: TGmapsLabels): TBusinessStatus => {
+    if (!noticeText) return 'OPERATIONAL';
+    if (labels.permanentlyClosed.test(noticeText)) return 'CLOSED_PERMANENTLY';
+    if (labels.temporarilyClosed.test(noticeText)) return 'CLOSED_TEMPORARILY';
+    // Notices are also used for things like changed hours, those places are still open
+    return 'OPERATIONAL';
+};
+
+// Builds the details extractor for place pages in the given locale, the labels it reads differ per language
+export const createGmapsDetailsLeadInfoExtractor = (locale: TMapsLocale = {}): TScrapingFunction<TGoogleMapLeadInfo> => async (url, page) => {
+    const labels = getGmapsLabels(locale);
 
     await gmapsSetupRequestInterception(page);
-    await page.goto(url, { waitUntil: "networkidle2", timeout: DEFAULT_PAGE_LOAD_TIMEOUT });
+    await measureDuration(pageLoadDurationSeconds, 'place', () => gotoLocalizedMapsPage(page, url, locale));
 
     // Get HTML and URL, then immediately close page
     let fullPageHTML = await page.content();
-    const gmapsUrl = page.url();
+    const gmapsUrl = removeLocaleParams(page.url());
 
     // Close page immediately for speed
     await page.close();
@@ -68,44 +108,41 @@ export const GmapsDetailsLeadInfoExtractor = async (url: string, page: Page): Pr
         .replace(/<link[^>]*rel=["']stylesheet["'][^>]*>/gi, '')
         .replace(/style=["'][^"']*["']/gi, '');
 
-    const dom = new JSDOM(fullPageHTML, {
-        resources: "usable",
-        runScripts: "outside-only",
-        pretendToBeVisual: false,
-    });
-
-    const document = dom.window.document;
+    const profile = await getActiveExtractionProfile();
+    const { values, selectors, missing } = await measureDuration(extractionDurationSeconds, 'place', async () => {
+        const dom = new JSDOM(fullPageHTML, {
+            resources: "usable",
+            runScripts: "outside-only",
+            pretendToBeVisual: false,
+        });
 
-    // Check if place is temporarily closed
-    const isPlaceTemporarilyClosed = document.querySelector('div[aria-label="Notice"]');
-    if (isPlaceTemporarilyClosed) {
-        return {
-            website: 'N/A',
-            phoneNumber: 'N/A',
-            name: 'N/A',
-            gmapsUrl: gmapsUrl ?? 'N/A',
-            overAllRating: 'N/A',
-            numberOfReviews: 'N/A'
-        };
-    }
-
-    // Extract data from HTML using JSDOM
-    const website = document.querySelector('a[aria-label^="Website:"]')?.getAttribute('href') ?? 'N/A';
-
-    const phoneNumber = document.querySelector('button[aria-label^="Phone:"]')?.getAttribute('aria-label')?.replace('Phone: ', '').replace(/\s/g, '') ?? 'N/A';
-
-    const overAllRating = document.getElementsByClassName('ceNzKf')?.[0]?.getAttribute('aria-label')?.split(' ')?.[0]?.trim() ?? 'N/A';
+        return extractProfileFields(dom.window.document, profile, labels);
+    });
 
-    const numberOfReviews = document.querySelector('span[aria-label*="reviews"]')?.getAttribute('aria-label')?.split(' ')[0] ?? 'N/A';
+    // Every place page has a name, a page without it is a consent wall, a half rendered page or another language
+    if (missing.length > 0) throw new ScrapeError('selector_missing', `Place ${missing.join(', ')} not found for ${url} with extraction profile ${profile.version}`);
 
-    const name = document.querySelector('div[aria-label^="Information for"]')?.getAttribute('aria-label')?.replace('Information for ', '') ?? 'N/A';
+    const { googlePlaceId, cid, latitude, longitude } = parseGmapsUrlDetails(gmapsUrl);
 
     return {
-        website,
-        phoneNumber,
-        name,
+        website: values.website ?? 'N/A',
+        phoneNumber: values.phoneNumber ?? 'N/A',
+        name: values.name ?? 'N/A',
         gmapsUrl: gmapsUrl ?? 'N/A',
-        overAllRating,
-        numberOfReviews
+        overAllRating: values.overAllRating ?? 'N/A',
+        numberOfReviews: values.numberOfReviews ?? 'N/A',
+        address: values.address ?? 'N/A',
+        category: values.category ?? 'N/A',
+        plusCode: values.plusCode ?? 'N/A',
+        priceLevel: values.priceLevel ?? 'N/A',
+        latitude,
+        longitude,
+        googlePlaceId: googlePlaceId ?? 'N/A',
+        cid: cid ?? 'N/A',
+        // Closed places still get extracted, the notice only decides their status
+        businessStatus: getBusinessStatus(values.businessStatus, labels),
+        extraction: { profileVersion: profile.version, selectors }
     };
-}
\ No newline at end of file
+}
+
+export const GmapsDetailsLeadInfoExtractor = createGmapsDetailsLeadInfoExtractor();
@@ -0,0 +1,240 @@
+import {ElementHandle, Page} from "puppeteer";
+import {config} from "dotenv";
+import {JSDOM} from "jsdom";
+import {getGmapsLabels, gotoLocalizedMapsPage, removeLocaleParams, TMapsLocale, TRelativeDateUnit} from "../utils/gmaps-locales";
+import {gmapsSetupRequestInterception} from "./gmap-details-lead-extractor";
+import {ScrapeError} from "./common/scrape-errors";
+import {TScrapingFunction} from "./common/browser-batch-handler";
+import {extractionDurationSeconds, measureDuration, pageLoadDurationSeconds} from "./common/metrics";
+import {
+  extractReviewFields,
+  getActiveExtractionProfile,
+  resolveReviewsSelectors,
+  TReviewExtraction,
+  TReviewsProfileElement
+} from "./extraction-profiles";
+
+config();
+
+export const DEFAULT_REVIEWS_LIMIT = Number(process.env.MAX_REVIEWS_PER_PLACE) || 50;
+
+// Same order as the entries of the Maps "Sort reviews" menu
+export const REVIEW_SORT_ORDERS = ['most_relevant', 'newest', 'highest_rating', 'lowest_rating'] as const;
+
+export type TReviewSortOrder = typeof REVIEW_SORT_ORDERS[number];
+
+export type TReviewScrapeOptions = {
+  // Reviews collected per place at most
+  limit: number;
+  sort: TReviewSortOrder;
+}
+
+export type TReviewOwnerResponse = {
+  text: string;
+  relativeDate: string;
+  date: string | null;
+}
+
+export type TGoogleMapReview = {
+  reviewId: string;
+  reviewerName: string;
+  rating: number | null;
+  // As Maps shows it in the scrape's language, like "3 months ago"
+  relativeDate: string;
+  // YYYY-MM-DD worked out from relativeDate, only as precise as its unit
+  date: string | null;
+  text: string;
+  ownerResponse: TReviewOwnerResponse | null;
+  extraction?: TReviewExtraction;
+}
+
+export type TPlaceReviews = {
+  // The place page the reviews were read from, after redirects
+  gmapsUrl: string;
+  reviews: TGoogleMapReview[];
+}
+
+type TReviewsSelectors = Record<TReviewsProfileElement, string[]>;
+
+// Scrolls without new reviews before the list counts as exhausted
+const MAX_IDLE_SCROLLS = 3;
+const REVIEWS_SCROLL_DELAY_MS = Number(process.env.REVIEWS_SCROLL_DELAY_MS) || 1000;
+const REVIEWS_PANEL_TIMEOUT_MS = 10000;
+
+const RELATIVE_DATE_UNITS: Record<TRelativeDateUnit, (date: Date, amount: number) => void> = {
+  minute: (date, amount) => date.setUTCMinutes(date.getUTCMinutes() - amount),
+  hour: (date, amount) => date.setUTCHours(date.getUTCHours() - amount),
+  day: (date, amount) => date.setUTCDate(date.getUTCDate() - amount),
+  week: (date, amount) => date.setUTCDate(date.getUTCDate() - amount * 7),
+  month: (date, amount) => date.setUTCMonth(date.getUTCMonth() - amount),
+  year: (date, amount) => date.setUTCFullYear(date.getUTCFullYear() - amount)
+};
+
+/**
+ * Turns the relative dates Maps shows, like "a week ago" or "Edited 2 years ago" in English, into a YYYY-MM-DD date.
+ * Anything that does not read as a relative date in the locale's language gives null.
+ */
+export const parseRelativeReviewDate = (relativeDate: string, now: Date = new Date(), locale: TMapsLocale = {}): string | null => {
+  const labels = getGmapsLabels(locale);
+  const normalised = relativeDate.normalize('NFC').trim().toLowerCase().replace(/\s+/g, ' ');
+  const date = new Date(now);
+
+  if (labels.today.includes(normalised)) return date.toISOString().slice(0, 10);
+  if (labels.yesterday.includes(normalised)) {
+    RELATIVE_DATE_UNITS.day(date, 1);
+    return date.toISOString().slice(0, 10);
+  }
+
+  const match = normalised.match(labels.relativeDate);
+  const unit = match?.groups && labels.relativeDateUnits[match.groups.unit];
+  if (!match?.groups || !unit) return null;
+
+  // Words like "a", "una" or "einer" all mean one
+  RELATIVE_DATE_UNITS[unit](date, /^\d+$/.test(match.groups.amount) ? Number(match.groups.amount) : 1);
+  return date.toISOString().slice(0, 10);
+};
+
+// The first selector of the chain that matches on the page, invalid ones are skipped
+const findFirst = async (page: Page, chain: string[]): Promise<ElementHandle | null> => {
+  for (const selector of chain) {
+    const element = await page.$(selector).catch(() => null);
+    if (element) return element;
+  }
+  return null;
+};
+
+const findAll = async (page: Page, chain: string[]): Promise<ElementHandle[]> => {
+  for (const selector of chain) {
+    const elements = await page.$$(selector).catch(() => []);
+    if (elements.length > 0) return elements;
+  }
+  return [];
+};
+
+const waitForAny = (page: Page, chain: string[], timeout: number) => page.waitForFunction((selectors: string[]) => selectors.some(selector => {
+  try {
+    return !!document.querySelector(selector);
+  } catch {
+    return false;
+  }
+}), { timeout }, chain);
+
+const sortReviews = async (page: Page, sort: TReviewSortOrder, selectors: TReviewsSelectors) => {
+  const sortButton = await findFirst(page, selectors.sortButton);
+  if (!sortButton) throw new ScrapeError('selector_missing', 'Reviews sort button not found');
+
+  const firstReview = await findFirst(page, selectors.review);
+
+  await sortButton.click();
+  await waitForAny(page, selectors.sortMenuItem, REVIEWS_PANEL_TIMEOUT_MS);
+
+  const menuItems = await findAll(page, selectors.sortMenuItem);
+  const menuItem = menuItems[REVIEW_SORT_ORDERS.indexOf(sort)];
+  if (!menuItem) throw new ScrapeError('selector_missing', `Reviews sort option "${sort}" not found`);
+  await menuItem.click();
+
+  // The list is replaced once the new order has loaded, a first review that stays put is fine when the orders agree
+  await page.waitForFunction(
+      (review: Element | null) => !review?.isConnected,
+      { timeout: REVIEWS_PANEL_TIMEOUT_MS },
+      firstReview
+  ).catch(() => undefined);
+};
+
+/**
+ * Builds a scraping function that reads a place's reviews from its Maps page.
+ * It opens the reviews tab, applies the sort order and scrolls the list until the limit or the end of the reviews.
+ * Each review is then read with the active extraction profile, which records the selector behind every value.
+ * A place without a reviews tab has no reviews yet and gives an empty list.
+ */
+export const createGmapsReviewsExtractor = (options: TReviewScrapeOptions, locale: TMapsLocale = {}): TScrapingFunction<TPlaceReviews> => async (url, page) => {
+  const labels = getGmapsLabels(locale);
+  const profile = await getActiveExtractionProfile();
+  const selectors = resolveReviewsSelectors(profile, labels);
+
+  await gmapsSetupRequestInterception(page);
+  await measureDuration(pageLoadDurationSeconds, 'reviews', () => gotoLocalizedMapsPage(page, url, locale));
+
+  const gmapsUrl = removeLocaleParams(page.url());
+
+  // Every place page has this panel, a page without it is a consent wall, a half rendered page or another language
+  if (!await findFirst(page, selectors.placePanel)) {
+    throw new ScrapeError('selector_missing', `Place information panel not found for ${url} with extraction profile ${profile.version}`);
+  }
+
+  const reviewsTab = await findFirst(page, selectors.reviewsTab);
+  if (!reviewsTab) return { gmapsUrl, reviews: [] };
+
+  await reviewsTab.click();
+  const hasReviews = await waitForAny(page, selectors.review, REVIEWS_PANEL_TIMEOUT_MS).then(() => true, () => false);
+  if (!hasReviews) return { gmapsUrl, reviews: [] };
+
+  if (options.sort !== 'most_relevant') await sortReviews(page, options.sort, selectors);
+
+  // Only the markup of each review is taken from the page, the profile's field rules read it outside the browser
+  const reviewsHtml = await page.evaluate(async (limit: number, scrollDelayMs: number, maxIdleScrolls: number, selectors: TReviewsSelectors) => {
+    const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+    const queryAll = (root: ParentNode, chain: string[]) => {
+      for (const selector of chain) {
+        try {
+          const elements = Array.from(root.querySelectorAll(selector));
+          if (elements.length > 0) return elements;
+        } catch {
+          // Try the next selector
+        }
+      }
+      return [];
+    };
+    const getReviewElements = () => queryAll(document, selectors.review);
+
+    // The reviews live in the closest scrollable ancestor of the first review
+    let scrollContainer = getReviewElements()[0]?.parentElement ?? null;
+    while (scrollContainer && scrollContainer.scrollHeight <= scrollContainer.clientHeight) {
+      scrollContainer = scrollContainer.parentElement;
+    }
+
+    let idleScrolls = 0;
+    while (scrollContainer && getReviewElements().length < limit && idleScrolls < maxIdleScrolls) {
+      const countBefore = getReviewElements().length;
+      scrollContainer.scrollBy(0, scrollContainer.scrollHeight);
+      await sleep(scrollDelayMs);
+      idleScrolls = getReviewElements().length > countBefore ? 0 : idleScrolls + 1;
+    }
+
+    // Long reviews are cut off behind a "More" button
+    const reviewElements = getReviewElements().slice(0, limit);
+    reviewElements.forEach(element => queryAll(element, selectors.moreButton).forEach(button => (button as HTMLElement).click()));
+    await sleep(100);
+
+    return reviewElements.map(element => element.outerHTML);
+  }, options.limit, REVIEWS_SCROLL_DELAY_MS, MAX_IDLE_SCROLLS, selectors);
+
+  await page.close();
+
+  const scrapedAt = new Date();
+  const reviews = await measureDuration(extractionDurationSeconds, 'reviews', async () => reviewsHtml.flatMap((html): TGoogleMapReview[] => {
+    const { values, selectors: fieldSelectors, missing } = extractReviewFields(JSDOM.fragment(html), profile, labels);
+    // Without an id a review cannot be stored, it is left out like the markup it came from
+    if (missing.length > 0 || !values.reviewId) return [];
+
+    const relativeDate = values.relativeDate ?? '';
+    const hasOwnerResponse = values.ownerResponseText !== undefined || values.ownerResponseDate !== undefined;
+
+    return [{
+      reviewId: values.reviewId,
+      reviewerName: values.reviewerName ?? 'N/A',
+      rating: values.rating ? Number(values.rating.replace(',', '.')) : null,
+      relativeDate,
+      date: parseRelativeReviewDate(relativeDate, scrapedAt, locale),
+      text: values.text ?? '',
+      ownerResponse: hasOwnerResponse ? {
+        text: values.ownerResponseText ?? '',
+        relativeDate: values.ownerResponseDate ?? '',
+        date: parseRelativeReviewDate(values.ownerResponseDate ?? '', scrapedAt, locale)
+      } : null,
+      extraction: { profileVersion: profile.version, selectors: fieldSelectors }
+    }];
+  }));
+
+  return { gmapsUrl, reviews };
+};
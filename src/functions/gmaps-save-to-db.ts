@@ -1,41 +1,134 @@
-// @ts-nocheck
-import { Db, Collection } from 'mongodb';
-import {TGoogleMapItem, TGoogleMapLeadInfo} from "./gmap-details-lead-extractor";
+import { Db, Collection, AnyBulkWriteOperation, Filter } from 'mongodb';
+import {TGoogleMapLeadInfo} from "./gmap-details-lead-extractor";
+import {extractGooglePlaceId, parseLeadRating, parseLeadReviewCount} from "../utils/helpers";
+import {leadFilter} from "../utils/lead-filter-router";
+import {recordLeadSnapshots, TLeadRunOutcome} from "./lead-history";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger('gmaps-save-to-db');
+
+export const LEADS_COLLECTION = 'leads';
+
+export type TStoredLead = TGoogleMapLeadInfo & {
+  placeId: string;
+  // Numeric copies of overAllRating and numberOfReviews so they can be filtered and sorted on
+  rating: number | null;
+  reviewCount: number | null;
+  // Routing decision at the time of the last save, used by outreach queues to pull their leads
+  scenario: string;
+  targetSystem: string;
+  country: string;
+  state: string;
+  city: string;
+  // Slugs of every search query this place was found for
+  queries: string[];
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+}
+
+type TFormattedLead = TGoogleMapLeadInfo & Pick<TStoredLead, 'placeId' | 'rating' | 'reviewCount' | 'scenario' | 'targetSystem'>;
+
+type TKnownLead = Pick<TStoredLead, 'placeId' | 'emails' | 'socialProfiles'>;
+
+const hasCid = (cid: string | undefined): cid is string => !!cid && cid !== 'N/A';
+
+// Places API leads without a googleMapsUri, like those fetched with the ids field mask, have no Maps url to read it from
+export const getLeadPlaceId = (lead: TGoogleMapLeadInfo): string | null =>
+    extractGooglePlaceId(lead.gmapsUrl)
+    ?? (lead.googlePlaceId && lead.googlePlaceId !== 'N/A' ? lead.googlePlaceId : null)
+    ?? (hasCid(lead.cid) ? `cid:${lead.cid}` : null);
 
 // Helper function to convert scraped data to your DB format
-const formatLeadsForDB = (scrapeData: TGoogleMapItem[]): TGoogleMapLeadInfo[] => {
+const formatLeadsForDB = (scrapeData: TGoogleMapLeadInfo[], knownLeads: Map<string, TKnownLead>): TFormattedLead[] => {
   if (!Array.isArray(scrapeData)) return [];
 
-  return scrapeData.filter(lead => !lead || lead.leadInfo === null).map(item => {
+  return scrapeData.reduce<TFormattedLead[]>((formattedLeads, lead) => {
+    const extractedPlaceId = lead ? getLeadPlaceId(lead) : null;
 
-    const lead = item.leadInfo!;
-    return {
+    // Without a stable identifier the lead cannot be deduplicated, so it is not stored
+    if (!extractedPlaceId) return formattedLeads;
+
+    // A place stored before keeps its placeId even when this source identifies it differently
+    const known = knownLeads.get(extractedPlaceId) ?? knownLeads.get(lead.cid);
+    const placeId = known?.placeId ?? extractedPlaceId;
+
+    // A run without website enrichment keeps the emails and profiles found by an earlier run
+    const emails = lead.emails ?? known?.emails;
+    const socialProfiles = lead.socialProfiles ?? known?.socialProfiles;
+
+    const routing = leadFilter({
+      leadInfo: { phoneNumber: lead.phoneNumber, website: lead.website, email: emails, socialProfiles }
+    });
+
+    formattedLeads.push({
+      placeId,
       name: lead.name,
       phoneNumber: lead.phoneNumber,
       website: lead.website,
       gmapsUrl: lead.gmapsUrl,
       overAllRating: lead.overAllRating,
-      numberOfReviews: lead.numberOfReviews
-    };
-  });
+      numberOfReviews: lead.numberOfReviews,
+      address: lead.address,
+      category: lead.category,
+      plusCode: lead.plusCode,
+      priceLevel: lead.priceLevel,
+      latitude: lead.latitude,
+      longitude: lead.longitude,
+      googlePlaceId: lead.googlePlaceId,
+      cid: lead.cid,
+      businessStatus: lead.businessStatus,
+      ...(lead.source && { source: lead.source }),
+      ...(lead.extraction && { extraction: lead.extraction }),
+      rating: parseLeadRating(lead.overAllRating),
+      reviewCount: parseLeadReviewCount(lead.numberOfReviews),
+      scenario: routing.scenario,
+      targetSystem: routing.system,
+      ...(emails && { emails }),
+      ...(socialProfiles && { socialProfiles })
+    });
+    return formattedLeads;
+  }, []);
 };
 
 // Helper function to create query slug
-const createQuerySlug = (query: string): string => {
+export const createQuerySlug = (query: string): string => {
   return query.toLowerCase().replace(/[^a-z0-9\s]/g, '').replace(/\s+/g, '-').trim();
 };
 
-const formatTimestamp = (): string => {
-  const date = new Date();
-  const months = ['January', 'February', 'March', 'April', 'May', 'June',
-                  'July', 'August', 'September', 'October', 'November', 'December'];
-  const day = date.getDate();
-  const suffix = day === 1 || day === 21 || day === 31 ? 'st' :
-    day === 2 || day === 22 ? 'nd' :
-      day === 3 || day === 23 ? 'rd' : 'th';
-  return `${day}${suffix} ${months[date.getMonth()]} ${date.getFullYear()}`;
+export const getLeadsCollection = async (db: Db): Promise<Collection<TStoredLead>> => {
+  const collection = db.collection<TStoredLead>(LEADS_COLLECTION);
+  await collection.createIndex({ placeId: 1 }, { unique: true });
+  await collection.createIndex({ cid: 1 });
+  await collection.createIndex({ country: 1, state: 1, city: 1 });
+  await collection.createIndex({ queries: 1 });
+  await collection.createIndex({ targetSystem: 1, scenario: 1 });
+  await collection.createIndex({ category: 1, businessStatus: 1 });
+  await collection.createIndex({ lastSeenAt: -1, _id: -1 });
+  return collection;
+};
+
+// Keyed by both placeId and cid, a place found through the Places API has no feature id to match on
+const findKnownLeads = async (collection: Collection<TStoredLead>, scrapeData: TGoogleMapLeadInfo[]): Promise<Map<string, TKnownLead>> => {
+  const placeIds = scrapeData
+      .map(lead => lead ? getLeadPlaceId(lead) : null)
+      .filter((placeId): placeId is string => !!placeId);
+  const cids = scrapeData.map(lead => lead?.cid).filter(hasCid);
+
+  const storedLeads = await collection
+      .find({ $or: [{ placeId: { $in: placeIds } }, { cid: { $in: cids } }] }, { projection: { placeId: 1, cid: 1, emails: 1, socialProfiles: 1 } })
+      .toArray();
+
+  return new Map(storedLeads.flatMap(storedLead => [
+    [storedLead.placeId, storedLead] as const,
+    ...(hasCid(storedLead.cid) ? [[storedLead.cid, storedLead] as const] : [])
+  ]));
 };
 
+// Browser and Places API leads of the same place carry different placeIds but the same cid,
+// so the placeId of whichever source stored the place first is kept
+export const buildLeadUpsertFilter = (placeId: string, cid: string | undefined): Filter<TStoredLead> =>
+    hasCid(cid) ? { $or: [{ placeId }, { cid }] } : { placeId };
+
 // Main function to upsert scraping results to DB
 const upsertScrapingResults = async (
   db: Db,
@@ -43,107 +136,46 @@ const upsertScrapingResults = async (
   state: string,
   city: string,
   query: string,
-  scrapeData: any[]
-): Promise<void> => {
+  scrapeData: TGoogleMapLeadInfo[],
+  // Snapshots of the saved values are recorded under this run for change detection
+  runId: string,
+  runOutcome: TLeadRunOutcome
+): Promise<number> => {
   try {
-    const collection: Collection = db.collection(country.toLowerCase());
-    const formattedLeads = formatLeadsForDB(scrapeData);
+    const collection = await getLeadsCollection(db);
+    const knownLeads = await findKnownLeads(collection, scrapeData);
+    const formattedLeads = formatLeadsForDB(scrapeData, knownLeads);
     const querySlug = createQuerySlug(query);
 
-    if (formattedLeads.length === 0) return;
-
-    await collection.createIndex({ state: 1 });
-
-    // Check if state document exists
-    const existingStateDoc = await collection.findOne({ state });
-
-    if (!existingStateDoc) {
-      const newStateDoc = {
-        state,
-        cities: [{
-          city_name: city,
-          queries: [{
-            search_query: query,
-            query_slug: querySlug,
-            leads: formattedLeads
-          }]
-        }],
-        timestamp: formatTimestamp()
-      };
-
-      await collection.insertOne(newStateDoc);
-      console.log(`✅ Created state ${state} with city ${city}`);
-      return;
-    }
-
-    // State exists, check if city exists
-    const cityIndex = existingStateDoc.cities.findIndex((c: any) => c.city_name === city);
-
-    if (cityIndex === -1) {
-      await collection.updateOne(
-          { state },
-          {
-            // @ts-ignore
-            $push: {
-            cities: {
-              city_name: city,
-              queries: [{
-                search_query: query,
-                query_slug: querySlug,
-                leads: formattedLeads
-              }]
-            }
-          },
-          $set: { timestamp: formatTimestamp() }
-        }
-      );
-      console.log(`✅ Added city ${city} to state ${state}`);
-      return;
-    }
-
-    // City exists, check if query exists
-    const existingCity = existingStateDoc.cities[cityIndex];
-    const queryIndex = existingCity.queries.findIndex((q: any) => q.query_slug === querySlug);
-
-    if (queryIndex === -1) {
-      await collection.updateOne(
-          { state, "cities.city_name": city },
-          {
-            // @ts-ignore
-            $push: {
-            "cities.$.queries": {
-              search_query: query,
-              query_slug: querySlug,
-              leads: formattedLeads
-            }
-          },
-          $set: { timestamp: formatTimestamp() }
-        }
-      );
-      console.log(`✅ Added query "${query}" to ${city}, ${state}`);
-    } else {
-      await collection.updateOne(
-        { state, "cities.city_name": city, "cities.queries.query_slug": querySlug },
-        {
-          //@ts-ignore
-          $push: { "cities.$[city].queries.$[query].leads": { $each: formattedLeads } },
-          $set: { timestamp: formatTimestamp() }
+    if (formattedLeads.length === 0) return 0;
+
+    const now = new Date();
+    const operations: AnyBulkWriteOperation<TStoredLead>[] = formattedLeads.map(({ placeId, ...lead }) => ({
+      updateOne: {
+        filter: buildLeadUpsertFilter(placeId, lead.cid),
+        update: {
+          $set: { ...lead, country, state, city, lastSeenAt: now },
+          $addToSet: { queries: querySlug },
+          $setOnInsert: { placeId, firstSeenAt: now }
         },
-        {
-          arrayFilters: [
-            { "city.city_name": city },
-            { "query.query_slug": querySlug }
-          ]
-        }
-      );
-      console.log(`✅ Appended leads to existing query "${query}" in ${city}, ${state}`);
-    }
+        upsert: true
+      }
+    }));
+
+    const { upsertedCount, modifiedCount } = await collection.bulkWrite(operations, { ordered: false });
+    logger.info('Saved leads', { query, city, state, upsertedCount, modifiedCount });
+
+    // The leads themselves are saved, a missing snapshot only leaves a gap in their history
+    await recordLeadSnapshots(db, runId, { country, state, city, querySlug }, formattedLeads, runOutcome)
+        .catch(snapshotError => logger.error('Failed to record lead history', { city, state, error: snapshotError }));
+
+    return formattedLeads.length;
 
   } catch (error) {
-    console.error(`❌ Database upsert failed for ${city}, ${state}:`, error);
+    logger.error('Database upsert failed', { city, state, error });
     throw error;
   }
 };
 
 // Export the upsert function to use in your main scraping file
-export { upsertScrapingResults };
\ No newline at end of file
+export { upsertScrapingResults };
@@ -0,0 +1,417 @@
+import {randomUUID} from "crypto";
+import {BrowserBatchHandler, EachPageResult} from "./common/browser-batch-handler";
+import {TScrapeErrorRecord} from "./common/scrape-errors";
+import {createLinksScraper} from "./scrape-links";
+import {createGmapsDetailsLeadInfoExtractor, TGoogleMapLeadInfo, TLeadSource} from "./gmap-details-lead-extractor";
+import {extractWebsiteContacts, TWebsiteContacts} from "./website-contact-extractor";
+import {getPlaceDetailsUrl, searchPlacesForTargets, TPlacesSearchOptions} from "./places-api-search";
+import {hasMissingLeadFields, mergeLeadInfo} from "./lead-merge";
+import {createGmapsReviewsExtractor, TPlaceReviews, TReviewScrapeOptions} from "./gmaps-reviews-extractor";
+import {upsertScrapingResults} from "./gmaps-save-to-db";
+import {TLeadRunOutcome} from "./lead-history";
+import {saveLeadReviews, TScrapedLeadReviews} from "./lead-reviews";
+import {getDatabase, isDatabaseConfigured} from "./mongo-db";
+import {createTiledSearchPages, shouldSubdivideTile, subdivideTile, TMapSearchPage, TTilingOptions} from "./gmaps-tiling";
+import {extractGooglePlaceId, TGoogleMapsUrls} from "../utils/helpers";
+import {TEmitScrapeEvent} from "../utils/scrape-events";
+import {TMapsLocale} from "../utils/gmaps-locales";
+import {createLogger} from "../utils/logger";
+
+const logger = createLogger('gmaps-scrape-pipeline');
+
+export type TGmapsScrapePhase = 1 | 2 | 3 | 4;
+
+export type TGmapsScrapePipelineOptions = {
+  // Where listings and their details come from, defaults to the browser
+  source?: TLeadSource;
+  // Text Search settings for the places_api and hybrid sources
+  places?: Pick<TPlacesSearchOptions, 'fieldMask' | 'locationMode'>;
+  // Phase 3: visit each lead's website for emails and social profiles
+  enrichWebsites?: boolean;
+  // Stops the run, leads extracted before the signal fired are still saved and returned
+  signal?: AbortSignal;
+  // Identifies this run in the lead history, defaults to a new id
+  runId?: string;
+  // Browser source only: search a grid of map tiles per city instead of the city as a whole
+  tiling?: TTilingOptions;
+  // Phase 4: collect each lead's reviews from its Maps page
+  reviews?: TReviewScrapeOptions;
+  // Language and region every Maps page and Places API search is requested in, English by default
+  locale?: TMapsLocale;
+}
+
+// What a scrape consumed, metered against the API key that started it
+export type TScrapeUsage = {
+  // Every browser page visit in any phase, failed ones included
+  urlsScraped: number;
+  leadsExtracted: number;
+  placesApiCalls: number;
+}
+
+export type TGmapsScrapePipelineHooks = {
+  // Called again for phase 1 with the grown total whenever tiling adds search pages
+  onPhaseStart?: (phase: TGmapsScrapePhase, total: number) => void | Promise<void>;
+  onLinksPageResult?: (url: string, result: EachPageResult<string[]>) => void | Promise<void>;
+  onLeadPageResult?: (url: string, result: EachPageResult<TGoogleMapLeadInfo>) => void | Promise<void>;
+  onWebsitePageResult?: (url: string, result: EachPageResult<TWebsiteContacts>) => void | Promise<void>;
+  onReviewsPageResult?: (url: string, result: EachPageResult<TPlaceReviews>) => void | Promise<void>;
+  onUsage?: (usage: Partial<TScrapeUsage>) => void | Promise<void>;
+}
+
+export type TGmapsScrapePipelineResult = {
+  founded: string[];
+  allLeads: TGoogleMapLeadInfo[];
+  savedLeadsCount: number;
+  savedReviewsCount: number;
+  errors: TScrapeErrorRecord[];
+  cancelled: boolean;
+}
+
+type TScrapedLead = {
+  target: TGoogleMapsUrls;
+  lead: TGoogleMapLeadInfo;
+}
+
+type TListingSearchResult = {
+  founded: string[];
+  // The first search a listing was found in decides which city and query it is stored under
+  targetsByListing: Map<string, TGoogleMapsUrls>;
+  // Leads the Places API already returned, empty for browser searches
+  apiLeadsByListing: Map<string, TGoogleMapLeadInfo>;
+  errors: TScrapeErrorRecord[];
+  cancelled: boolean;
+}
+
+const isHttpUrl = (url: string) => /^https?:\/\//i.test(url);
+
+// Urls given up on because of a cancellation were never visited
+const meterPageVisit = async (hooks: TGmapsScrapePipelineHooks, result: EachPageResult<unknown>) => {
+  if (result.error?.type !== 'cancelled') await hooks.onUsage?.({ urlsScraped: 1 });
+};
+
+// Saves leads grouped by the search they came from, a failed save never fails the scrape itself
+const saveScrapedLeads = async (scrapedLeads: TScrapedLead[], runId: string, runOutcome: TLeadRunOutcome): Promise<number> => {
+  if (scrapedLeads.length === 0) return 0;
+
+  if (!isDatabaseConfigured()) {
+    logger.warn('MONGODB_URI is not set, skipping save of leads', { leadsCount: scrapedLeads.length });
+    return 0;
+  }
+
+  const leadsByTarget = new Map<TGoogleMapsUrls, TGoogleMapLeadInfo[]>();
+  scrapedLeads.forEach(({ target, lead }) => {
+    leadsByTarget.set(target, [...(leadsByTarget.get(target) ?? []), lead]);
+  });
+
+  let savedLeadsCount = 0;
+
+  try {
+    const { db } = await getDatabase();
+
+    for (const [target, leads] of leadsByTarget) {
+      try {
+        savedLeadsCount += await upsertScrapingResults(db, target.country, target.state, target.city, target.query, leads, runId, runOutcome);
+      } catch (dbError) {
+        logger.error('Database save failed', { city: target.city, state: target.state, error: dbError });
+      }
+    }
+  } catch (connectionError) {
+    logger.error("Could not connect to database to save leads", { error: connectionError });
+  }
+
+  return savedLeadsCount;
+};
+
+const saveScrapedReviews = async (scrapedReviews: TScrapedLeadReviews[]): Promise<number> => {
+  if (scrapedReviews.length === 0 || !isDatabaseConfigured()) return 0;
+
+  try {
+    const { db } = await getDatabase();
+    return await saveLeadReviews(db, scrapedReviews);
+  } catch (dbError) {
+    logger.error("Database save failed for lead reviews", { error: dbError });
+    return 0;
+  }
+};
+
+// Phase 1 for the browser source: collect listing links from the Maps search pages,
+// searching tiles again in quarters while they hit the result cap
+const findListingsInBrowser = async (
+    searchTargets: TGoogleMapsUrls[],
+    emit: TEmitScrapeEvent | null,
+    hooks: TGmapsScrapePipelineHooks,
+    options: TGmapsScrapePipelineOptions
+): Promise<TListingSearchResult> => {
+  const { tiling, signal, locale } = options;
+  // Keyed by place so a place listed in several tiles or cities is only visited once in phase 2
+  const listingsByPlace = new Map<string, string>();
+  const targetsByListing = new Map<string, TGoogleMapsUrls>();
+  const errors: TScrapeErrorRecord[] = [];
+
+  let pages: TMapSearchPage[] = tiling
+      ? await createTiledSearchPages(searchTargets, tiling, locale, () => hooks.onUsage?.({ placesApiCalls: 1 }))
+      : searchTargets.map(target => ({ url: target.url, target }));
+  let totalPages = pages.length;
+  const linksScraper = createLinksScraper(locale);
+
+  if (tiling) await hooks.onPhaseStart?.(1, totalPages);
+
+  while (pages.length > 0) {
+    const pagesByUrl = new Map(pages.map(page => [page.url, page]));
+    const cappedPages: TMapSearchPage[] = [];
+
+    const searchResults = await BrowserBatchHandler([...pagesByUrl.keys()], linksScraper, emit, {
+      phase: 'search',
+      signal,
+      onPageResult: async (url, result) => {
+        const page = pagesByUrl.get(url);
+        result.data?.forEach(listingUrl => {
+          const placeKey = extractGooglePlaceId(listingUrl) ?? listingUrl;
+          if (!page || listingsByPlace.has(placeKey)) return;
+
+          listingsByPlace.set(placeKey, listingUrl);
+          targetsByListing.set(listingUrl, page.target);
+        });
+
+        if (page && tiling && shouldSubdivideTile(page, result.data?.length ?? 0, tiling.maxDepth)) cappedPages.push(page);
+
+        await meterPageVisit(hooks, result);
+        await hooks.onLinksPageResult?.(url, result);
+      }
+    });
+    errors.push(...searchResults.errors);
+
+    if (searchResults.cancelled) {
+      return { founded: [...listingsByPlace.values()], targetsByListing, apiLeadsByListing: new Map(), errors, cancelled: true };
+    }
+
+    pages = cappedPages.flatMap(page => subdivideTile(page, locale));
+
+    if (pages.length > 0) {
+      totalPages += pages.length;
+      emit?.({
+        type: 'status',
+        message: `${cappedPages.length} tiles hit the result cap, searching them again as ${pages.length} smaller tiles`,
+        data: { stage: 'phase_1_subdivide', phase: 1, total: totalPages }
+      });
+      await hooks.onPhaseStart?.(1, totalPages);
+    }
+  }
+
+  return {
+    founded: [...listingsByPlace.values()],
+    targetsByListing,
+    apiLeadsByListing: new Map(),
+    errors,
+    cancelled: false
+  };
+};
+
+// Phase 1 for the places_api and hybrid sources: one Text Search per city, listings are the places' own Maps pages
+const findListingsWithPlacesApi = async (
+    searchTargets: TGoogleMapsUrls[],
+    emit: TEmitScrapeEvent | null,
+    hooks: TGmapsScrapePipelineHooks,
+    options: TGmapsScrapePipelineOptions
+): Promise<TListingSearchResult> => {
+  const targetsByListing = new Map<string, TGoogleMapsUrls>();
+  const apiLeadsByListing = new Map<string, TGoogleMapLeadInfo>();
+  const errors: TScrapeErrorRecord[] = [];
+  let completed = 0;
+
+  await searchPlacesForTargets(searchTargets, {
+    fieldMask: options.places?.fieldMask ?? 'enterprise',
+    locationMode: options.places?.locationMode ?? 'restriction',
+    locale: options.locale,
+    signal: options.signal,
+    onRequest: () => hooks.onUsage?.({ placesApiCalls: 1 })
+  }, async ({ target, leads, error }) => {
+    completed++;
+    const progress = { current: completed, total: searchTargets.length, percentage: Math.round((completed / searchTargets.length) * 100) };
+
+    if (error) {
+      // The client already retried whatever was worth retrying
+      const failure: TScrapeErrorRecord = { url: target.url, type: 'api_error', attempts: 1, message: error };
+      errors.push(failure);
+      emit?.({ type: 'error', message: `Places API search failed for ${target.city}, ${target.state}`, data: { ...progress, failure } });
+      await hooks.onLinksPageResult?.(target.url, { success: false, error: failure, attempts: 1 });
+      return;
+    }
+
+    const listingUrls = leads.filter(lead => lead.googlePlaceId !== 'N/A').map(lead => {
+      const listingUrl = getPlaceDetailsUrl(lead.googlePlaceId);
+      if (!targetsByListing.has(listingUrl)) {
+        targetsByListing.set(listingUrl, target);
+        apiLeadsByListing.set(listingUrl, lead);
+      }
+      return listingUrl;
+    });
+
+    emit?.({ type: 'progress', message: `Found ${leads.length} places in ${target.city}, ${target.state}`, data: progress });
+    await hooks.onLinksPageResult?.(target.url, { success: true, data: listingUrls, attempts: 1 });
+  });
+
+  return {
+    founded: [...targetsByListing.keys()],
+    targetsByListing,
+    apiLeadsByListing,
+    errors,
+    cancelled: !!options.signal?.aborted
+  };
+};
+
+/**
+ * Runs the Google Maps scrape:
+ * Phase 1 finds business listings, phase 2 gets the lead details of each listing,
+ * the optional phase 3 crawls lead websites for emails and social profiles,
+ * and the optional phase 4 collects each lead's reviews.
+ * The source option decides how the first two phases work:
+ * browser scrapes the search and listing pages, places_api takes both from Text Search,
+ * and hybrid searches through the API and only opens the Maps pages of places the API left fields empty for.
+ * Extracted leads are saved against the city and query they were found for.
+ * Shared by the streaming route and background jobs, which only differ in how they observe progress.
+ */
+export const runGmapsScrapePipeline = async (
+    searchTargets: TGoogleMapsUrls[],
+    emit: TEmitScrapeEvent | null = null,
+    hooks: TGmapsScrapePipelineHooks = {},
+    options: TGmapsScrapePipelineOptions = {}
+): Promise<TGmapsScrapePipelineResult> => {
+  const source = options.source ?? 'browser';
+  const scrapedLeads: TScrapedLead[] = [];
+  const allLeadsResults: TGoogleMapLeadInfo[] = [];
+
+  // Phase 1: Find business listings
+  await hooks.onPhaseStart?.(1, searchTargets.length);
+
+  const listings = source === 'browser'
+      ? await findListingsInBrowser(searchTargets, emit, hooks, options)
+      : await findListingsWithPlacesApi(searchTargets, emit, hooks, options);
+  const { founded, targetsByListing, apiLeadsByListing } = listings;
+  const errors = [...listings.errors];
+
+  if (founded.length === 0 || listings.cancelled) {
+    return { founded, allLeads: [], savedLeadsCount: 0, savedReviewsCount: 0, errors, cancelled: listings.cancelled };
+  }
+
+  // Places whose details page gave nothing, a diff against this run would report them as gone
+  let missedListingsCount = 0;
+
+  const reportLead = async (url: string, lead: TGoogleMapLeadInfo, attempts: number) => {
+    const target = targetsByListing.get(url);
+    if (target) scrapedLeads.push({ target, lead });
+    allLeadsResults.push(lead);
+    await hooks.onUsage?.({ leadsExtracted: 1 });
+    await hooks.onLeadPageResult?.(url, { success: true, data: lead, attempts });
+  };
+
+  // Phase 2: Get detailed business information
+  await hooks.onPhaseStart?.(2, founded.length);
+
+  const browserListings = source === 'browser' ? founded
+      : source === 'hybrid' ? founded.filter(url => hasMissingLeadFields(apiLeadsByListing.get(url)!))
+          : [];
+  const browserListingSet = new Set(browserListings);
+
+  // The API already answered with everything these leads need
+  for (const url of founded.filter(url => !browserListingSet.has(url))) {
+    await reportLead(url, { ...apiLeadsByListing.get(url)!, source: 'places_api' }, 1);
+  }
+
+  if (browserListings.length > 0) {
+    const allLeads = await BrowserBatchHandler(browserListings, createGmapsDetailsLeadInfoExtractor(options.locale), emit, {
+      phase: 'details',
+      signal: options.signal,
+      onPageResult: async (url, result) => {
+        const apiLead = apiLeadsByListing.get(url);
+        await meterPageVisit(hooks, result);
+
+        if (result.success && result.data) {
+          const lead = apiLead ? { ...mergeLeadInfo(apiLead, result.data), source: 'hybrid' as const } : { ...result.data, source: 'browser' as const };
+          await reportLead(url, lead, result.attempts);
+          return;
+        }
+
+        // A hybrid lead whose Maps page failed is still worth keeping with what the API knew
+        if (apiLead && result.error?.type !== 'cancelled') {
+          await reportLead(url, { ...apiLead, source: 'places_api' }, result.attempts);
+          return;
+        }
+
+        missedListingsCount++;
+        await hooks.onLeadPageResult?.(url, result);
+      }
+    });
+    errors.push(...allLeads.errors);
+  }
+
+  // Later phases only add to the leads, so whether the run reached every place is settled here
+  const missedPagesCount = listings.errors.length + missedListingsCount;
+  const runOutcome: TLeadRunOutcome = { complete: missedPagesCount === 0 && !options.signal?.aborted, missedPagesCount };
+
+  // Phase 3: Crawl lead websites for emails and social profiles
+  if (options.enrichWebsites && !options.signal?.aborted) {
+    const websites = [...new Set(allLeadsResults.map(lead => lead.website).filter(isHttpUrl))];
+
+    if (websites.length > 0) {
+      await hooks.onPhaseStart?.(3, websites.length);
+
+      const websiteContacts = await BrowserBatchHandler(websites, extractWebsiteContacts, emit, {
+        phase: 'website',
+        signal: options.signal,
+        onPageResult: async (url, result) => {
+          await meterPageVisit(hooks, result);
+          await hooks.onWebsitePageResult?.(url, result);
+        }
+      });
+      const contactsByWebsite = new Map(websiteContacts.results.map(contacts => [contacts.website, contacts]));
+
+      // Leads are shared by reference with scrapedLeads, so enrichment reaches the saved copies too
+      allLeadsResults.forEach(lead => {
+        const contacts = contactsByWebsite.get(lead.website);
+        if (!contacts) return;
+
+        lead.emails = contacts.emails;
+        lead.socialProfiles = contacts.socialProfiles;
+      });
+      errors.push(...websiteContacts.errors);
+    }
+  }
+
+  // Phase 4: Collect reviews from each lead's Maps page
+  const scrapedReviews: TScrapedLeadReviews[] = [];
+
+  if (options.reviews && !options.signal?.aborted) {
+    const leadsByPlaceUrl = new Map(allLeadsResults.filter(lead => isHttpUrl(lead.gmapsUrl)).map(lead => [lead.gmapsUrl, lead]));
+
+    if (leadsByPlaceUrl.size > 0) {
+      await hooks.onPhaseStart?.(4, leadsByPlaceUrl.size);
+
+      const placeReviews = await BrowserBatchHandler([...leadsByPlaceUrl.keys()], createGmapsReviewsExtractor(options.reviews, options.locale), emit, {
+        phase: 'reviews',
+        signal: options.signal,
+        onPageResult: async (url, result) => {
+          const lead = leadsByPlaceUrl.get(url);
+          if (lead && result.data) scrapedReviews.push({ lead, reviews: result.data.reviews });
+
+          await meterPageVisit(hooks, result);
+          await hooks.onReviewsPageResult?.(url, result);
+        }
+      });
+      errors.push(...placeReviews.errors);
+    }
+  }
+
+  // Reviews are stored against saved leads, so they are saved after them
+  const savedLeadsCount = await saveScrapedLeads(scrapedLeads, options.runId ?? randomUUID(), runOutcome);
+  const savedReviewsCount = await saveScrapedReviews(scrapedReviews);
+
+  return {
+    founded,
+    allLeads: allLeadsResults,
+    savedLeadsCount,
+    savedReviewsCount,
+    errors,
+    cancelled: !!options.signal?.aborted
+  };
+};
@@ -0,0 +1,142 @@
+import {config} from "dotenv";
+import {TGoogleMapsUrls} from "../utils/helpers";
+import {GOOGLE_MAPS_BASE_URL} from "../utils/constants";
+import {localizeMapsUrl, TMapsLocale} from "../utils/gmaps-locales";
+import {resolveCityViewport, TLatLng, TViewport} from "./places-api-search";
+import {createLogger} from "../utils/logger";
+
+config();
+
+const logger = createLogger('gmaps-tiling');
+
+// Google Maps ends a result list at roughly 120 places and often a little earlier, a tile that gets close was most likely cut off
+export const TILE_RESULT_CAP = Number(process.env.GMAPS_TILE_RESULT_CAP) || 100;
+
+// Width of the map next to the results panel in a maximised window, the tile zoom is picked so the whole tile fits in it
+const MAP_WIDTH_PX = 1000;
+const METERS_PER_PIXEL_AT_ZOOM_0 = 156543.03;
+const MIN_TILE_ZOOM = 10;
+const MAX_TILE_ZOOM = 18;
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+export type TTilingOptions = {
+  // Area to tile instead of the city's viewport, which needs the Places API to look up
+  center?: TLatLng;
+  radiusKm?: number;
+  // Each area is first split into gridSize x gridSize tiles
+  gridSize: number;
+  // How many times a tile that hit the result cap may be split again into four
+  maxDepth: number;
+}
+
+export type TMapTile = {
+  bounds: TViewport;
+  depth: number;
+}
+
+// One Maps search page of phase 1, either a city's own search or one tile of it
+export type TMapSearchPage = {
+  url: string;
+  // The city and query the listings found on this page are saved under
+  target: TGoogleMapsUrls;
+  tile?: TMapTile;
+}
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+export const getBoundsAroundCenter = ({ latitude, longitude }: TLatLng, radiusKm: number): TViewport => {
+  const latitudeDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+  const longitudeDelta = radiusKm / (KM_PER_DEGREE_LATITUDE * Math.cos(toRadians(latitude)));
+
+  return {
+    low: { latitude: latitude - latitudeDelta, longitude: longitude - longitudeDelta },
+    high: { latitude: latitude + latitudeDelta, longitude: longitude + longitudeDelta }
+  };
+};
+
+// Row by row from the south west corner
+export const splitBounds = ({ low, high }: TViewport, gridSize: number): TViewport[] => {
+  const latitudeStep = (high.latitude - low.latitude) / gridSize;
+  const longitudeStep = (high.longitude - low.longitude) / gridSize;
+
+  return Array.from({ length: gridSize * gridSize }, (_, index) => {
+    const row = Math.floor(index / gridSize);
+    const column = index % gridSize;
+
+    return {
+      low: { latitude: low.latitude + row * latitudeStep, longitude: low.longitude + column * longitudeStep },
+      high: { latitude: low.latitude + (row + 1) * latitudeStep, longitude: low.longitude + (column + 1) * longitudeStep }
+    };
+  });
+};
+
+export const getBoundsCenter = ({ low, high }: TViewport): TLatLng => ({
+  latitude: (low.latitude + high.latitude) / 2,
+  longitude: (low.longitude + high.longitude) / 2
+});
+
+// The closest zoom level at which the longer side of the tile still fits into the map
+export const getTileZoom = (bounds: TViewport): number => {
+  const { latitude } = getBoundsCenter(bounds);
+  const heightMeters = (bounds.high.latitude - bounds.low.latitude) * KM_PER_DEGREE_LATITUDE * 1000;
+  const widthMeters = (bounds.high.longitude - bounds.low.longitude) * KM_PER_DEGREE_LATITUDE * 1000 * Math.cos(toRadians(latitude));
+  const metersPerPixel = Math.max(heightMeters, widthMeters) / MAP_WIDTH_PX;
+
+  const zoom = Math.floor(Math.log2(METERS_PER_PIXEL_AT_ZOOM_0 * Math.cos(toRadians(latitude)) / metersPerPixel));
+  return Math.min(MAX_TILE_ZOOM, Math.max(MIN_TILE_ZOOM, zoom));
+};
+
+// A search for the query alone, centered on the tile, so Maps only lists places in that part of the map
+export const createTileSearchUrl = (query: string, bounds: TViewport, locale: TMapsLocale = {}) => {
+  const formattedQuery = encodeURIComponent(query.toLowerCase().trim().replace(/\s+/g, '+')).replace(/%2B/g, '+');
+  const { latitude, longitude } = getBoundsCenter(bounds);
+
+  return localizeMapsUrl(`${GOOGLE_MAPS_BASE_URL}${formattedQuery}/@${latitude.toFixed(6)},${longitude.toFixed(6)},${getTileZoom(bounds)}z`, locale);
+};
+
+const createTilePages = (target: TGoogleMapsUrls, bounds: TViewport, gridSize: number, depth: number, locale: TMapsLocale): TMapSearchPage[] =>
+    splitBounds(bounds, gridSize).map(tileBounds => ({
+      url: createTileSearchUrl(target.query, tileBounds, locale),
+      target,
+      tile: { bounds: tileBounds, depth }
+    }));
+
+// A full tile was cut off by the result cap, its four quarters are searched instead while depth allows
+export const shouldSubdivideTile = (page: TMapSearchPage, listingsFound: number, maxDepth: number) =>
+    !!page.tile && page.tile.depth < maxDepth && listingsFound >= TILE_RESULT_CAP;
+
+export const subdivideTile = (page: TMapSearchPage, locale: TMapsLocale = {}): TMapSearchPage[] =>
+    page.tile ? createTilePages(page.target, page.tile.bounds, 2, page.tile.depth + 1, locale) : [];
+
+/**
+ * Turns every city search into a grid of tile searches.
+ * Tiles cover the given center and radius, or else the city's viewport from the Places API.
+ * A city whose viewport cannot be looked up keeps its plain search.
+ */
+export const createTiledSearchPages = async (
+    searchTargets: TGoogleMapsUrls[],
+    tiling: TTilingOptions,
+    locale: TMapsLocale = {},
+    onPlacesRequest?: () => void | Promise<void>
+): Promise<TMapSearchPage[]> => {
+  const pages: TMapSearchPage[][] = [];
+
+  for (const target of searchTargets) {
+    const bounds = tiling.center && tiling.radiusKm
+        ? getBoundsAroundCenter(tiling.center, tiling.radiusKm)
+        : await resolveCityViewport(target, onPlacesRequest).catch(error => {
+          logger.warn('Could not look up the area of the city', { city: target.city, state: target.state, error });
+          return null;
+        });
+
+    if (!bounds) {
+      logger.warn('Searching the city without tiles', { city: target.city, state: target.state });
+      pages.push([{ url: target.url, target }]);
+      continue;
+    }
+
+    pages.push(createTilePages(target, bounds, tiling.gridSize, 0, locale));
+  }
+
+  return pages.flat();
+};
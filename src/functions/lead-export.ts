@@ -0,0 +1,216 @@
+import {Request, Response} from "express";
+import {TGoogleMapLeadInfo} from "./gmap-details-lead-extractor";
+import {TStoredLead} from "./gmaps-save-to-db";
+import {createLogger} from "../utils/logger";
+
+const logger = createLogger('lead-export');
+
+export const LEAD_EXPORT_FORMATS = ['csv', 'ndjson', 'vcard'] as const;
+
+export type TLeadExportFormat = typeof LEAD_EXPORT_FORMATS[number];
+
+// Stored leads carry their location, leads straight from a scrape do not
+export type TExportLead = TGoogleMapLeadInfo & Partial<Pick<TStoredLead, 'placeId' | 'country' | 'state' | 'city'>>;
+
+const EXPORT_CONTENT_TYPES: Record<TLeadExportFormat, string> = {
+  csv: 'text/csv',
+  ndjson: 'application/x-ndjson',
+  vcard: 'text/vcard'
+};
+
+const EXPORT_FILE_EXTENSIONS: Record<TLeadExportFormat, string> = {
+  csv: 'csv',
+  ndjson: 'ndjson',
+  vcard: 'vcf'
+};
+
+// Selector provenance only makes sense as nested data, ndjson exports keep it
+const CSV_COLUMNS: Exclude<keyof TExportLead, 'extraction'>[] = [
+  'placeId',
+  'name',
+  'phoneNumber',
+  'category',
+  'businessStatus',
+  'website',
+  'emails',
+  'socialProfiles',
+  'overAllRating',
+  'numberOfReviews',
+  'priceLevel',
+  'address',
+  'plusCode',
+  'latitude',
+  'longitude',
+  'gmapsUrl',
+  'googlePlaceId',
+  'cid',
+  'source',
+  'country',
+  'state',
+  'city'
+];
+
+const VCARD_MAX_LINE_BYTES = 75;
+
+const hasValue = (value: string | undefined): value is string => !!value && value !== 'N/A';
+
+/**
+ * Picks the export format from an explicit `format` parameter first, then the Accept header.
+ * Returns null when the client only accepts formats we cannot produce.
+ */
+export const resolveLeadExportFormat = (req: Request, format?: TLeadExportFormat): TLeadExportFormat | null => {
+  if (format) return format;
+
+  const accepted = req.accepts(Object.values(EXPORT_CONTENT_TYPES));
+  if (!accepted) return null;
+
+  return LEAD_EXPORT_FORMATS.find(exportFormat => EXPORT_CONTENT_TYPES[exportFormat] === accepted) ?? null;
+};
+
+// Spreadsheets run cells starting with these as formulas, phone numbers like +91 included
+const CSV_FORMULA_PREFIX_PATTERN = /^[=+\-@\t\r]/;
+
+// RFC 4180: quote fields containing separators, quotes or line breaks and double any quotes inside
+const escapeCsvValue = (value: string | number | string[] | null | undefined): string => {
+  if (value === undefined || value === null) return '';
+  // Numbers are never read as formulas, a negative coordinate stays a number
+  if (typeof value === 'number') return String(value);
+
+  // Multi-valued fields share one cell
+  const joined = Array.isArray(value) ? value.join('; ') : value;
+  // Scraped values come from third parties, a leading quote makes spreadsheets show them as text
+  const text = CSV_FORMULA_PREFIX_PATTERN.test(joined) ? `'${joined}` : joined;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvRow = (values: (string | number | string[] | null | undefined)[]) => values.map(escapeCsvValue).join(',') + '\r\n';
+
+// RFC 6350 section 3.4: backslash, comma, semicolon and newlines must be escaped in text values
+const escapeVCardText = (value: string) => value
+    .replace(/\\/g, '\\\\')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;')
+    .replace(/\r?\n/g, '\\n');
+
+// RFC 6350 section 3.2: lines longer than 75 octets are folded with CRLF followed by a single space
+const foldVCardLine = (line: string): string => {
+  const foldedLines: string[] = [];
+  let currentLine = '';
+  let currentBytes = 0;
+
+  for (const character of line) {
+    const characterBytes = Buffer.byteLength(character);
+    const limit = foldedLines.length === 0 ? VCARD_MAX_LINE_BYTES : VCARD_MAX_LINE_BYTES - 1;
+
+    if (currentBytes + characterBytes > limit) {
+      foldedLines.push(currentLine);
+      currentLine = '';
+      currentBytes = 0;
+    }
+
+    currentLine += character;
+    currentBytes += characterBytes;
+  }
+  foldedLines.push(currentLine);
+
+  return foldedLines.join('\r\n ');
+};
+
+const toVCard = (lead: TExportLead): string => {
+  const lines = [
+    'BEGIN:VCARD',
+    'VERSION:4.0',
+    `FN:${escapeVCardText(hasValue(lead.name) ? lead.name : 'Unknown business')}`,
+    'KIND:org'
+  ];
+
+  if (hasValue(lead.name)) lines.push(`ORG:${escapeVCardText(lead.name)}`);
+  if (lead.placeId) lines.push(`UID:urn:gmaps:${lead.placeId}`);
+  if (hasValue(lead.phoneNumber)) lines.push(`TEL;VALUE=uri;TYPE=work:tel:${lead.phoneNumber.replace(/[^\d+]/g, '')}`);
+  if (hasValue(lead.website)) lines.push(`URL;TYPE=work:${lead.website}`);
+  lead.emails?.forEach(email => lines.push(`EMAIL;TYPE=work:${email}`));
+  // SOCIALPROFILE comes from RFC 9554, older clients ignore it
+  lead.socialProfiles?.forEach(profile => lines.push(`SOCIALPROFILE:${profile}`));
+
+  if (hasValue(lead.address) || lead.city || lead.state || lead.country) {
+    // ADR components: PO box;extended;street;locality;region;postal code;country
+    const address = ['', '', '', lead.city ?? '', lead.state ?? '', '', lead.country ?? ''].map(escapeVCardText).join(';');
+    // The scraped address is one formatted string, it goes into LABEL instead of being split into components
+    const label = hasValue(lead.address) ? `;LABEL="${lead.address.replace(/"/g, "'").replace(/\r?\n/g, ', ')}"` : '';
+    lines.push(`ADR;TYPE=work${label}:${address}`);
+  }
+  if (lead.latitude != null && lead.longitude != null) lines.push(`GEO:geo:${lead.latitude},${lead.longitude}`);
+  if (hasValue(lead.category)) lines.push(`CATEGORIES:${escapeVCardText(lead.category)}`);
+
+  if (hasValue(lead.overAllRating)) {
+    const reviews = hasValue(lead.numberOfReviews) ? ` from ${lead.numberOfReviews} reviews` : '';
+    lines.push(`NOTE:${escapeVCardText(`Google Maps rating ${lead.overAllRating}${reviews}`)}`);
+  }
+  if (hasValue(lead.gmapsUrl)) lines.push(`X-GOOGLE-MAPS-URL:${lead.gmapsUrl}`);
+
+  lines.push('END:VCARD');
+
+  return lines.map(foldVCardLine).join('\r\n') + '\r\n';
+};
+
+// Resolves once the socket can take more data, or once it is gone so a dead client never hangs the export
+const waitForDrain = (res: Response) => new Promise<void>(resolve => {
+  const done = () => {
+    res.off('drain', done);
+    res.off('close', done);
+    resolve();
+  };
+  res.once('drain', done);
+  res.once('close', done);
+});
+
+const formatLead = (lead: TExportLead, format: TLeadExportFormat): string => {
+  switch (format) {
+    case 'csv':
+      return toCsvRow(CSV_COLUMNS.map(column => lead[column]));
+    case 'ndjson':
+      return JSON.stringify(lead) + '\n';
+    case 'vcard':
+      return toVCard(lead);
+  }
+};
+
+/**
+ * Streams leads to the response one record at a time, waiting for the socket to drain
+ * so exports of any size never have to be held in memory.
+ */
+export const streamLeadsExport = async (
+    res: Response,
+    leads: AsyncIterable<TExportLead>,
+    format: TLeadExportFormat,
+    fileName: string
+) => {
+  res.writeHead(200, {
+    'Content-Type': `${EXPORT_CONTENT_TYPES[format]}; charset=utf-8`,
+    'Content-Disposition': `attachment; filename="${fileName}.${EXPORT_FILE_EXTENSIONS[format]}"`,
+    'Cache-Control': 'no-cache'
+  });
+
+  if (format === 'csv') res.write(toCsvRow(CSV_COLUMNS));
+
+  let exportedCount = 0;
+
+  try {
+    for await (const lead of leads) {
+      // Client went away, stop reading from the source
+      if (res.destroyed) break;
+
+      if (!res.write(formatLead(lead, format))) {
+        await waitForDrain(res);
+      }
+      exportedCount++;
+    }
+  } catch (error) {
+    logger.error('Lead export failed', { exportedCount, error });
+    res.destroy(error instanceof Error ? error : new Error(String(error)));
+    return;
+  }
+
+  res.end();
+  logger.info('Exported leads', { exportedCount, format });
+};
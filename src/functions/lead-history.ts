@@ -0,0 +1,302 @@
+import {Collection, Db} from "mongodb";
+import {getDatabase} from "./mongo-db";
+import type {TStoredLead} from "./gmaps-save-to-db";
+
+const LEAD_RUNS_COLLECTION = 'lead_runs';
+const LEAD_SNAPSHOTS_COLLECTION = 'lead_snapshots';
+
+// The fields account managers follow between runs, everything else is left out of the history
+export const TRACKED_LEAD_FIELDS = [
+  'name',
+  'phoneNumber',
+  'website',
+  'address',
+  'category',
+  'businessStatus',
+  'rating',
+  'reviewCount'
+] as const;
+
+export type TTrackedLeadField = typeof TRACKED_LEAD_FIELDS[number];
+
+export type TLeadSnapshotValues = Pick<TStoredLead, TTrackedLeadField>;
+
+// One search (query in a city) that can be scraped again and again
+export type TLeadSeries = {
+  country: string;
+  state: string;
+  city: string;
+  // See createQuerySlug
+  querySlug: string;
+}
+
+// Whether a run reached every place its searches listed
+export type TLeadRunOutcome = {
+  // False when the run was cancelled, stopped by a quota or lost search or details pages
+  complete: boolean;
+  // Search and details pages that did not give their places, cancelled ones included
+  missedPagesCount: number;
+}
+
+// What one run saved for one series, leads it did not save count as gone in a diff
+export type TLeadRun = TLeadRunOutcome & {
+  runId: string;
+  seriesKey: string;
+  country: string;
+  state: string;
+  city: string;
+  querySlug: string;
+  capturedAt: Date;
+  leadsCount: number;
+}
+
+export type TLeadSnapshot = {
+  runId: string;
+  seriesKey: string;
+  placeId: string;
+  capturedAt: Date;
+  values: TLeadSnapshotValues;
+}
+
+export type TLeadFieldChange = {
+  placeId: string;
+  name: string;
+  field: TTrackedLeadField;
+  // added and removed mean the field went from empty to set and back, like a newly listed website
+  kind: 'added' | 'removed' | 'changed';
+  from: string | number | null;
+  to: string | number | null;
+  // Only for rating and reviewCount
+  delta?: number;
+}
+
+export type TLeadRunDiff = {
+  added: (TLeadSnapshotValues & { placeId: string })[];
+  removed: (TLeadSnapshotValues & { placeId: string })[];
+  closed: TLeadFieldChange[];
+  changes: TLeadFieldChange[];
+  summary: {
+    added: number;
+    removed: number;
+    closed: number;
+  } & Partial<Record<TTrackedLeadField, number>>;
+}
+
+export type TLeadRunSelector = {
+  runId?: string;
+  // The latest run at or before this date
+  at?: Date;
+}
+
+export class LeadRunNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LeadRunNotFoundError';
+  }
+}
+
+// Case and spacing differences in the request must not start a new series
+export const getLeadSeriesKey = ({ country, state, city, querySlug }: TLeadSeries) =>
+    [country, state, city].map(value => value.trim().toLowerCase()).concat(querySlug).join('|');
+
+// Runs recorded before completeness was tracked count as complete
+export const isCompleteLeadRun = (run: Pick<TLeadRun, 'complete'>) => run.complete !== false;
+
+const getLeadRunsCollection = async (db: Db): Promise<Collection<TLeadRun>> => {
+  const collection = db.collection<TLeadRun>(LEAD_RUNS_COLLECTION);
+  await collection.createIndex({ seriesKey: 1, capturedAt: -1 });
+  await collection.createIndex({ runId: 1, seriesKey: 1 }, { unique: true });
+  return collection;
+};
+
+const getLeadSnapshotsCollection = async (db: Db): Promise<Collection<TLeadSnapshot>> => {
+  const collection = db.collection<TLeadSnapshot>(LEAD_SNAPSHOTS_COLLECTION);
+  await collection.createIndex({ runId: 1, seriesKey: 1 });
+  await collection.createIndex({ placeId: 1, capturedAt: 1 });
+  return collection;
+};
+
+/**
+ * Records the tracked values of every lead a run saved for a series, along with whether the run was complete.
+ * Called once per series and run, a second call for the same pair adds to it.
+ */
+export const recordLeadSnapshots = async (
+    db: Db,
+    runId: string,
+    series: TLeadSeries,
+    leads: (TLeadSnapshotValues & { placeId: string })[],
+    outcome: TLeadRunOutcome
+) => {
+  if (leads.length === 0) return;
+
+  const runs = await getLeadRunsCollection(db);
+  const snapshots = await getLeadSnapshotsCollection(db);
+  const seriesKey = getLeadSeriesKey(series);
+  const capturedAt = new Date();
+
+  await snapshots.insertMany(leads.map(lead => ({
+    runId,
+    seriesKey,
+    placeId: lead.placeId,
+    capturedAt,
+    values: Object.fromEntries(TRACKED_LEAD_FIELDS.map(field => [field, lead[field]])) as TLeadSnapshotValues
+  })));
+
+  await runs.updateOne(
+      { runId, seriesKey },
+      {
+        $inc: { leadsCount: leads.length },
+        $set: { complete: outcome.complete, missedPagesCount: outcome.missedPagesCount },
+        $setOnInsert: {
+          country: series.country,
+          state: series.state,
+          city: series.city,
+          querySlug: series.querySlug,
+          capturedAt
+        }
+      },
+      { upsert: true }
+  );
+};
+
+const isMissingValue = (value: unknown) => value === undefined || value === null || value === 'N/A' || value === '';
+
+const compareValues = (placeId: string, name: string, field: TTrackedLeadField, from: unknown, to: unknown): TLeadFieldChange | null => {
+  const fromMissing = isMissingValue(from);
+  const toMissing = isMissingValue(to);
+
+  if (fromMissing && toMissing) return null;
+  if (!fromMissing && !toMissing && from === to) return null;
+
+  const change: TLeadFieldChange = {
+    placeId,
+    name,
+    field,
+    kind: fromMissing ? 'added' : toMissing ? 'removed' : 'changed',
+    from: fromMissing ? null : from as string | number,
+    to: toMissing ? null : to as string | number
+  };
+
+  if (typeof from === 'number' && typeof to === 'number') change.delta = Math.round((to - from) * 100) / 100;
+  return change;
+};
+
+// Field changes between two values of the same lead, in TRACKED_LEAD_FIELDS order
+export const diffLeadValues = (placeId: string, from: TLeadSnapshotValues, to: TLeadSnapshotValues): TLeadFieldChange[] =>
+    TRACKED_LEAD_FIELDS
+        .map(field => compareValues(placeId, to.name, field, from[field], to[field]))
+        .filter((change): change is TLeadFieldChange => change !== null);
+
+/**
+ * Compares what two runs saved for the same series.
+ * Places only in the later run are added, places only in the earlier one are removed,
+ * and places that stopped operating are listed as closed on top of their businessStatus change.
+ */
+export const diffLeadSnapshots = (fromSnapshots: TLeadSnapshot[], toSnapshots: TLeadSnapshot[]): TLeadRunDiff => {
+  const fromByPlace = new Map(fromSnapshots.map(snapshot => [snapshot.placeId, snapshot.values]));
+  const toByPlace = new Map(toSnapshots.map(snapshot => [snapshot.placeId, snapshot.values]));
+
+  const added = [...toByPlace].filter(([placeId]) => !fromByPlace.has(placeId)).map(([placeId, values]) => ({ placeId, ...values }));
+  const removed = [...fromByPlace].filter(([placeId]) => !toByPlace.has(placeId)).map(([placeId, values]) => ({ placeId, ...values }));
+
+  const changes = [...toByPlace].flatMap(([placeId, values]) => {
+    const previous = fromByPlace.get(placeId);
+    return previous ? diffLeadValues(placeId, previous, values) : [];
+  });
+  const closed = changes.filter(change => change.field === 'businessStatus' && change.from === 'OPERATIONAL' && change.to !== 'OPERATIONAL');
+
+  const summary: TLeadRunDiff['summary'] = { added: added.length, removed: removed.length, closed: closed.length };
+  changes.forEach(change => {
+    summary[change.field] = (summary[change.field] ?? 0) + 1;
+  });
+
+  return { added, removed, closed, changes, summary };
+};
+
+export const listLeadRuns = async (series: TLeadSeries, limit: number): Promise<TLeadRun[]> => {
+  const { db } = await getDatabase();
+  const runs = await getLeadRunsCollection(db);
+  return runs
+      .find({ seriesKey: getLeadSeriesKey(series) }, { projection: { _id: 0 } })
+      .sort({ capturedAt: -1 })
+      .limit(limit)
+      .toArray();
+};
+
+// Run lookups only need findOne, tests hand in runs kept in memory
+type TLeadRunLookup = Pick<Collection<TLeadRun>, 'findOne'>;
+
+// Only a run picked by its id can be incomplete, picking by date skips runs that missed places
+const findLeadRun = async (runs: TLeadRunLookup, seriesKey: string, selector: TLeadRunSelector): Promise<TLeadRun | null> => {
+  if (selector.runId) return runs.findOne({ seriesKey, runId: selector.runId }, { projection: { _id: 0 } });
+
+  return runs.findOne(
+      { seriesKey, complete: { $ne: false }, ...(selector.at && { capturedAt: { $lte: selector.at } }) },
+      { projection: { _id: 0 }, sort: { capturedAt: -1 } }
+  );
+};
+
+/**
+ * Picks the two runs getLeadRunDiff compares, each by run id or by date.
+ * Without a selector the later run is the latest complete one, without a from selector
+ * the earlier run is the latest complete one captured before the later run, which may be an incomplete run picked by id.
+ */
+export const findLeadRunPair = async (runs: TLeadRunLookup, seriesKey: string, fromSelector: TLeadRunSelector, toSelector: TLeadRunSelector) => {
+  const toRun = await findLeadRun(runs, seriesKey, toSelector);
+  if (!toRun) throw new LeadRunNotFoundError('No run found for the later side of the comparison');
+
+  const hasFromSelector = !!fromSelector.runId || !!fromSelector.at;
+  const fromRun = hasFromSelector
+      ? await findLeadRun(runs, seriesKey, fromSelector)
+      : await runs.findOne(
+          { seriesKey, complete: { $ne: false }, capturedAt: { $lt: toRun.capturedAt } },
+          { projection: { _id: 0 }, sort: { capturedAt: -1 } }
+      );
+  if (!fromRun) throw new LeadRunNotFoundError('No run found for the earlier side of the comparison');
+
+  return { fromRun, toRun };
+};
+
+/**
+ * Diffs two runs of a series, picked as findLeadRunPair describes.
+ * When an incomplete run is picked by id the diff is flagged, its added and removed places include places a run never reached.
+ */
+export const getLeadRunDiff = async (series: TLeadSeries, fromSelector: TLeadRunSelector, toSelector: TLeadRunSelector) => {
+  const { db } = await getDatabase();
+  const runs = await getLeadRunsCollection(db);
+  const snapshots = await getLeadSnapshotsCollection(db);
+  const seriesKey = getLeadSeriesKey(series);
+
+  const { fromRun, toRun } = await findLeadRunPair(runs, seriesKey, fromSelector, toSelector);
+
+  const [fromSnapshots, toSnapshots] = await Promise.all([
+    snapshots.find({ runId: fromRun.runId, seriesKey }).toArray(),
+    snapshots.find({ runId: toRun.runId, seriesKey }).toArray()
+  ]);
+
+  return {
+    from: fromRun,
+    to: toRun,
+    incomplete: !isCompleteLeadRun(fromRun) || !isCompleteLeadRun(toRun),
+    ...diffLeadSnapshots(fromSnapshots, toSnapshots)
+  };
+};
+
+/**
+ * Every recorded value of one lead, oldest first, with what changed since the snapshot before.
+ * A lead found by several queries is snapshotted once per query and run, repeated values show no changes.
+ */
+export const getLeadHistory = async (placeId: string, limit: number) => {
+  const { db } = await getDatabase();
+  const snapshots = await getLeadSnapshotsCollection(db);
+  const history = await snapshots
+      .find({ placeId }, { projection: { _id: 0 } })
+      .sort({ capturedAt: -1 })
+      .limit(limit)
+      .toArray();
+
+  return history.reverse().map((snapshot, index, ordered) => ({
+    ...snapshot,
+    changes: index === 0 ? [] : diffLeadValues(placeId, ordered[index - 1].values, snapshot.values)
+  }));
+};
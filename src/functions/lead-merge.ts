@@ -0,0 +1,28 @@
+import {TGoogleMapLeadInfo} from "./gmap-details-lead-extractor";
+
+// The fields worth a Maps page visit in a hybrid scrape when the Places API came back without them
+const HYBRID_FILLABLE_FIELDS: (keyof TGoogleMapLeadInfo)[] = ['name', 'phoneNumber', 'website', 'address', 'category'];
+
+const isMissingValue = (value: unknown) => value === undefined || value === null || value === 'N/A';
+
+export const hasMissingLeadFields = (lead: TGoogleMapLeadInfo) => HYBRID_FILLABLE_FIELDS.some(field => isMissingValue(lead[field]));
+
+/**
+ * Fills the gaps in a Places API lead with what the browser read from the same place's Maps page.
+ * API values win, except gmapsUrl: the page url carries the feature id that browser scraped leads are stored under.
+ * Selector provenance is kept only for the values that came from the page.
+ */
+export const mergeLeadInfo = (apiLead: TGoogleMapLeadInfo, browserLead: TGoogleMapLeadInfo): TGoogleMapLeadInfo => {
+  const apiValues = Object.fromEntries(Object.entries(apiLead).filter(([, value]) => !isMissingValue(value)));
+  const extraction = browserLead.extraction && {
+    ...browserLead.extraction,
+    selectors: Object.fromEntries(Object.entries(browserLead.extraction.selectors).filter(([field]) => !(field in apiValues)))
+  };
+
+  return {
+    ...browserLead,
+    ...apiValues,
+    gmapsUrl: isMissingValue(browserLead.gmapsUrl) ? apiLead.gmapsUrl : browserLead.gmapsUrl,
+    ...(extraction && { extraction })
+  };
+};
@@ -0,0 +1,116 @@
+import {Collection, AnyBulkWriteOperation, Db} from "mongodb";
+import {getDatabase} from "./mongo-db";
+import {getLeadsCollection} from "./gmaps-save-to-db";
+import {TGoogleMapLeadInfo} from "./gmap-details-lead-extractor";
+import {TGoogleMapReview} from "./gmaps-reviews-extractor";
+import {extractGooglePlaceId} from "../utils/helpers";
+import {createLogger} from "../utils/logger";
+
+const logger = createLogger('lead-reviews');
+
+const LEAD_REVIEWS_COLLECTION = 'lead_reviews';
+
+export type TStoredLeadReview = TGoogleMapReview & {
+  // The placeId of the lead the review belongs to
+  placeId: string;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+}
+
+export type TLeadReviewsQuery = {
+  offset: number;
+  limit: number;
+  // Only reviews rated at most this many stars, e.g. 2 for the complaints
+  maxRating?: number;
+  // Only reviews the owner has not answered
+  unanswered?: boolean;
+}
+
+export type TScrapedLeadReviews = {
+  lead: TGoogleMapLeadInfo;
+  reviews: TGoogleMapReview[];
+}
+
+const getLeadReviewsCollection = async (db: Db): Promise<Collection<TStoredLeadReview>> => {
+  const collection = db.collection<TStoredLeadReview>(LEAD_REVIEWS_COLLECTION);
+  await collection.createIndex({ placeId: 1, reviewId: 1 }, { unique: true });
+  await collection.createIndex({ placeId: 1, rating: 1 });
+  return collection;
+};
+
+/**
+ * Stores reviews under the placeId their lead was saved with, so the leads must be saved first.
+ * Reviews seen again are updated in place, an edited review or a new owner response replaces the old text.
+ * Reviews of leads that were not stored are dropped.
+ */
+export const saveLeadReviews = async (db: Db, scrapedReviews: TScrapedLeadReviews[]): Promise<number> => {
+  const withReviews = scrapedReviews.filter(({ reviews }) => reviews.length > 0);
+  if (withReviews.length === 0) return 0;
+
+  const leads = await getLeadsCollection(db);
+  const reviewsCollection = await getLeadReviewsCollection(db);
+
+  const scrapedLeads = withReviews.map(({ lead, reviews }) => ({
+    placeId: extractGooglePlaceId(lead.gmapsUrl),
+    cid: lead.cid && lead.cid !== 'N/A' ? lead.cid : null,
+    reviews
+  }));
+
+  // Leads found through the Places API are stored under the placeId of whichever source saved the place first
+  const storedLeads = await leads
+      .find({
+        $or: [
+          { placeId: { $in: scrapedLeads.map(({ placeId }) => placeId).filter((placeId): placeId is string => !!placeId) } },
+          { cid: { $in: scrapedLeads.map(({ cid }) => cid).filter((cid): cid is string => !!cid) } }
+        ]
+      }, { projection: { placeId: 1, cid: 1 } })
+      .toArray();
+
+  const now = new Date();
+  const operations: AnyBulkWriteOperation<TStoredLeadReview>[] = scrapedLeads.flatMap(({ placeId, cid, reviews }) => {
+    const storedLead = storedLeads.find(stored => stored.placeId === placeId || (!!cid && stored.cid === cid));
+    if (!storedLead) return [];
+
+    return reviews.map(review => ({
+      updateOne: {
+        filter: { placeId: storedLead.placeId, reviewId: review.reviewId },
+        update: {
+          $set: { ...review, lastSeenAt: now },
+          $setOnInsert: { firstSeenAt: now }
+        },
+        upsert: true
+      }
+    }));
+  });
+
+  if (operations.length === 0) return 0;
+
+  const { upsertedCount, modifiedCount } = await reviewsCollection.bulkWrite(operations, { ordered: false });
+  logger.info('Saved reviews', { upsertedCount, modifiedCount });
+
+  return operations.length;
+};
+
+// Lowest rated first, newest first within a rating
+export const getLeadReviews = async (placeId: string, query: TLeadReviewsQuery) => {
+  const { db } = await getDatabase();
+  const reviews = await getLeadReviewsCollection(db);
+
+  const filter = {
+    placeId,
+    ...(query.maxRating !== undefined && { rating: { $lte: query.maxRating } }),
+    ...(query.unanswered && { ownerResponse: null })
+  };
+
+  const [items, total] = await Promise.all([
+    reviews
+        .find(filter, { projection: { _id: 0 } })
+        .sort({ rating: 1, date: -1 })
+        .skip(query.offset)
+        .limit(query.limit)
+        .toArray(),
+    reviews.countDocuments(filter)
+  ]);
+
+  return { reviews: items, total };
+};
@@ -2,14 +2,26 @@
 // db.ts - Your MongoDB client setup with TypeScript
 import { MongoClient, ServerApiVersion, Db } from "mongodb";
 import dotenv from "dotenv";
+import { createLogger } from "../utils/logger";
 dotenv.config();
 
+const logger = createLogger('mongo-db');
+
 const uri = process.env.MONGODB_URI as string;
+export const DEFAULT_DB_NAME = process.env.MONGODB_DB_NAME || "aixellabs";
 
 // Connection pooling variables
 let client: MongoClient | null = null;
 let clientPromise: Promise<MongoClient> | null = null;
 
+/**
+ * Whether a MongoDB connection string has been configured
+ * @returns true when MONGODB_URI is set
+ */
+export function isDatabaseConfigured(): boolean {
+  return Boolean(uri);
+}
+
 /**
  * Connect to the MongoDB database
  * @returns Promise that resolves to the MongoDB client
@@ -32,7 +44,7 @@ export function connectToDatabase(): Promise<MongoClient> {
 
   // Handle connection errors
   clientPromise.catch(err => {
-    console.error("MongoDB connection error:", err);
+    logger.error("MongoDB connection error", { error: err });
     client = null;
     clientPromise = null;
   });
@@ -46,7 +58,7 @@ export function connectToDatabase(): Promise<MongoClient> {
  * @param dbName Name of the database
  * @returns Promise that resolves to the Db instance
  */
-export async function getDatabase(dbName: string): Promise<{ db: Db, mongoClient: MongoClient }> {
+export async function getDatabase(dbName: string = DEFAULT_DB_NAME): Promise<{ db: Db, mongoClient: MongoClient }> {
   const mongoClient = await connectToDatabase();
   const db = mongoClient.db(dbName)
   return { db , mongoClient };
@@ -0,0 +1,277 @@
+import {config} from "dotenv";
+import {TBusinessStatus, TGoogleMapLeadInfo} from "./gmap-details-lead-extractor";
+import {TGoogleMapsUrls} from "../utils/helpers";
+import {
+  GOOGLE_MAPS_TEXT_FIELD_MASK_PRESETS,
+  GOOGLE_MAPS_TEXTSEARCH_API_PATH,
+  GOOGLE_PLACES_API_BASE_URL
+} from "../utils/constants";
+import {TMapsLocale} from "../utils/gmaps-locales";
+import {placesApiRequestsTotal} from "./common/metrics";
+import {createLogger} from "../utils/logger";
+
+config();
+
+const logger = createLogger('places-api-search');
+
+const PLACES_API_BASE_URL = (process.env.GOOGLE_PLACES_API_BASE_URL || GOOGLE_PLACES_API_BASE_URL).replace(/\/+$/, '');
+const PLACES_API_MAX_RETRIES = Number(process.env.PLACES_API_MAX_RETRIES) || 3;
+const PLACES_API_RETRY_BASE_DELAY_MS = Number(process.env.PLACES_API_RETRY_BASE_DELAY_MS) || 1000;
+// Text Search returns at most 20 places per page and 3 pages per query
+const PLACES_API_MAX_PAGES = 3;
+
+export type TPlacesFieldMaskPreset = keyof typeof GOOGLE_MAPS_TEXT_FIELD_MASK_PRESETS;
+
+// bias prefers places in the city but may return nearby ones, restriction drops everything outside it
+export type TPlacesLocationMode = 'bias' | 'restriction';
+
+export type TPlacesSearchOptions = {
+  fieldMask: TPlacesFieldMaskPreset;
+  locationMode: TPlacesLocationMode;
+  // Language of names and categories and the region results are formatted for
+  locale?: TMapsLocale;
+  // Checked between cities, a search already sent to the API is allowed to finish
+  signal?: AbortSignal;
+  // Called for every request the API answered successfully, which is what Google bills for
+  onRequest?: () => void | Promise<void>;
+}
+
+export type TPlacesCitySearchResult = {
+  target: TGoogleMapsUrls;
+  leads: TGoogleMapLeadInfo[];
+  // Set when the city could not be searched, other cities are unaffected
+  error?: string;
+}
+
+export type TLatLng = {
+  latitude: number;
+  longitude: number;
+}
+
+export type TViewport = {
+  low: TLatLng;
+  high: TLatLng;
+}
+
+// The subset of the Places API (New) Place resource we request through the field mask presets
+type TPlace = {
+  id?: string;
+  displayName?: { text: string };
+  formattedAddress?: string;
+  location?: TLatLng;
+  viewport?: TViewport;
+  plusCode?: { globalCode?: string; compoundCode?: string };
+  primaryTypeDisplayName?: { text: string };
+  businessStatus?: TBusinessStatus;
+  googleMapsUri?: string;
+  nationalPhoneNumber?: string;
+  internationalPhoneNumber?: string;
+  websiteUri?: string;
+  rating?: number;
+  userRatingCount?: number;
+  priceLevel?: string;
+}
+
+type TTextSearchResponse = {
+  places?: TPlace[];
+  nextPageToken?: string;
+}
+
+export class PlacesApiError extends Error {
+  constructor(message: string, public readonly status: number, public readonly code?: string) {
+    super(message);
+    this.name = 'PlacesApiError';
+  }
+}
+
+// Same wording Google Maps shows next to the price, so both sources produce the same values
+const PRICE_LEVEL_LABELS: Record<string, string> = {
+  PRICE_LEVEL_FREE: 'Free',
+  PRICE_LEVEL_INEXPENSIVE: 'Inexpensive',
+  PRICE_LEVEL_MODERATE: 'Moderate',
+  PRICE_LEVEL_EXPENSIVE: 'Expensive',
+  PRICE_LEVEL_VERY_EXPENSIVE: 'Very Expensive'
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Rate limits and server errors are worth another try, bad requests and rejected keys are not
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+const getRetryDelayMs = (attempt: number, retryAfter: string | null) => {
+  const retryAfterSeconds = Number(retryAfter);
+  if (retryAfter && Number.isFinite(retryAfterSeconds)) return retryAfterSeconds * 1000;
+  return PLACES_API_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+};
+
+const searchText = async (body: Record<string, unknown>, fieldMask: string, onRequest?: () => void | Promise<void>): Promise<TTextSearchResponse> => {
+  const apiKey = process.env.GOOGLE_MAPS_PLACES_API_KEY;
+  if (!apiKey) throw new PlacesApiError('GOOGLE_MAPS_PLACES_API_KEY is not configured', 500, 'API_KEY_MISSING');
+
+  for (let attempt = 1; ; attempt++) {
+    let response: Response;
+
+    try {
+      response = await fetch(`${PLACES_API_BASE_URL}${GOOGLE_MAPS_TEXTSEARCH_API_PATH}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Goog-Api-Key': apiKey,
+          'X-Goog-FieldMask': fieldMask
+        },
+        body: JSON.stringify(body)
+      });
+    } catch (networkError) {
+      placesApiRequestsTotal.inc({ status: 'network_error' });
+      if (attempt > PLACES_API_MAX_RETRIES) {
+        throw new PlacesApiError(`Places API unreachable: ${networkError instanceof Error ? networkError.message : String(networkError)}`, 503);
+      }
+      await sleep(getRetryDelayMs(attempt, null));
+      continue;
+    }
+
+    placesApiRequestsTotal.inc({ status: String(response.status) });
+
+    if (response.ok) {
+      await onRequest?.();
+      return await response.json() as TTextSearchResponse;
+    }
+
+    const errorBody = await response.json().catch(() => null) as { error?: { message?: string; status?: string } } | null;
+    const code = errorBody?.error?.status;
+
+    if (isRetryableStatus(response.status) && attempt <= PLACES_API_MAX_RETRIES) {
+      const retryDelayMs = getRetryDelayMs(attempt, response.headers.get('retry-after'));
+      logger.warn('Places API request failed, retrying', { status: response.status, code, retryDelayMs });
+      await sleep(retryDelayMs);
+      continue;
+    }
+
+    const reason = code === 'RESOURCE_EXHAUSTED' ? 'Places API quota exceeded' : `Places API request failed with ${response.status}`;
+    throw new PlacesApiError(`${reason}: ${errorBody?.error?.message ?? response.statusText}`, response.status, code);
+  }
+};
+
+// Looks the city itself up so the business search can be limited to its viewport
+export const resolveCityViewport = async (target: TGoogleMapsUrls, onRequest?: () => void | Promise<void>): Promise<TViewport | null> => {
+  const { places } = await searchText({
+    textQuery: `${target.city}, ${target.state}, ${target.country}`,
+    includedType: 'locality',
+    pageSize: 1
+  }, 'places.viewport', onRequest);
+
+  return places?.[0]?.viewport ?? null;
+};
+
+// New Places API urls carry the numeric cid as a query parameter
+const parseCid = (googleMapsUri?: string) => {
+  if (!googleMapsUri) return 'N/A';
+  try {
+    return new URL(googleMapsUri).searchParams.get('cid') ?? 'N/A';
+  } catch {
+    return 'N/A';
+  }
+};
+
+// Opens the place's own Maps page, the browser detail extractor can read it like any scraped listing
+export const getPlaceDetailsUrl = (googlePlaceId: string) => `https://www.google.com/maps/place/?q=place_id:${googlePlaceId}`;
+
+/**
+ * Converts a Places API place into the lead shape the browser scraper produces,
+ * fields the chosen field mask did not request come out as N/A just like missing fields on a Maps page.
+ */
+export const mapPlaceToLead = (place: TPlace): TGoogleMapLeadInfo => ({
+  website: place.websiteUri ?? 'N/A',
+  phoneNumber: (place.nationalPhoneNumber ?? place.internationalPhoneNumber)?.replace(/\s/g, '') ?? 'N/A',
+  name: place.displayName?.text ?? 'N/A',
+  gmapsUrl: place.googleMapsUri ?? 'N/A',
+  overAllRating: place.rating !== undefined ? place.rating.toFixed(1) : 'N/A',
+  numberOfReviews: place.userRatingCount !== undefined ? place.userRatingCount.toLocaleString('en-US') : 'N/A',
+  address: place.formattedAddress ?? 'N/A',
+  category: place.primaryTypeDisplayName?.text ?? 'N/A',
+  plusCode: place.plusCode?.compoundCode ?? place.plusCode?.globalCode ?? 'N/A',
+  priceLevel: place.priceLevel ? PRICE_LEVEL_LABELS[place.priceLevel] ?? 'N/A' : 'N/A',
+  latitude: place.location?.latitude ?? null,
+  longitude: place.location?.longitude ?? null,
+  googlePlaceId: place.id ?? 'N/A',
+  cid: parseCid(place.googleMapsUri),
+  businessStatus: place.businessStatus ?? 'OPERATIONAL'
+});
+
+/**
+ * Runs the query as a Text Search limited to one city, following result pages up to the API's limit.
+ * Cities that cannot be resolved to a viewport are searched by name instead.
+ */
+export const searchPlacesInCity = async (target: TGoogleMapsUrls, options: TPlacesSearchOptions): Promise<TGoogleMapLeadInfo[]> => {
+  const viewport = await resolveCityViewport(target, options.onRequest);
+  const fieldMask = GOOGLE_MAPS_TEXT_FIELD_MASK_PRESETS[options.fieldMask];
+
+  const locationFilter = viewport
+      ? options.locationMode === 'restriction'
+          ? { locationRestriction: { rectangle: viewport } }
+          : { locationBias: { rectangle: viewport } }
+      : {};
+  const textQuery = viewport ? target.query : `${target.query} in ${target.city}, ${target.state}, ${target.country}`;
+  const localeFilter = {
+    ...(options.locale?.language && { languageCode: options.locale.language }),
+    ...(options.locale?.region && { regionCode: options.locale.region })
+  };
+
+  const places: TPlace[] = [];
+  let pageToken: string | undefined;
+
+  for (let page = 0; page < PLACES_API_MAX_PAGES; page++) {
+    const response = await searchText({ textQuery, pageSize: 20, ...locationFilter, ...localeFilter, ...(pageToken ? { pageToken } : {}) }, fieldMask, options.onRequest);
+
+    places.push(...(response.places ?? []));
+    pageToken = response.nextPageToken;
+    if (!pageToken) break;
+  }
+
+  return places.map(mapPlaceToLead);
+};
+
+// Every remaining city would hit the same wall, so these end the whole search
+const isFatalPlacesApiError = (error: unknown) => error instanceof PlacesApiError
+    && (error.status === 401 || error.status === 403 || error.code === 'RESOURCE_EXHAUSTED' || error.code === 'API_KEY_MISSING');
+
+/**
+ * Searches every city one after the other, a failing city is reported on its own result
+ * so one bad lookup never discards the others.
+ * Cities not searched yet when the signal fires are left out of the results.
+ */
+export const searchPlacesForTargets = async (
+    targets: TGoogleMapsUrls[],
+    options: TPlacesSearchOptions,
+    onCityResult?: (result: TPlacesCitySearchResult) => void | Promise<void>
+): Promise<TPlacesCitySearchResult[]> => {
+  const results: TPlacesCitySearchResult[] = [];
+  let fatalError: string | null = null;
+
+  for (const target of targets) {
+    if (options.signal?.aborted) break;
+
+    let result: TPlacesCitySearchResult;
+
+    if (fatalError) {
+      result = { target, leads: [], error: fatalError };
+    } else {
+      try {
+        const leads = await searchPlacesInCity(target, options);
+        logger.info('Places API search finished', { query: target.query, city: target.city, state: target.state, placesCount: leads.length });
+        result = { target, leads };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.error('Places API search failed', { city: target.city, state: target.state, error: errorMessage });
+        result = { target, leads: [], error: errorMessage };
+
+        if (isFatalPlacesApiError(error)) fatalError = errorMessage;
+      }
+    }
+
+    results.push(result);
+    await onCityResult?.(result);
+  }
+
+  return results;
+};
@@ -0,0 +1,39 @@
+import {isOwnedByApiKey, TApiKey} from "./api-keys";
+import {createLogger} from "../utils/logger";
+
+const logger = createLogger('scrape-cancellation');
+
+type TActiveScrape = {
+  controller: AbortController;
+  // Key that started the scrape, only that key may cancel it
+  ownerKeyId?: string;
+}
+
+// Scrapes running in this process by id, streaming scrapes and background jobs share one id space
+const activeScrapes = new Map<string, TActiveScrape>();
+
+export const registerScrape = (scrapeId: string, ownerKeyId?: string): AbortController => {
+  const controller = new AbortController();
+  activeScrapes.set(scrapeId, { controller, ownerKeyId });
+  return controller;
+};
+
+export const unregisterScrape = (scrapeId: string) => {
+  activeScrapes.delete(scrapeId);
+};
+
+/**
+ * Aborts a running scrape, returns false when no scrape with this id that belongs to apiKey is running here.
+ * The scrape itself reports its partial results once its open pages have closed.
+ */
+export const cancelScrape = (scrapeId: string, apiKey?: TApiKey): boolean => {
+  const scrape = activeScrapes.get(scrapeId);
+  if (!scrape || !isOwnedByApiKey(scrape.ownerKeyId, apiKey)) return false;
+
+  const { controller } = scrape;
+  if (!controller.signal.aborted) {
+    logger.info('Cancelling scrape', { scrapeId });
+    controller.abort();
+  }
+  return true;
+};
@@ -0,0 +1,243 @@
+import {randomUUID} from "crypto";
+import {Collection, MatchKeysAndValues} from "mongodb";
+import {getDatabase} from "./mongo-db";
+import {runGmapsScrapePipeline, TGmapsScrapePhase} from "./gmaps-scrape-pipeline";
+import {TGoogleMapLeadInfo} from "./gmap-details-lead-extractor";
+import {TScrapeErrorRecord} from "./common/scrape-errors";
+import {registerScrape, unregisterScrape} from "./scrape-cancellation";
+import {ApiKeyQuotaError, createApiKeyUsageMeter, TApiKey} from "./api-keys";
+import {GmapsScrape} from "../apis/GMAPS_SCRAPE";
+import {TGoogleMapsUrls} from "../utils/helpers";
+import {createLogger, withLogContext} from "../utils/logger";
+
+const logger = createLogger('scrape-jobs');
+
+const JOBS_COLLECTION = "scrape_jobs";
+const JOB_RESULTS_COLLECTION = "scrape_job_results";
+
+export type TScrapeJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type TScrapeJobPhaseProgress = {
+  total: number;
+  succeeded: number;
+  failed: number;
+}
+
+export type TScrapeJob = {
+  _id: string;
+  status: TScrapeJobStatus;
+  request: GmapsScrape;
+  // Key the job's usage is metered against, unset when API key authentication is disabled
+  apiKeyId?: string;
+  searchTargets: TGoogleMapsUrls[];
+  phase: TGmapsScrapePhase | null;
+  progress: {
+    phase1: TScrapeJobPhaseProgress;
+    phase2: TScrapeJobPhaseProgress;
+    phase3: TScrapeJobPhaseProgress;
+    phase4: TScrapeJobPhaseProgress;
+  };
+  foundedLeadsCount: number;
+  allLeadsCount: number;
+  savedLeadsCount: number;
+  savedReviewsCount: number;
+  errors: TScrapeErrorRecord[];
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+export type TScrapeJobResult = {
+  jobId: string;
+  lead: TGoogleMapLeadInfo;
+  createdAt: Date;
+}
+
+const getJobsCollection = async (): Promise<Collection<TScrapeJob>> => {
+  const { db } = await getDatabase();
+  return db.collection<TScrapeJob>(JOBS_COLLECTION);
+};
+
+const getJobResultsCollection = async (): Promise<Collection<TScrapeJobResult>> => {
+  const { db } = await getDatabase();
+  const collection = db.collection<TScrapeJobResult>(JOB_RESULTS_COLLECTION);
+  await collection.createIndex({ jobId: 1, createdAt: 1 });
+  return collection;
+};
+
+const updateJob = async (jobId: string, update: MatchKeysAndValues<TScrapeJob>) => {
+  const jobs = await getJobsCollection();
+  await jobs.updateOne({ _id: jobId }, { $set: { ...update, updatedAt: new Date() } });
+};
+
+const incrementJobProgress = async (jobId: string, phase: TGmapsScrapePhase, success: boolean, extra: Record<string, number> = {}) => {
+  const jobs = await getJobsCollection();
+  const counter = `progress.phase${phase}.${success ? 'succeeded' : 'failed'}`;
+  await jobs.updateOne(
+      { _id: jobId },
+      {
+        $inc: { [counter]: 1, ...extra },
+        $set: { updatedAt: new Date() }
+      }
+  );
+};
+
+const runScrapeJob = async (jobId: string, request: GmapsScrape, searchTargets: TGoogleMapsUrls[], apiKey?: TApiKey) => {
+  const controller = registerScrape(jobId, apiKey?._id);
+
+  try {
+    await updateJob(jobId, { status: 'running', startedAt: new Date() });
+
+    const results = await getJobResultsCollection();
+
+    const pipelineResult = await runGmapsScrapePipeline(searchTargets, null, {
+      onPhaseStart: async (phase, total) => {
+        await updateJob(jobId, { phase, [`progress.phase${phase}.total`]: total });
+      },
+      onLinksPageResult: async (_, result) => {
+        await incrementJobProgress(jobId, 1, result.success, { foundedLeadsCount: result.data?.length ?? 0 });
+      },
+      onLeadPageResult: async (_, result) => {
+        if (result.success && result.data) {
+          await results.insertOne({ jobId, lead: result.data, createdAt: new Date() });
+        }
+        await incrementJobProgress(jobId, 2, result.success, { allLeadsCount: result.success ? 1 : 0 });
+      },
+      onWebsitePageResult: async (_, result) => {
+        if (result.success && result.data) {
+          await results.updateMany(
+              { jobId, 'lead.website': result.data.website },
+              { $set: { 'lead.emails': result.data.emails, 'lead.socialProfiles': result.data.socialProfiles } }
+          );
+        }
+        await incrementJobProgress(jobId, 3, result.success);
+      },
+      onReviewsPageResult: async (_, result) => {
+        await incrementJobProgress(jobId, 4, result.success);
+      },
+      onUsage: apiKey && createApiKeyUsageMeter(apiKey, controller)
+    }, {
+      source: request.source,
+      places: { fieldMask: request.fieldMask, locationMode: request.locationMode },
+      enrichWebsites: request.enrichWebsites,
+      signal: controller.signal,
+      runId: jobId,
+      tiling: request.tiling,
+      reviews: request.reviews,
+      locale: { language: request.language, region: request.region }
+    });
+
+    await updateJob(jobId, {
+      status: pipelineResult.cancelled ? 'cancelled' : 'completed',
+      foundedLeadsCount: pipelineResult.founded.length,
+      allLeadsCount: pipelineResult.allLeads.length,
+      savedLeadsCount: pipelineResult.savedLeadsCount,
+      savedReviewsCount: pipelineResult.savedReviewsCount,
+      errors: pipelineResult.errors,
+      ...(controller.signal.reason instanceof ApiKeyQuotaError && { error: controller.signal.reason.message }),
+      finishedAt: new Date()
+    });
+    logger.info(pipelineResult.cancelled ? 'Scrape job cancelled' : 'Scrape job completed', { leadsCount: pipelineResult.allLeads.length });
+
+  } catch (error) {
+    logger.error('Scrape job failed', { error });
+    await updateJob(jobId, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      finishedAt: new Date()
+    }).catch(updateError => logger.error('Could not mark scrape job as failed', { error: updateError }));
+  } finally {
+    unregisterScrape(jobId);
+  }
+};
+
+// Runs a created job to its end, every line it logs carries the job's id
+export const executeScrapeJob = (jobId: string, request: GmapsScrape, searchTargets: TGoogleMapsUrls[], apiKey?: TApiKey) =>
+    withLogContext({ jobId }, () => runScrapeJob(jobId, request, searchTargets, apiKey));
+
+// Persists a queued job, executeScrapeJob runs it
+export const createScrapeJob = async (request: GmapsScrape, searchTargets: TGoogleMapsUrls[], apiKey?: TApiKey): Promise<TScrapeJob> => {
+  const now = new Date();
+  const job: TScrapeJob = {
+    _id: randomUUID(),
+    status: 'queued',
+    request,
+    ...(apiKey && { apiKeyId: apiKey._id }),
+    searchTargets,
+    phase: null,
+    progress: {
+      phase1: { total: searchTargets.length, succeeded: 0, failed: 0 },
+      phase2: { total: 0, succeeded: 0, failed: 0 },
+      phase3: { total: 0, succeeded: 0, failed: 0 },
+      phase4: { total: 0, succeeded: 0, failed: 0 }
+    },
+    foundedLeadsCount: 0,
+    allLeadsCount: 0,
+    savedLeadsCount: 0,
+    savedReviewsCount: 0,
+    errors: [],
+    createdAt: now,
+    updatedAt: now
+  };
+
+  const jobs = await getJobsCollection();
+  await jobs.insertOne(job);
+
+  return job;
+};
+
+/**
+ * Persists a new scrape job and starts it in the background.
+ * Resolves as soon as the job is stored, the scrape itself keeps running after the request ends.
+ */
+export const startScrapeJob = async (request: GmapsScrape, searchTargets: TGoogleMapsUrls[], apiKey?: TApiKey): Promise<TScrapeJob> => {
+  const job = await createScrapeJob(request, searchTargets, apiKey);
+
+  void executeScrapeJob(job._id, request, searchTargets, apiKey);
+
+  return job;
+};
+
+export const getScrapeJob = async (jobId: string): Promise<TScrapeJob | null> => {
+  const jobs = await getJobsCollection();
+  return jobs.findOne({ _id: jobId });
+};
+
+export const getScrapeJobResults = async (jobId: string, offset: number, limit: number): Promise<TGoogleMapLeadInfo[]> => {
+  const results = await getJobResultsCollection();
+  const documents = await results
+      .find({ jobId })
+      .sort({ createdAt: 1 })
+      .skip(offset)
+      .limit(limit)
+      .toArray();
+
+  return documents.map(document => document.lead);
+};
+
+// Streams every stored lead of a job in the order it was extracted
+export const streamScrapeJobResults = async (jobId: string): Promise<AsyncIterable<TGoogleMapLeadInfo>> => {
+  const results = await getJobResultsCollection();
+  return results
+      .find({ jobId })
+      .sort({ createdAt: 1 })
+      .map(document => document.lead);
+};
+
+/**
+ * Jobs only run inside the process that started them, so anything still queued or running
+ * after a restart can never finish and is marked as failed.
+ */
+export const failInterruptedScrapeJobs = async () => {
+  const jobs = await getJobsCollection();
+  const { modifiedCount } = await jobs.updateMany(
+      { status: { $in: ['queued', 'running'] } },
+      { $set: { status: 'failed', error: 'Job interrupted by server restart', finishedAt: new Date(), updatedAt: new Date() } }
+  );
+
+  if (modifiedCount > 0) {
+    logger.warn('Marked interrupted scrape jobs as failed', { count: modifiedCount });
+  }
+};
@@ -1,48 +1,135 @@
 import {Page} from "puppeteer";
-import {DEFAULT_PAGE_LOAD_TIMEOUT} from "../utils/constants";
+import {getGmapsLabels, gotoLocalizedMapsPage, removeLocaleParams, TMapsLocale} from "../utils/gmaps-locales";
+import {ScrapeError} from "./common/scrape-errors";
+import {TScrapingFunction} from "./common/browser-batch-handler";
+import {getActiveExtractionProfile, resolveSearchSelectors, TSearchProfileElement} from "./extraction-profiles";
+import {extractionDurationSeconds, measureDuration, pageLoadDurationSeconds} from "./common/metrics";
+import {createLogger} from "../utils/logger";
 
-export const scrapeLinks = async (url: string, page: Page): Promise<string[]> => {
+// Scrolls without new listings before the list counts as exhausted when Maps never shows its end of list marker
+const MAX_IDLE_SCROLLS = Number(process.env.SEARCH_MAX_IDLE_SCROLLS) || 5;
+const SEARCH_SCROLL_DELAY_MS = Number(process.env.SEARCH_SCROLL_DELAY_MS) || 1000;
+// Time one result list may be scrolled for, Maps stops at roughly 120 listings long before this
+const SEARCH_SCROLL_BUDGET_MS = Number(process.env.SEARCH_SCROLL_BUDGET_MS) || 3 * 60 * 1000;
 
-    await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36');
-    await page.goto(url, { waitUntil: "networkidle2", timeout: DEFAULT_PAGE_LOAD_TIMEOUT });
+const logger = createLogger('scrape-links');
 
-    return await page.evaluate(async () => {
-        const scrollContainer = document.querySelector('div[aria-label^="Results for"]');
-        if (!scrollContainer) return [];
+export type TSearchResults = {
+    links: string[];
+    // False when scrolling stopped without the end of list marker, a sign the endOfList selector or label drifted
+    endOfListFound: boolean;
+}
 
-        const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+type TFeedState = {
+    listingsCount: number;
+    endOfListFound: boolean;
+    links: string[];
+}
 
-        const isEndReached = () => {
-            return !!document.querySelector('span.HlvSq')?.textContent?.includes("You've reached the end of the list.");
+// Scrolls the result feed once, waits for Maps to load more and reads what the feed holds, null without a feed
+const scrollFeed = (page: Page, selectors: Record<TSearchProfileElement, string[]>, endOfListText: string, scrollBy: number, delayMs: number) =>
+    page.evaluate(async (selectors: Record<TSearchProfileElement, string[]>, endOfListText: string, scrollBy: number, delayMs: number): Promise<TFeedState | null> => {
+        // The first selector of the chain that matches anything, invalid ones are skipped
+        const queryFirst = (root: ParentNode, chain: string[]) => {
+            for (const selector of chain) {
+                try {
+                    const element = root.querySelector(selector);
+                    if (element) return element;
+                } catch {
+                    // Try the next selector
+                }
+            }
+            return null;
         };
+        const matchesAny = (element: Element, chain: string[]) => chain.some(selector => {
+            try {
+                return element.matches(selector);
+            } catch {
+                return false;
+            }
+        });
 
-        const getVisibleLeads = () => {
-            return Array.from(scrollContainer.children).filter(el => !el.classList.contains('TFQHme'));
-        };
+        const scrollContainer = queryFirst(document, selectors.feed);
+        if (!scrollContainer) return null;
 
-        while (!isEndReached()) {
-            scrollContainer.scrollBy(0, 1000);
-            await sleep(1000);
+        if (scrollBy > 0) {
+            scrollContainer.scrollBy(0, scrollBy);
+            await new Promise(resolve => setTimeout(resolve, delayMs));
         }
 
-
-        const leads = getVisibleLeads();
+        const leads = Array.from(scrollContainer.children).filter(el => !matchesAny(el, selectors.separator));
         const uniqueUrls = new Set<string>();
-        const results: string[] = [];
-
-        leads.forEach((el, index) => {
-            const anchor = el.querySelector('a[href*="/maps/place/"]');
-            if (anchor) {
-                const href = anchor.getAttribute('href');
-                if (href && !uniqueUrls.has(href)) {
-                    uniqueUrls.add(href);
+        const links: string[] = [];
 
-                    results.push(href.startsWith('http') ? href : 'https://www.google.com' + href);
-                }
+        leads.forEach(el => {
+            const anchor = queryFirst(el, selectors.listingLink);
+            const href = anchor?.getAttribute('href');
+            if (href && !uniqueUrls.has(href)) {
+                uniqueUrls.add(href);
+                links.push(href.startsWith('http') ? href : 'https://www.google.com' + href);
             }
         });
 
-        return results;
+        return {
+            listingsCount: leads.length,
+            endOfListFound: !!queryFirst(document, selectors.endOfList)?.textContent?.includes(endOfListText),
+            links
+        };
+    }, selectors, endOfListText, scrollBy, delayMs);
+
+/**
+ * Builds the search page scraper for result lists in the given locale.
+ * The feed is scrolled until Maps shows its end of list marker, the feed stops growing for a few scrolls,
+ * the scroll budget runs out or the scrape is cancelled, whatever was listed by then is returned.
+ */
+export const createSearchResultsScraper = (locale: TMapsLocale = {}): TScrapingFunction<TSearchResults> => async (url, page, signal) => {
+    const labels = getGmapsLabels(locale);
+    const profile = await getActiveExtractionProfile();
+    const selectors = resolveSearchSelectors(profile, labels);
+
+    await measureDuration(pageLoadDurationSeconds, 'search', () => gotoLocalizedMapsPage(page, url, locale));
+
+    // A search with a single match opens the place directly instead of listing it
+    if (page.url().includes('/maps/place/')) return { links: [removeLocaleParams(page.url())], endOfListFound: true };
+
+    const feed = await measureDuration(extractionDurationSeconds, 'search', async () => {
+        let state = await scrollFeed(page, selectors, labels.endOfList, 0, 0);
+        if (!state) return null;
+
+        const deadline = Date.now() + SEARCH_SCROLL_BUDGET_MS;
+        let idleScrolls = 0;
+
+        while (!state.endOfListFound && idleScrolls < MAX_IDLE_SCROLLS && Date.now() < deadline && !signal?.aborted) {
+            const next = await scrollFeed(page, selectors, labels.endOfList, 1000, SEARCH_SCROLL_DELAY_MS);
+            // Keep what was listed if the feed went away mid scroll
+            if (!next) break;
+
+            idleScrolls = next.listingsCount > state.listingsCount ? 0 : idleScrolls + 1;
+            state = next;
+        }
+
+        return state;
     });
 
-}
+    // The feed is there even when nothing matched, without it the page did not render properly
+    if (!feed) throw new ScrapeError('empty_results', `Results container not found for ${url} with extraction profile ${profile.version}`);
+
+    if (!feed.endOfListFound && !signal?.aborted) {
+        logger.warn('Result list ended without the end of list marker, the endOfList selector or label may have drifted', {
+            url,
+            profileVersion: profile.version,
+            listingsCount: feed.listingsCount
+        });
+    }
+
+    // Listings of a localized search carry its hl and gl along
+    return { links: feed.links.map(removeLocaleParams), endOfListFound: feed.endOfListFound };
+};
+
+// Builds the search page scraper for result lists in the given locale, returning only the listing urls
+export const createLinksScraper = (locale: TMapsLocale = {}): TScrapingFunction<string[]> => {
+    const scrapeSearchResults = createSearchResultsScraper(locale);
+    return async (url, page, signal) => (await scrapeSearchResults(url, page, signal)).links;
+};
+
+export const scrapeLinks = createLinksScraper();
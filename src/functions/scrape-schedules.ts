@@ -0,0 +1,440 @@
+import {randomUUID} from "crypto";
+import {hostname} from "os";
+import {config} from "dotenv";
+import {CronExpressionParser} from "cron-parser";
+import {Collection, Filter, MatchKeysAndValues} from "mongodb";
+import {getDatabase} from "./mongo-db";
+import {createScrapeJob, executeScrapeJob, getScrapeJob, TScrapeJobStatus} from "./scrape-jobs";
+import {findExceededApiKeyQuota, getApiKey, TApiKey} from "./api-keys";
+import {GmapsScrape} from "../apis/GMAPS_SCRAPE";
+import {generateGoogleMapsSearchTargets} from "../utils/helpers";
+import {createLogger, withLogContext} from "../utils/logger";
+
+config();
+
+const logger = createLogger('scrape-schedules');
+
+const SCHEDULES_COLLECTION = "scrape_schedules";
+const SCHEDULE_RUNS_COLLECTION = "scrape_schedule_runs";
+
+const SCHEDULER_POLL_INTERVAL_MS = Number(process.env.SCHEDULER_POLL_INTERVAL_MS) || 30000;
+// A lock its run stopped renewing for this long belongs to a dead run and the schedule may run again
+const SCHEDULE_LOCK_TTL_MS = Number(process.env.SCHEDULE_LOCK_TTL_MS) || 5 * 60 * 1000;
+// Renewing well within the ttl keeps a slow database round trip from letting a live lock expire
+const SCHEDULE_LOCK_RENEW_INTERVAL_MS = SCHEDULE_LOCK_TTL_MS / 3;
+// Identifies this server in locks and runs, it has to stay the same across restarts for interrupted runs to be released early
+const SCHEDULER_INSTANCE_ID = process.env.SCHEDULER_INSTANCE_ID || hostname();
+
+export type TScheduleRunStatus = 'running' | 'skipped' | Exclude<TScrapeJobStatus, 'queued' | 'running'>;
+
+export type TScheduleRunTrigger = 'schedule' | 'manual';
+
+export type TScheduleLock = {
+  runId: string;
+  // Server running the locked run
+  instanceId: string;
+  lockedAt: Date;
+  // Pushed forward while the run is alive
+  expiresAt: Date;
+}
+
+export type TScrapeSchedule = {
+  _id: string;
+  name: string;
+  // Standard five field cron expression, evaluated in timezone
+  cron: string;
+  timezone: string;
+  request: GmapsScrape;
+  enabled: boolean;
+  // Runs are metered against this key, unset when API key authentication is disabled
+  apiKeyId?: string;
+  nextRunAt: Date | null;
+  // Held by the run in progress, a schedule with a live lock never starts another run
+  lock: TScheduleLock | null;
+  lastRunAt?: Date;
+  lastRunStatus?: TScheduleRunStatus;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type TScheduleRun = {
+  _id: string;
+  scheduleId: string;
+  trigger: TScheduleRunTrigger;
+  status: TScheduleRunStatus;
+  instanceId: string;
+  // The scrape job doing the work, its results and export are available under /jobs/:id
+  jobId?: string;
+  foundedLeadsCount: number;
+  allLeadsCount: number;
+  savedLeadsCount: number;
+  errorCount: number;
+  error?: string;
+  startedAt: Date;
+  finishedAt?: Date;
+}
+
+export type TScrapeScheduleInput = Pick<TScrapeSchedule, 'name' | 'cron' | 'timezone' | 'request' | 'enabled'>;
+
+// Lock handling only needs these, tests hand in schedules kept in memory
+export type TScheduleLockStore = Pick<Collection<TScrapeSchedule>, 'findOneAndUpdate' | 'updateOne'>;
+
+export type TScheduleClaim =
+    | { outcome: 'claimed'; schedule: TScrapeSchedule; lock: TScheduleLock }
+    // The previous run still holds the lock, this occurrence is dropped
+    | { outcome: 'skipped' }
+    // Another caller already handled this occurrence
+    | { outcome: 'taken' };
+
+// Thrown when a schedule is started while its previous run is still going
+export class ScheduleAlreadyRunningError extends Error {
+  constructor(scheduleId: string) {
+    super(`Schedule ${scheduleId} is already running`);
+    this.name = 'ScheduleAlreadyRunningError';
+  }
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+const getSchedulesCollection = async (): Promise<Collection<TScrapeSchedule>> => {
+  const { db } = await getDatabase();
+  const collection = db.collection<TScrapeSchedule>(SCHEDULES_COLLECTION);
+  await collection.createIndex({ enabled: 1, nextRunAt: 1 });
+  await collection.createIndex({ apiKeyId: 1, createdAt: -1 });
+  return collection;
+};
+
+const getScheduleRunsCollection = async (): Promise<Collection<TScheduleRun>> => {
+  const { db } = await getDatabase();
+  const collection = db.collection<TScheduleRun>(SCHEDULE_RUNS_COLLECTION);
+  await collection.createIndex({ scheduleId: 1, startedAt: -1 });
+  return collection;
+};
+
+// Only five field expressions are accepted, the parser would silently fill in missing fields
+export const isValidCronExpression = (cron: string) => {
+  if (cron.trim().split(/\s+/).length !== 5) return false;
+
+  try {
+    CronExpressionParser.parse(cron);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const isValidTimeZone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const getNextRunAt = (cron: string, timezone: string, after: Date = new Date()): Date =>
+    CronExpressionParser.parse(cron, { tz: timezone, currentDate: after }).next().toDate();
+
+// A schedule is free when nothing holds its lock or the holder outlived the lock's ttl
+const lockIsFree = (now: Date): Filter<TScrapeSchedule> => ({ $or: [{ lock: null }, { 'lock.expiresAt': { $lt: now } }] });
+
+const createLock = (now: Date): TScheduleLock => ({
+  runId: randomUUID(),
+  instanceId: SCHEDULER_INSTANCE_ID,
+  lockedAt: now,
+  expiresAt: new Date(now.getTime() + SCHEDULE_LOCK_TTL_MS)
+});
+
+/**
+ * Pushes a live run's lock expiry forward, a lock that was released or taken over in the meantime is left alone.
+ * Returns whether the lock is still held by the run.
+ */
+export const renewScheduleLock = async (schedules: TScheduleLockStore, scheduleId: string, runId: string, now: Date = new Date()) => {
+  const { matchedCount } = await schedules.updateOne(
+      { _id: scheduleId, 'lock.runId': runId },
+      { $set: { 'lock.expiresAt': new Date(now.getTime() + SCHEDULE_LOCK_TTL_MS) } }
+  );
+  return matchedCount > 0;
+};
+
+const startLockRenewal = (scheduleId: string, runId: string) => {
+  const renewTimer = setInterval(() => {
+    getSchedulesCollection()
+        .then(schedules => renewScheduleLock(schedules, scheduleId, runId))
+        .catch(error => logger.error('Could not renew schedule lock', { runId, error }));
+  }, SCHEDULE_LOCK_RENEW_INTERVAL_MS);
+  renewTimer.unref();
+  return renewTimer;
+};
+
+const updateRun = async (runId: string, update: MatchKeysAndValues<TScheduleRun>) => {
+  const runs = await getScheduleRunsCollection();
+  await runs.updateOne({ _id: runId }, { $set: update });
+};
+
+const insertRun = async (schedule: TScrapeSchedule, runId: string, trigger: TScheduleRunTrigger, status: TScheduleRunStatus, error?: string) => {
+  const runs = await getScheduleRunsCollection();
+  const now = new Date();
+  await runs.insertOne({
+    _id: runId,
+    scheduleId: schedule._id,
+    trigger,
+    status,
+    instanceId: SCHEDULER_INSTANCE_ID,
+    foundedLeadsCount: 0,
+    allLeadsCount: 0,
+    savedLeadsCount: 0,
+    errorCount: 0,
+    ...(error && { error }),
+    startedAt: now,
+    ...(status !== 'running' && { finishedAt: now })
+  });
+};
+
+// The key may have been revoked or used up its quota since the schedule was created
+const resolveRunApiKey = async (schedule: TScrapeSchedule): Promise<{ apiKey?: TApiKey; error?: string }> => {
+  if (!schedule.apiKeyId) return {};
+
+  const apiKey = await getApiKey(schedule.apiKeyId);
+  if (!apiKey) return { error: 'The API key this schedule was created with has been revoked' };
+
+  const exceededMetric = await findExceededApiKeyQuota(apiKey);
+  if (exceededMetric) return { error: `Daily ${exceededMetric} limit reached for this schedule's API key` };
+
+  return { apiKey };
+};
+
+const runScheduleOccurrence = async (schedule: TScrapeSchedule, runId: string, trigger: TScheduleRunTrigger) => {
+  let status: TScheduleRunStatus = 'failed';
+  const renewTimer = startLockRenewal(schedule._id, runId);
+
+  try {
+    const { apiKey, error } = await resolveRunApiKey(schedule);
+
+    if (error) {
+      status = 'skipped';
+      await insertRun(schedule, runId, trigger, status, error);
+      logger.warn('Skipped scheduled scrape', { scheduleName: schedule.name, reason: error });
+      return;
+    }
+
+    await insertRun(schedule, runId, trigger, 'running');
+    logger.info('Starting scheduled scrape', { scheduleName: schedule.name, trigger });
+
+    const searchTargets = generateGoogleMapsSearchTargets(schedule.request);
+    const job = await createScrapeJob(schedule.request, searchTargets, apiKey);
+    await updateRun(runId, { jobId: job._id });
+
+    await executeScrapeJob(job._id, schedule.request, searchTargets, apiKey);
+
+    const finishedJob = await getScrapeJob(job._id);
+    status = finishedJob?.status === 'completed' || finishedJob?.status === 'cancelled' ? finishedJob.status : 'failed';
+
+    await updateRun(runId, {
+      status,
+      foundedLeadsCount: finishedJob?.foundedLeadsCount ?? 0,
+      allLeadsCount: finishedJob?.allLeadsCount ?? 0,
+      savedLeadsCount: finishedJob?.savedLeadsCount ?? 0,
+      errorCount: finishedJob?.errors.length ?? 0,
+      ...(finishedJob?.error && { error: finishedJob.error }),
+      finishedAt: new Date()
+    });
+    logger.info('Scheduled scrape finished', { scheduleName: schedule.name, status });
+
+  } catch (error) {
+    logger.error('Scheduled scrape failed', { scheduleName: schedule.name, error });
+    await updateRun(runId, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      finishedAt: new Date()
+    }).catch(updateError => logger.error('Could not mark schedule run as failed', { runId, error: updateError }));
+  } finally {
+    clearInterval(renewTimer);
+
+    // Runs are started without awaiting them, an error escaping here would be an unhandled rejection
+    try {
+      const schedules = await getSchedulesCollection();
+      await schedules.updateOne(
+          { _id: schedule._id, 'lock.runId': runId },
+          { $set: { lock: null, lastRunStatus: status, updatedAt: new Date() } }
+      );
+    } catch (error) {
+      logger.error('Could not release schedule lock', { runId, error });
+    }
+  }
+};
+
+/**
+ * Runs one occurrence of a schedule as a regular scrape job and releases the schedule's lock afterwards.
+ * The caller must already hold the lock, its runId becomes the run's id.
+ */
+const executeScheduleRun = (schedule: TScrapeSchedule, runId: string, trigger: TScheduleRunTrigger) =>
+    withLogContext({ scheduleId: schedule._id }, () => runScheduleOccurrence(schedule, runId, trigger));
+
+/**
+ * Claims the due occurrence of a schedule by taking its lock and moving nextRunAt to the following occurrence.
+ * When the previous run still holds the lock the occurrence is skipped, nextRunAt moves on all the same.
+ */
+export const claimScheduleOccurrence = async (schedules: TScheduleLockStore, schedule: TScrapeSchedule, now: Date): Promise<TScheduleClaim> => {
+  const nextRunAt = getNextRunAt(schedule.cron, schedule.timezone, now);
+  const lock = createLock(now);
+
+  // Matching on nextRunAt as well makes sure only one caller claims this occurrence
+  const claimed = await schedules.findOneAndUpdate(
+      { _id: schedule._id, enabled: true, nextRunAt: schedule.nextRunAt, ...lockIsFree(now) },
+      { $set: { lock, nextRunAt, lastRunAt: now, updatedAt: now } },
+      { returnDocument: 'after' }
+  );
+
+  if (claimed) return { outcome: 'claimed', schedule: claimed, lock };
+
+  // Not claimable with its occurrence still pending means the previous run holds the lock
+  const { modifiedCount } = await schedules.updateOne(
+      { _id: schedule._id, enabled: true, nextRunAt: schedule.nextRunAt },
+      { $set: { nextRunAt, updatedAt: now } }
+  );
+
+  return { outcome: modifiedCount > 0 ? 'skipped' : 'taken' };
+};
+
+/**
+ * Claims every due schedule and starts its run in the background.
+ * A schedule whose previous run still holds the lock skips this occurrence and records it as a skipped run.
+ * Occurrences missed while the server was down collapse into a single run.
+ */
+export const runDueSchedules = async (now: Date = new Date()) => {
+  const schedules = await getSchedulesCollection();
+  const dueSchedules = await schedules.find({ enabled: true, nextRunAt: { $lte: now } }).toArray();
+
+  for (const schedule of dueSchedules) {
+    const claim = await claimScheduleOccurrence(schedules, schedule, now);
+
+    if (claim.outcome === 'claimed') {
+      void executeScheduleRun(claim.schedule, claim.lock.runId, 'schedule');
+    } else if (claim.outcome === 'skipped') {
+      logger.warn('Scheduled scrape is still running, skipping this occurrence', { scheduleId: schedule._id, scheduleName: schedule.name });
+      await insertRun(schedule, randomUUID(), 'schedule', 'skipped', 'Previous run was still in progress');
+    }
+  }
+};
+
+// Starts a schedule right away, outside of its cron expression
+export const triggerScheduleRun = async (scheduleId: string, apiKeyId?: string): Promise<string | null> => {
+  const schedules = await getSchedulesCollection();
+  const now = new Date();
+  const lock = createLock(now);
+
+  const claimed = await schedules.findOneAndUpdate(
+      { _id: scheduleId, ...(apiKeyId && { apiKeyId }), ...lockIsFree(now) },
+      { $set: { lock, lastRunAt: now, updatedAt: now } },
+      { returnDocument: 'after' }
+  );
+
+  if (!claimed) {
+    if (await getScrapeSchedule(scheduleId, apiKeyId)) throw new ScheduleAlreadyRunningError(scheduleId);
+    return null;
+  }
+
+  void executeScheduleRun(claimed, lock.runId, 'manual');
+  return lock.runId;
+};
+
+export const createScrapeSchedule = async (input: TScrapeScheduleInput, apiKeyId?: string): Promise<TScrapeSchedule> => {
+  const now = new Date();
+  const schedule: TScrapeSchedule = {
+    _id: randomUUID(),
+    ...input,
+    ...(apiKeyId && { apiKeyId }),
+    nextRunAt: input.enabled ? getNextRunAt(input.cron, input.timezone, now) : null,
+    lock: null,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  const schedules = await getSchedulesCollection();
+  await schedules.insertOne(schedule);
+  return schedule;
+};
+
+// Schedules are scoped to the API key that created them
+export const getScrapeSchedule = async (scheduleId: string, apiKeyId?: string): Promise<TScrapeSchedule | null> => {
+  const schedules = await getSchedulesCollection();
+  return schedules.findOne({ _id: scheduleId, ...(apiKeyId && { apiKeyId }) });
+};
+
+export const listScrapeSchedules = async (apiKeyId?: string): Promise<TScrapeSchedule[]> => {
+  const schedules = await getSchedulesCollection();
+  return schedules.find(apiKeyId ? { apiKeyId } : {}).sort({ createdAt: -1 }).toArray();
+};
+
+/**
+ * Applies a partial update, the next run is recalculated whenever the timing or the enabled flag could have changed.
+ */
+export const updateScrapeSchedule = async (scheduleId: string, update: Partial<TScrapeScheduleInput>, apiKeyId?: string): Promise<TScrapeSchedule | null> => {
+  const existing = await getScrapeSchedule(scheduleId, apiKeyId);
+  if (!existing) return null;
+
+  const merged = { ...existing, ...update };
+  const schedules = await getSchedulesCollection();
+
+  return schedules.findOneAndUpdate(
+      { _id: scheduleId },
+      {
+        $set: {
+          ...update,
+          nextRunAt: merged.enabled ? getNextRunAt(merged.cron, merged.timezone) : null,
+          updatedAt: new Date()
+        }
+      },
+      { returnDocument: 'after' }
+  );
+};
+
+// A run in progress finishes, its job stays available under /jobs/:id
+export const deleteScrapeSchedule = async (scheduleId: string, apiKeyId?: string): Promise<boolean> => {
+  const schedules = await getSchedulesCollection();
+  const { deletedCount } = await schedules.deleteOne({ _id: scheduleId, ...(apiKeyId && { apiKeyId }) });
+  return deletedCount > 0;
+};
+
+export const getScheduleRuns = async (scheduleId: string, offset: number, limit: number): Promise<TScheduleRun[]> => {
+  const runs = await getScheduleRunsCollection();
+  return runs
+      .find({ scheduleId })
+      .sort({ startedAt: -1 })
+      .skip(offset)
+      .limit(limit)
+      .toArray();
+};
+
+/**
+ * Runs only live inside the process that started them, so after a restart this instance's locks are stale
+ * and its running runs can never finish.
+ * Locks held by other instances are left alone, their runs may still be going and their locks expire on their own.
+ */
+export const releaseInterruptedScheduleRuns = async () => {
+  const schedules = await getSchedulesCollection();
+  const runs = await getScheduleRunsCollection();
+  const now = new Date();
+
+  await schedules.updateMany(
+      { 'lock.instanceId': SCHEDULER_INSTANCE_ID },
+      { $set: { lock: null, lastRunStatus: 'failed', updatedAt: now } }
+  );
+  const { modifiedCount } = await runs.updateMany(
+      { status: 'running', instanceId: SCHEDULER_INSTANCE_ID },
+      { $set: { status: 'failed', error: 'Run interrupted by server restart', finishedAt: now } }
+  );
+
+  if (modifiedCount > 0) logger.warn('Marked interrupted schedule runs as failed', { count: modifiedCount });
+};
+
+export const startScheduler = () => {
+  if (schedulerTimer) return;
+
+  const tick = () => runDueSchedules().catch(error => logger.error('Scheduler tick failed', { error }));
+
+  schedulerTimer = setInterval(tick, SCHEDULER_POLL_INTERVAL_MS);
+  void tick();
+  logger.info('Scheduler started', { pollIntervalMs: SCHEDULER_POLL_INTERVAL_MS });
+};
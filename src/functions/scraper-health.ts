@@ -0,0 +1,314 @@
+import {randomUUID} from "crypto";
+import {config} from "dotenv";
+import {Collection} from "mongodb";
+import {getDatabase, isDatabaseConfigured} from "./mongo-db";
+import {BrowserBatchHandler, EachPageResult} from "./common/browser-batch-handler";
+import {createSearchResultsScraper} from "./scrape-links";
+import {GmapsDetailsLeadInfoExtractor, TGoogleMapLeadInfo} from "./gmap-details-lead-extractor";
+import {createGmapsReviewsExtractor, TPlaceReviews} from "./gmaps-reviews-extractor";
+import {getActiveExtractionProfile, PLACE_PROFILE_FIELDS, REVIEW_PROFILE_FIELDS, TExtractionProfile, TReviewProfileField, TSearchProfileElement} from "./extraction-profiles";
+import {parseLeadReviewCount} from "../utils/helpers";
+import {createLogger} from "../utils/logger";
+
+config();
+
+const logger = createLogger('scraper-health');
+
+const CANARY_RUNS_COLLECTION = "health_canary_runs";
+
+const HEALTH_CANARY_INTERVAL_MS = Number(process.env.HEALTH_CANARY_INTERVAL_MS) || 60 * 60 * 1000;
+// Listings of each canary search whose place page is extracted as well
+const HEALTH_CANARY_PLACES_PER_SEARCH = Number(process.env.HEALTH_CANARY_PLACES_PER_SEARCH) || 5;
+// Reviews read from every canary place that lists reviews
+const HEALTH_CANARY_REVIEWS_PER_PLACE = Number(process.env.HEALTH_CANARY_REVIEWS_PER_PLACE) || 5;
+// A monitored field filled on fewer canary places than this marks the scraper degraded
+const HEALTH_MIN_FILL_RATE = Number(process.env.HEALTH_MIN_FILL_RATE) || 0.8;
+// Reports kept in memory when there is no database to record them in
+const HEALTH_HISTORY_SIZE = 100;
+
+// businessStatus always has a value, an absent closed notice means the place is operational
+export const CANARY_FIELDS = PLACE_PROFILE_FIELDS.filter(field => field !== 'businessStatus');
+
+export type TCanaryField = typeof CANARY_FIELDS[number];
+
+// Website, plus code and price are missing for plenty of real places, so only these are held to the threshold by default
+const DEFAULT_MONITORED_FIELDS: TCanaryField[] = ['name', 'phoneNumber', 'overAllRating', 'numberOfReviews', 'address', 'category'];
+
+// Reviews without an id are dropped, plenty are a rating without text and most have no owner response
+const MONITORED_REVIEW_FIELDS: TReviewProfileField[] = ['reviewerName', 'rating', 'relativeDate'];
+
+export type TScraperHealthStatus = 'unknown' | 'ok' | 'degraded';
+
+export type TCanaryTargets = {
+  // Maps search urls, any host works so locally served pages can be used as canaries too
+  searchUrls: string[];
+  // Place urls extracted on top of the listings found by the searches
+  placeUrls: string[];
+}
+
+export type TCanarySearchResult = {
+  url: string;
+  listingsFound: number;
+  // False when the list was read without reaching Maps' end of list marker
+  endOfListFound?: boolean;
+  error?: string;
+}
+
+export type TCanaryFieldStats = {
+  filled: number;
+  fillRate: number;
+  // Values read by a fallback selector, the primary selector of the profile no longer matches
+  fallbackCount: number;
+}
+
+export type TCanaryReport = {
+  _id: string;
+  status: Exclude<TScraperHealthStatus, 'unknown'>;
+  // Why the run is degraded, empty when it is ok
+  reasons: string[];
+  profileVersion: string;
+  searches: TCanarySearchResult[];
+  // Place pages that loaded, the fill rates are taken over these
+  placesChecked: number;
+  // Place pages that never loaded (timeouts, navigation errors), they say nothing about the markup
+  placesFailed: number;
+  fields: Record<TCanaryField, TCanaryFieldStats>;
+  // Fields read by a fallback selector on at least one place
+  driftedFields: TCanaryField[];
+  // Reviews read from the canary places that list reviews, the review fill rates are taken over these
+  reviewsChecked: number;
+  reviewFields: Record<TReviewProfileField, TCanaryFieldStats>;
+  driftedReviewFields: TReviewProfileField[];
+  // Search elements the profile no longer finds, like an end of list marker no search reached
+  driftedSearchElements: TSearchProfileElement[];
+  startedAt: Date;
+  finishedAt: Date;
+}
+
+let healthCanaryTimer: NodeJS.Timeout | null = null;
+// The configured canary runs once at a time, a manual run joins the one in progress
+let configuredCanaryRun: Promise<TCanaryReport> | null = null;
+let recentCanaryReports: TCanaryReport[] = [];
+
+// Whitespace separated, Maps urls may contain commas
+const parseUrlList = (value: string | undefined) => (value ?? '').split(/\s+/).filter(Boolean);
+
+export const getConfiguredCanaryTargets = (): TCanaryTargets => ({
+  searchUrls: parseUrlList(process.env.HEALTH_CANARY_SEARCH_URLS),
+  placeUrls: parseUrlList(process.env.HEALTH_CANARY_PLACE_URLS)
+});
+
+export const hasCanaryTargets = (targets: TCanaryTargets) => targets.searchUrls.length + targets.placeUrls.length > 0;
+
+// Comma separated field names, unknown names are left out with a warning
+const getMonitoredFields = (): TCanaryField[] => {
+  if (!process.env.HEALTH_CANARY_FIELDS) return DEFAULT_MONITORED_FIELDS;
+
+  return process.env.HEALTH_CANARY_FIELDS.split(',').map(field => field.trim()).filter(field => {
+    if (CANARY_FIELDS.includes(field as TCanaryField)) return true;
+    logger.warn('Ignoring unknown field in HEALTH_CANARY_FIELDS', { field });
+    return false;
+  }) as TCanaryField[];
+};
+
+const getCanaryRunsCollection = async (): Promise<Collection<TCanaryReport>> => {
+  const { db } = await getDatabase();
+  const collection = db.collection<TCanaryReport>(CANARY_RUNS_COLLECTION);
+  await collection.createIndex({ startedAt: -1 });
+  return collection;
+};
+
+const formatPercent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+// A review's value exists exactly when the profile recorded the selector that read it
+const buildReviewFieldStats = (reviewPages: EachPageResult<TPlaceReviews>[], profile: TExtractionProfile) => {
+  const reviews = reviewPages.flatMap(page => page.success && page.data ? page.data.reviews : []);
+
+  const fields = Object.fromEntries(REVIEW_PROFILE_FIELDS.map(field => {
+    const usedSelectors = reviews.flatMap(review => review.extraction?.selectors[field] ?? []);
+    const primarySelector = profile.reviews.fields[field].selectors[0]?.css;
+
+    return [field, {
+      filled: usedSelectors.length,
+      fillRate: reviews.length > 0 ? usedSelectors.length / reviews.length : 0,
+      fallbackCount: usedSelectors.filter(selector => selector !== primarySelector).length
+    }];
+  })) as Record<TReviewProfileField, TCanaryFieldStats>;
+
+  return { reviewsChecked: reviews.length, reviewPagesLoaded: reviewPages.filter(page => page.success).length, fields };
+};
+
+/**
+ * Turns the results of a canary run into fill rates per field and a status.
+ * A page failing with selector_missing loaded but had none of the required fields, so it counts as a place with nothing filled.
+ * Review pages are only visited for places that list reviews, so loaded review pages without a single review mean the review selectors broke.
+ */
+export const buildCanaryReport = (
+    searches: TCanarySearchResult[],
+    places: EachPageResult<TGoogleMapLeadInfo>[],
+    reviewPages: EachPageResult<TPlaceReviews>[],
+    profile: TExtractionProfile,
+    startedAt: Date,
+    monitoredFields: TCanaryField[] = getMonitoredFields()
+): TCanaryReport => {
+  const leads = places.flatMap(place => place.success && place.data ? [place.data] : []);
+  const placesChecked = places.filter(place => place.success || place.error?.type === 'selector_missing').length;
+
+  const fields = Object.fromEntries(CANARY_FIELDS.map(field => {
+    const filledLeads = leads.filter(lead => lead[field] !== 'N/A');
+    const primarySelector = profile.place[field].selectors[0]?.css;
+    const fallbackCount = filledLeads.filter(lead => {
+      const selector = lead.extraction?.selectors[field];
+      return !!selector && selector !== primarySelector;
+    }).length;
+
+    return [field, {
+      filled: filledLeads.length,
+      fillRate: placesChecked > 0 ? filledLeads.length / placesChecked : 0,
+      fallbackCount
+    }];
+  })) as Record<TCanaryField, TCanaryFieldStats>;
+
+  const reviewStats = buildReviewFieldStats(reviewPages, profile);
+
+  const reasons = [
+    ...searches.filter(search => search.error).map(search => `Search ${search.url} failed: ${search.error}`),
+    ...searches.filter(search => !search.error && search.listingsFound === 0).map(search => `Search ${search.url} found no listings`),
+    ...(placesChecked === 0 ? ['No canary place page could be loaded'] : monitoredFields
+        .filter(field => fields[field].fillRate < HEALTH_MIN_FILL_RATE)
+        .map(field => `${field} filled on ${formatPercent(fields[field].fillRate)} of canary places, below ${formatPercent(HEALTH_MIN_FILL_RATE)}`)),
+    ...(reviewStats.reviewPagesLoaded === 0 ? [] : reviewStats.reviewsChecked === 0
+        ? [`No reviews read from ${reviewStats.reviewPagesLoaded} canary places that list reviews`]
+        : MONITORED_REVIEW_FIELDS
+            .filter(field => reviewStats.fields[field].fillRate < HEALTH_MIN_FILL_RATE)
+            .map(field => `Review ${field} filled on ${formatPercent(reviewStats.fields[field].fillRate)} of canary reviews, below ${formatPercent(HEALTH_MIN_FILL_RATE)}`))
+  ];
+
+  return {
+    _id: randomUUID(),
+    status: reasons.length > 0 ? 'degraded' : 'ok',
+    reasons,
+    profileVersion: profile.version,
+    searches,
+    placesChecked,
+    placesFailed: places.length - placesChecked,
+    fields,
+    driftedFields: CANARY_FIELDS.filter(field => fields[field].fallbackCount > 0),
+    reviewsChecked: reviewStats.reviewsChecked,
+    reviewFields: reviewStats.fields,
+    driftedReviewFields: REVIEW_PROFILE_FIELDS.filter(field => reviewStats.fields[field].fallbackCount > 0),
+    driftedSearchElements: searches.some(search => search.endOfListFound === false) ? ['endOfList'] : [],
+    startedAt,
+    finishedAt: new Date()
+  };
+};
+
+/**
+ * Scrapes the canary targets with the same scrapers a job uses: every search with the search results scraper,
+ * then the first listings of each search and the extra place urls with the details extractor,
+ * and finally the first reviews of every place that lists reviews.
+ */
+export const runHealthCanary = async (targets: TCanaryTargets): Promise<TCanaryReport> => {
+  const startedAt = new Date();
+  const profile = await getActiveExtractionProfile();
+
+  const searches: TCanarySearchResult[] = [];
+  const placeUrls = new Set(targets.placeUrls);
+
+  await BrowserBatchHandler(targets.searchUrls, createSearchResultsScraper(), null, {
+    phase: 'canary',
+    onPageResult: (url, result) => {
+      searches.push({
+        url,
+        listingsFound: result.data?.links.length ?? 0,
+        ...(result.data && { endOfListFound: result.data.endOfListFound }),
+        ...(result.error && { error: result.error.message })
+      });
+      result.data?.links.slice(0, HEALTH_CANARY_PLACES_PER_SEARCH).forEach(placeUrl => placeUrls.add(placeUrl));
+    }
+  });
+
+  const places: EachPageResult<TGoogleMapLeadInfo>[] = [];
+  await BrowserBatchHandler([...placeUrls], GmapsDetailsLeadInfoExtractor, null, {
+    phase: 'canary',
+    onPageResult: (_, result) => {
+      places.push(result);
+    }
+  });
+
+  const reviewedPlaceUrls = places.flatMap(place =>
+      place.success && place.data && (parseLeadReviewCount(place.data.numberOfReviews) ?? 0) > 0 ? [place.data.gmapsUrl] : []);
+
+  const reviewPages: EachPageResult<TPlaceReviews>[] = [];
+  await BrowserBatchHandler(reviewedPlaceUrls, createGmapsReviewsExtractor({ limit: HEALTH_CANARY_REVIEWS_PER_PLACE, sort: 'most_relevant' }), null, {
+    phase: 'canary',
+    onPageResult: (_, result) => {
+      reviewPages.push(result);
+    }
+  });
+
+  return buildCanaryReport(searches, places, reviewPages, profile, startedAt);
+};
+
+const recordCanaryReport = async (report: TCanaryReport) => {
+  recentCanaryReports = [report, ...recentCanaryReports].slice(0, HEALTH_HISTORY_SIZE);
+
+  if (report.status === 'degraded') {
+    logger.warn('Scraper health degraded', { reasons: report.reasons });
+  } else {
+    logger.info('Scraper health canary passed', { placesChecked: report.placesChecked });
+  }
+  if (report.driftedFields.length > 0 || report.driftedReviewFields.length > 0 || report.driftedSearchElements.length > 0) {
+    logger.warn('Fallback selectors of the extraction profile were used', {
+      profileVersion: report.profileVersion,
+      fields: report.driftedFields,
+      reviewFields: report.driftedReviewFields,
+      searchElements: report.driftedSearchElements
+    });
+  }
+
+  if (isDatabaseConfigured()) {
+    const collection = await getCanaryRunsCollection();
+    await collection.insertOne(report);
+  }
+};
+
+// Runs the canary against the configured targets and makes its report the current health of the scraper
+export const runConfiguredHealthCanary = (): Promise<TCanaryReport> => {
+  if (configuredCanaryRun) return configuredCanaryRun;
+
+  configuredCanaryRun = (async () => {
+    try {
+      const report = await runHealthCanary(getConfiguredCanaryTargets());
+      await recordCanaryReport(report);
+      return report;
+    } finally {
+      configuredCanaryRun = null;
+    }
+  })();
+
+  return configuredCanaryRun;
+};
+
+// The latest report of this process, null until the first canary run finished
+export const getLatestCanaryReport = (): TCanaryReport | null => recentCanaryReports[0] ?? null;
+
+export const getScraperHealthStatus = (): TScraperHealthStatus => getLatestCanaryReport()?.status ?? 'unknown';
+
+// Newest first, recorded runs of every process when there is a database, this process's recent runs otherwise
+export const listCanaryReports = async (limit: number): Promise<TCanaryReport[]> => {
+  if (!isDatabaseConfigured()) return recentCanaryReports.slice(0, limit);
+
+  const collection = await getCanaryRunsCollection();
+  return collection.find({}).sort({ startedAt: -1 }).limit(limit).toArray();
+};
+
+export const startHealthCanary = () => {
+  if (healthCanaryTimer) return;
+
+  const tick = () => runConfiguredHealthCanary().catch(error => logger.error('Health canary run failed', { error }));
+
+  healthCanaryTimer = setInterval(tick, HEALTH_CANARY_INTERVAL_MS);
+  void tick();
+  logger.info('Health canary started', { intervalMs: HEALTH_CANARY_INTERVAL_MS });
+};
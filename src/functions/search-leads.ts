@@ -0,0 +1,179 @@
+import {Collection, Filter, FindCursor, ObjectId, Sort, WithId} from "mongodb";
+import {getDatabase} from "./mongo-db";
+import {createQuerySlug, getLeadsCollection, TStoredLead} from "./gmaps-save-to-db";
+import {TBusinessStatus} from "./gmap-details-lead-extractor";
+
+export const LEAD_SORT_FIELDS = ['lastSeenAt', 'firstSeenAt', 'rating', 'reviewCount', 'name'] as const;
+
+export type TLeadSortField = typeof LEAD_SORT_FIELDS[number];
+
+export type TLeadSearchFilters = {
+  country?: string;
+  state?: string;
+  city?: string;
+  query?: string;
+  minRating?: number;
+  minReviews?: number;
+  hasWebsite?: boolean;
+  hasPhone?: boolean;
+  hasEmail?: boolean;
+  scenario?: string;
+  targetSystem?: string;
+  category?: string;
+  businessStatus?: TBusinessStatus;
+}
+
+export type TLeadSortOptions = {
+  sortBy: TLeadSortField;
+  order: 'asc' | 'desc';
+}
+
+export type TLeadSearchOptions = TLeadSearchFilters & TLeadSortOptions & {
+  limit: number;
+  cursor?: string;
+}
+
+export type TLeadSearchResult = {
+  leads: WithId<TStoredLead>[];
+  nextCursor: string | null;
+}
+
+type TCursorValue = string | number | null;
+
+type TLeadCursor = {
+  value: TCursorValue;
+  isDate: boolean;
+  id: string;
+}
+
+export class InvalidLeadCursorError extends Error {
+  constructor() {
+    super("Invalid cursor");
+    this.name = "InvalidLeadCursorError";
+  }
+}
+
+const EMPTY_CONTACT_VALUES = ['N/A', ''];
+
+// Matches the stored value case-insensitively without letting user input act as a regex
+const exactMatch = (value: string) => new RegExp(`^${value.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, 'i');
+
+const buildLeadFilter = (filters: TLeadSearchFilters): Filter<TStoredLead> => {
+  const filter: Filter<TStoredLead> = {};
+
+  if (filters.country) filter.country = exactMatch(filters.country);
+  if (filters.state) filter.state = exactMatch(filters.state);
+  if (filters.city) filter.city = exactMatch(filters.city);
+  if (filters.query) filter.queries = createQuerySlug(filters.query);
+  if (filters.category) filter.category = exactMatch(filters.category);
+  if (filters.businessStatus) filter.businessStatus = filters.businessStatus;
+  if (filters.scenario) filter.scenario = filters.scenario;
+  if (filters.targetSystem) filter.targetSystem = filters.targetSystem;
+  if (filters.minRating !== undefined) filter.rating = { $gte: filters.minRating };
+  if (filters.minReviews !== undefined) filter.reviewCount = { $gte: filters.minReviews };
+
+  if (filters.hasWebsite !== undefined) {
+    filter.website = filters.hasWebsite ? { $nin: EMPTY_CONTACT_VALUES } : { $in: EMPTY_CONTACT_VALUES };
+  }
+  if (filters.hasPhone !== undefined) {
+    filter.phoneNumber = filters.hasPhone ? { $nin: EMPTY_CONTACT_VALUES } : { $in: EMPTY_CONTACT_VALUES };
+  }
+  if (filters.hasEmail !== undefined) {
+    filter['emails.0'] = { $exists: filters.hasEmail };
+  }
+
+  return filter;
+};
+
+const encodeCursor = (lead: WithId<TStoredLead>, sortBy: TLeadSortField): string => {
+  const rawValue = lead[sortBy] ?? null;
+  const cursor: TLeadCursor = {
+    value: rawValue instanceof Date ? rawValue.toISOString() : rawValue,
+    isDate: rawValue instanceof Date,
+    id: lead._id.toHexString()
+  };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+};
+
+const decodeCursor = (cursor: string): TLeadCursor => {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as TLeadCursor;
+    if (!ObjectId.isValid(decoded.id)) throw new InvalidLeadCursorError();
+    return decoded;
+  } catch {
+    throw new InvalidLeadCursorError();
+  }
+};
+
+/**
+ * Keyset condition for everything after the cursor in (sortBy, _id) order.
+ * MongoDB sorts nulls before every other value, which is why nulls get their own branches.
+ */
+const buildCursorFilter = (cursor: TLeadCursor, sortBy: TLeadSortField, order: 'asc' | 'desc'): Filter<TStoredLead> => {
+  const id = new ObjectId(cursor.id);
+  const value = cursor.isDate && cursor.value !== null ? new Date(cursor.value) : cursor.value;
+  const idAfter = order === 'asc' ? { $gt: id } : { $lt: id };
+
+  if (value === null) {
+    return order === 'asc'
+        ? { $or: [{ [sortBy]: null, _id: idAfter }, { [sortBy]: { $ne: null } }] }
+        : { [sortBy]: null, _id: idAfter };
+  }
+
+  const valueAfter = order === 'asc' ? { $gt: value } : { $lt: value };
+  const conditions: Filter<TStoredLead>[] = [
+    { [sortBy]: valueAfter },
+    { [sortBy]: value, _id: idAfter }
+  ];
+  if (order === 'desc') conditions.push({ [sortBy]: null });
+
+  return { $or: conditions };
+};
+
+const buildLeadSort = (sortBy: TLeadSortField, order: 'asc' | 'desc'): Sort => {
+  const direction = order === 'asc' ? 1 : -1;
+  return { [sortBy]: direction, _id: direction };
+};
+
+// Paging only needs find, tests hand in leads kept in memory
+type TLeadPageSource = Pick<Collection<TStoredLead>, 'find'>;
+
+// One page of the leads matching the options, in (sortBy, _id) order and continuing after the cursor when given
+export const findLeadsPage = async (collection: TLeadPageSource, options: TLeadSearchOptions): Promise<TLeadSearchResult> => {
+  const { sortBy, order, limit, cursor, ...filters } = options;
+
+  const filter = buildLeadFilter(filters);
+  const query: Filter<TStoredLead> = cursor
+      ? { $and: [filter, buildCursorFilter(decodeCursor(cursor), sortBy, order)] }
+      : filter;
+
+  // One extra document tells us whether another page exists
+  const documents = await collection.find(query).sort(buildLeadSort(sortBy, order)).limit(limit + 1).toArray();
+  const leads = documents.slice(0, limit);
+  const hasMore = documents.length > limit;
+
+  return {
+    leads,
+    nextCursor: hasMore ? encodeCursor(leads[leads.length - 1], sortBy) : null
+  };
+};
+
+export const searchLeads = async (options: TLeadSearchOptions): Promise<TLeadSearchResult> => {
+  const { db } = await getDatabase();
+  const collection = await getLeadsCollection(db);
+  return findLeadsPage(collection, options);
+};
+
+/**
+ * Cursor over every lead matching the filters, for exports that must not load all leads at once
+ */
+export const findLeadsForExport = async (options: TLeadSearchFilters & TLeadSortOptions): Promise<FindCursor<TStoredLead>> => {
+  const { sortBy, order, ...filters } = options;
+
+  const { db } = await getDatabase();
+  const collection = await getLeadsCollection(db);
+
+  return collection
+      .find(buildLeadFilter(filters), { projection: { _id: 0 } })
+      .sort(buildLeadSort(sortBy, order));
+};
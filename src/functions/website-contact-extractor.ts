@@ -0,0 +1,177 @@
+import {Page} from "puppeteer";
+import {DEFAULT_PAGE_LOAD_TIMEOUT} from "../utils/constants";
+import {gmapsSetupRequestInterception} from "./gmap-details-lead-extractor";
+import {measureDuration, pageLoadDurationSeconds} from "./common/metrics";
+import {createLogger} from "../utils/logger";
+
+const logger = createLogger('website-contact-extractor');
+
+// Number of contact/about pages visited per website on top of the home page
+const MAX_SUBPAGES_PER_WEBSITE = Number(process.env.MAX_ENRICHMENT_SUBPAGES) || 2;
+
+const CONTACT_PAGE_PATTERN = /contact|about|impressum|kontakt|reach-us|get-in-touch/i;
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}/gi;
+
+// Things that look like emails but are asset names or tracking addresses
+const IGNORED_EMAIL_PATTERN = /\.(png|jpe?g|gif|svg|webp|css|js)$|@(sentry|[a-z0-9-]*\.?wixpress|example)\.|^(u00|x00)/i;
+
+const SOCIAL_PROFILE_PATTERNS: { network: string; pattern: RegExp; ignore?: RegExp }[] = [
+  { network: 'linkedin', pattern: /^https?:\/\/([a-z]{2,3}\.)?linkedin\.com\/(company|in|school)\/[^/?#]+/i },
+  { network: 'facebook', pattern: /^https?:\/\/(www\.|m\.)?(facebook|fb)\.com\/[^?#]+/i, ignore: /\/(sharer|share|plugins|dialog|tr)(\.php)?\b/i },
+  { network: 'instagram', pattern: /^https?:\/\/(www\.)?instagram\.com\/[^/?#]+/i, ignore: /instagram\.com\/(p|reel|explore|accounts)\//i },
+  { network: 'x', pattern: /^https?:\/\/(www\.)?(twitter|x)\.com\/[^/?#]+/i, ignore: /(twitter|x)\.com\/(intent|share|home|hashtag)\b/i }
+];
+
+export type TWebsiteContacts = {
+  website: string;
+  emails: string[];
+  socialProfiles: string[];
+  visitedPages: string[];
+}
+
+type TRawPageContacts = {
+  text: string;
+  hrefs: string[];
+  cloudflareEmails: string[];
+}
+
+// Cloudflare email protection stores the address hex encoded and XORed with its first byte
+export const decodeCloudflareEmail = (encoded: string): string | null => {
+  if (!/^[0-9a-f]+$/i.test(encoded) || encoded.length < 4 || encoded.length % 2 !== 0) return null;
+
+  const key = parseInt(encoded.slice(0, 2), 16);
+  let email = '';
+  for (let i = 2; i < encoded.length; i += 2) {
+    email += String.fromCharCode(parseInt(encoded.slice(i, i + 2), 16) ^ key);
+  }
+  return email;
+};
+
+// Turns "name [at] domain [dot] com" and similar spellings back into a normal address
+export const deobfuscateEmailText = (text: string): string => text
+    .replace(/\s*[\[({<]\s*(at|@)\s*[\])}>]\s*/gi, '@')
+    .replace(/\s*[\[({<]\s*(dot|\.)\s*[\])}>]\s*/gi, '.')
+    .replace(/\s+at\s+(?=[a-z0-9-]+\s*(\.|\s+dot\s+)[a-z]{2,}\b)/gi, '@')
+    .replace(/(@[a-z0-9-]+)\s+dot\s+(?=[a-z]{2,}\b)/gi, '$1.');
+
+export const extractEmails = (text: string, hrefs: string[], cloudflareEmails: string[] = []): string[] => {
+  const candidates = [
+    ...hrefs
+        .filter(href => href.toLowerCase().startsWith('mailto:'))
+        .map(href => {
+          try {
+            return decodeURIComponent(href.slice('mailto:'.length).split('?')[0]);
+          } catch {
+            return href.slice('mailto:'.length).split('?')[0];
+          }
+        }),
+    ...cloudflareEmails.map(decodeCloudflareEmail).filter((email): email is string => !!email),
+    ...(deobfuscateEmailText(text).match(EMAIL_PATTERN) ?? [])
+  ];
+
+  const emails = new Set<string>();
+  candidates.forEach(candidate => {
+    candidate.split(',').forEach(part => {
+      const email = part.trim().toLowerCase().replace(/^\.+|\.+$/g, '');
+      if (email.match(EMAIL_PATTERN)?.[0] === email && !IGNORED_EMAIL_PATTERN.test(email)) {
+        emails.add(email);
+      }
+    });
+  });
+
+  return [...emails];
+};
+
+export const extractSocialProfiles = (hrefs: string[]): string[] => {
+  const profiles = new Set<string>();
+
+  hrefs.forEach(href => {
+    for (const { pattern, ignore } of SOCIAL_PROFILE_PATTERNS) {
+      const match = href.match(pattern)?.[0];
+      if (!match || ignore?.test(href)) continue;
+
+      profiles.add(match.replace(/^http:/i, 'https:').replace(/\/+$/, ''));
+      break;
+    }
+  });
+
+  return [...profiles];
+};
+
+const readPageContacts = async (page: Page): Promise<TRawPageContacts> => {
+  return page.evaluate(() => ({
+    text: document.body?.innerText ?? '',
+    hrefs: Array.from(document.querySelectorAll('a[href]')).map(anchor => (anchor as HTMLAnchorElement).href),
+    cloudflareEmails: Array.from(document.querySelectorAll('[data-cfemail]')).map(element => element.getAttribute('data-cfemail') ?? '')
+  }));
+};
+
+// Same-site links whose address or label suggests contact details live there
+const findContactPageUrls = async (page: Page, websiteUrl: string): Promise<string[]> => {
+  const host = new URL(websiteUrl).hostname.replace(/^www\./, '');
+
+  const links = await page.evaluate(() =>
+      Array.from(document.querySelectorAll('a[href]')).map(anchor => ({
+        href: (anchor as HTMLAnchorElement).href,
+        label: anchor.textContent ?? ''
+      }))
+  );
+
+  const urls = new Set<string>();
+  links.forEach(({ href, label }) => {
+    try {
+      const url = new URL(href);
+      if (url.hostname.replace(/^www\./, '') !== host) return;
+      if (!CONTACT_PAGE_PATTERN.test(url.pathname) && !CONTACT_PAGE_PATTERN.test(label)) return;
+
+      url.hash = '';
+      urls.add(url.toString());
+    } catch {
+      // Not a navigable url
+    }
+  });
+
+  return [...urls].slice(0, MAX_SUBPAGES_PER_WEBSITE);
+};
+
+/**
+ * Visits a business website's home page plus its contact and about pages,
+ * collecting email addresses and social profile links from all of them.
+ */
+export const extractWebsiteContacts = async (url: string, page: Page, signal?: AbortSignal): Promise<TWebsiteContacts> => {
+  await gmapsSetupRequestInterception(page);
+  await measureDuration(pageLoadDurationSeconds, 'website', () => page.goto(url, { waitUntil: "domcontentloaded", timeout: DEFAULT_PAGE_LOAD_TIMEOUT }));
+
+  const visitedPages = [page.url()];
+  const pageContacts = [await readPageContacts(page)];
+
+  const contactPageUrls = await findContactPageUrls(page, page.url());
+
+  for (const contactPageUrl of contactPageUrls) {
+    // Keep what the pages visited so far gave us instead of logging a failure for every remaining one
+    if (signal?.aborted) break;
+
+    try {
+      await page.goto(contactPageUrl, { waitUntil: "domcontentloaded", timeout: DEFAULT_PAGE_LOAD_TIMEOUT });
+      visitedPages.push(page.url());
+      pageContacts.push(await readPageContacts(page));
+    } catch (subpageError) {
+      // The home page already gave us something, a broken contact page should not discard it
+      logger.warn('Could not load contact page', { contactPageUrl, error: subpageError });
+    }
+  }
+
+  const hrefs = pageContacts.flatMap(contacts => contacts.hrefs);
+
+  return {
+    website: url,
+    emails: extractEmails(
+        pageContacts.map(contacts => contacts.text).join('\n'),
+        hrefs,
+        pageContacts.flatMap(contacts => contacts.cloudflareEmails)
+    ),
+    socialProfiles: extractSocialProfiles(hrefs),
+    visitedPages
+  };
+};
@@ -3,10 +3,13 @@ import cors from "cors";
 import helmet from "helmet";
 import rateLimit from "express-rate-limit";
 import dotenv from "dotenv";
-import morgan from "morgan";
+import { randomUUID } from "crypto";
+import { createLogger, withLogContext } from "./utils/logger.js";
 
 dotenv.config();
 
+const logger = createLogger('server');
+
 const app = express();
 
 // ===================
@@ -22,7 +25,7 @@ app.use(cors({
   origin: process.env.ALLOWED_ORIGINS
       ? process.env.ALLOWED_ORIGINS.split(",")
       : "*",
-  methods: ["GET", "POST", "PUT", "DELETE"],
+  methods: ["GET", "POST", "PUT", "PATCH", "DELETE"],
 }));
 
 // ===================
@@ -33,7 +36,19 @@ app.use(express.json({ limit: "1mb" })); // limit to avoid abuse
 // ===================
 // 4️⃣ Request Logging
 // ===================
-app.use(morgan(process.env.NODE_ENV === "production" ? "combined" : "dev"));
+// Every line logged while handling a request carries its id, a caller's own X-Request-Id is kept
+app.use((req, res, next) => {
+  const incomingId = req.get("X-Request-Id");
+  const requestId = incomingId && /^[\w.-]{1,128}$/.test(incomingId) ? incomingId : randomUUID();
+  const startTime = Date.now();
+
+  res.set("X-Request-Id", requestId);
+  res.on("finish", () => {
+    logger.info("Request completed", { requestId, method: req.method, path: req.path, status: res.statusCode, durationMs: Date.now() - startTime });
+  });
+
+  withLogContext({ requestId }, next);
+});
 
 // ===================
 // 5️⃣ Rate Limiting
@@ -48,25 +63,36 @@ app.use(rateLimit({
 // ===================
 // 6️⃣ Health Check
 // ===================
-app.get("/v1/ping", (_, res) => {
-  res.json({ success: true, message: "Server is running" });
-});
+import { GET_CANARY_REPORTS, GET_HEALTH, PING, RUN_HEALTH_CANARY } from "./apis/HEALTH.js";
+import { requireAdminKey, requireApiKey, requireApiKeyQuota } from "./functions/api-keys.js";
+
+app.get("/v1/ping", PING);
+app.get("/v1/health", GET_HEALTH);
+app.get("/v1/health/canary/runs", requireAdminKey, GET_CANARY_REPORTS);
+app.post("/v1/health/canary/run", requireAdminKey, RUN_HEALTH_CANARY);
+
+// ===================
+// 6️⃣ Metrics
+// ===================
+import { GET_METRICS } from "./apis/METRICS.js";
+
+app.get("/metrics", GET_METRICS);
 
 // ===================
 // 6️⃣ Browser Test Endpoint
 // ===================
 app.get("/v1/test-browser", async (_, res) => {
   try {
-    console.log("🧪 Testing browser launch...");
+    logger.info("Testing browser launch");
     const { getBrowserOptions } = await import("./utils/browser.js");
     const browserOptions = await getBrowserOptions();
     
-    console.log("🔧 Browser options:", JSON.stringify(browserOptions, null, 2));
+    logger.debug("Browser options", { browserOptions });
     
     const puppeteer = await import("puppeteer");
     const browser = await puppeteer.default.launch(browserOptions);
     
-    console.log("✅ Browser launched successfully");
+    logger.info("Browser launched successfully");
     
     const page = await browser.newPage();
     await page.goto("https://www.google.com", { waitUntil: "networkidle2", timeout: 10000 });
@@ -81,7 +107,7 @@ app.get("/v1/test-browser", async (_, res) => {
       browserOptions: browserOptions
     });
   } catch (error) {
-    console.error("❌ Browser test failed:", error);
+    logger.error("Browser test failed", { error });
     res.status(500).json({ 
       success: false, 
       error: "Browser test failed",
@@ -93,16 +119,121 @@ app.get("/v1/test-browser", async (_, res) => {
 // ===================
 // 7️⃣ Routes
 // ===================
-import { GMAPS_SCRAPE } from "./apis/GMAPS_SCRAPE.js";
+import { CANCEL_GMAPS_SCRAPE, GMAPS_SCRAPE, GMAPS_SCRAPE_EVENTS, requireScrapeEventsAccess } from "./apis/GMAPS_SCRAPE.js";
 import { GMAPS_SEARCH_API_SCRAPE } from "./apis/GMAPS_SEARCH_API_SCRAPE.js";
+import { EXPORT_JOB_RESULTS, GET_JOB, GET_JOB_RESULTS } from "./apis/JOBS.js";
+import {
+  EXPORT_LEADS,
+  GET_LEAD_CHANGES,
+  GET_LEAD_HISTORY,
+  GET_LEAD_REVIEWS,
+  GET_LEAD_RUNS,
+  GET_LEADS,
+  ROUTE_LEADS
+} from "./apis/LEADS.js";
+import { CREATE_API_KEY, LIST_API_KEYS, REVOKE_API_KEY } from "./apis/API_KEYS.js";
+import { GET_USAGE } from "./apis/USAGE.js";
+import { GET_PROXY_HEALTH } from "./apis/PROXIES.js";
+import { ACTIVATE_EXTRACTION_PROFILE, CREATE_EXTRACTION_PROFILE, LIST_EXTRACTION_PROFILES } from "./apis/EXTRACTION_PROFILES.js";
+import {
+  CREATE_SCHEDULE,
+  DELETE_SCHEDULE,
+  GET_SCHEDULE,
+  GET_SCHEDULE_RUNS,
+  LIST_SCHEDULES,
+  RUN_SCHEDULE,
+  UPDATE_SCHEDULE
+} from "./apis/SCHEDULES.js";
+
+// A plain EventSource cannot send a key, the eventsUrl handed out with a scrape carries a token for its events instead
+app.get("/gmaps/scrape/:id/events", requireScrapeEventsAccess, GMAPS_SCRAPE_EVENTS);
+
+// Every Google Maps route costs browser time or Places API calls, so each one needs a key
+app.use("/gmaps", requireApiKey);
+
+app.post("/gmaps/scrape", requireApiKeyQuota, GMAPS_SCRAPE);
+app.post("/gmaps/scrape/:id/cancel", CANCEL_GMAPS_SCRAPE);
+app.post("/gmaps/search_scrape", requireApiKeyQuota, GMAPS_SEARCH_API_SCRAPE);
+
+// Jobs hold a key's results and can be cancelled, so they need the key that started them
+app.use("/jobs", requireApiKey);
 
-app.post("/gmaps/scrape", GMAPS_SCRAPE);
-app.post("/gmaps/search_scrape", GMAPS_SEARCH_API_SCRAPE);
+app.get("/jobs/:id", GET_JOB);
+app.get("/jobs/:id/results", GET_JOB_RESULTS);
+app.get("/jobs/:id/export", EXPORT_JOB_RESULTS);
+app.post("/jobs/:id/cancel", CANCEL_GMAPS_SCRAPE);
+
+app.get("/leads", GET_LEADS);
+app.get("/leads/export", EXPORT_LEADS);
+app.post("/leads/route", ROUTE_LEADS);
+app.get("/leads/runs", GET_LEAD_RUNS);
+app.get("/leads/changes", GET_LEAD_CHANGES);
+app.get("/leads/:placeId/history", GET_LEAD_HISTORY);
+app.get("/leads/:placeId/reviews", GET_LEAD_REVIEWS);
+
+// Schedules start scrapes on the key's behalf, so they need a key as well
+app.use("/schedules", requireApiKey);
+
+app.post("/schedules", CREATE_SCHEDULE);
+app.get("/schedules", LIST_SCHEDULES);
+app.get("/schedules/:id", GET_SCHEDULE);
+app.patch("/schedules/:id", UPDATE_SCHEDULE);
+app.delete("/schedules/:id", DELETE_SCHEDULE);
+app.get("/schedules/:id/runs", GET_SCHEDULE_RUNS);
+app.post("/schedules/:id/run", RUN_SCHEDULE);
+
+app.get("/usage", GET_USAGE);
+
+app.post("/api-keys", requireAdminKey, CREATE_API_KEY);
+app.get("/api-keys", requireAdminKey, LIST_API_KEYS);
+app.post("/api-keys/:id/revoke", requireAdminKey, REVOKE_API_KEY);
+
+app.get("/proxies", requireAdminKey, GET_PROXY_HEALTH);
+
+app.get("/extraction-profiles", requireAdminKey, LIST_EXTRACTION_PROFILES);
+app.post("/extraction-profiles", requireAdminKey, CREATE_EXTRACTION_PROFILE);
+app.post("/extraction-profiles/:version/activate", requireAdminKey, ACTIVATE_EXTRACTION_PROFILE);
 
 // ===================
 // 9️⃣ Start Server
 // ===================
 const PORT = process.env.PORT || 8100;
 app.listen(PORT, () => {
-  console.log(`🚀 Server running on port ${PORT} [${process.env.NODE_ENV}]`);
+  logger.info("Server running", { port: PORT, env: process.env.NODE_ENV });
+
+  // Jobs from a previous process can never finish, close them out so their status is truthful
+  import("./functions/scrape-jobs.js")
+      .then(({ failInterruptedScrapeJobs }) => failInterruptedScrapeJobs())
+      .catch(error => logger.error("Failed to clean up interrupted scrape jobs", { error }));
+
+  // Locks left by runs of a previous process would block their schedules until they expire
+  if (process.env.MONGODB_URI && process.env.SCHEDULER_ENABLED !== "false") {
+    import("./functions/scrape-schedules.js")
+        .then(async ({ releaseInterruptedScheduleRuns, startScheduler }) => {
+          await releaseInterruptedScheduleRuns();
+          startScheduler();
+        })
+        .catch(error => logger.error("Failed to start scheduler", { error }));
+  }
+
+  // The canary scrapes its targets on a schedule so markup changes show up before clients see 'N/A's
+  if (process.env.HEALTH_CANARY_ENABLED !== "false") {
+    import("./functions/scraper-health.js")
+        .then(({ getConfiguredCanaryTargets, hasCanaryTargets, startHealthCanary }) => {
+          if (hasCanaryTargets(getConfiguredCanaryTargets())) startHealthCanary();
+        })
+        .catch(error => logger.error("Failed to start health canary", { error }));
+  }
 });
+
+// Pooled browsers outlive requests, close them so no Chromium processes are orphaned on shutdown
+const shutdown = (signal: NodeJS.Signals) => {
+  logger.info("Closing browser pool", { signal });
+  import("./functions/common/browser-pool.js")
+      .then(({ closeBrowserPool }) => closeBrowserPool())
+      .catch(error => logger.error("Failed to close browser pool", { error }))
+      .finally(() => process.exit(0));
+};
+
+process.once("SIGTERM", shutdown);
+process.once("SIGINT", shutdown);
@@ -40,7 +40,17 @@ PORT=${PORT}
 NODE_ENV=${NODE_ENV}
 MAX_BROWSER_SESSIONS=${MAX_BROWSER_SESSIONS}
 MAX_PAGES_PER_BROWSER=${MAX_PAGES_PER_BROWSER}
+BROWSER_RECYCLE_AFTER_PAGES=${BROWSER_RECYCLE_AFTER_PAGES}
+BROWSER_MAX_MEMORY_MB=${BROWSER_MAX_MEMORY_MB}
 GOOGLE_MAPS_PLACES_API_KEY=${GOOGLE_MAPS_PLACES_API_KEY}
+MONGODB_URI=${MONGODB_URI}
+MONGODB_DB_NAME=${MONGODB_DB_NAME}
+ADMIN_API_KEY=${ADMIN_API_KEY}
+SCRAPE_PROXIES=${SCRAPE_PROXIES}
+METRICS_TOKEN=${METRICS_TOKEN}
+SCHEDULER_INSTANCE_ID=${SCHEDULER_INSTANCE_ID}
+LOG_LEVEL=${LOG_LEVEL}
+LOG_MODULE_LEVELS=${LOG_MODULE_LEVELS}
 EOF
 
 echo "✅ .env file created successfully!"
@@ -89,14 +89,74 @@ export const optimisedBrowserArgs = [
   '--disable-color-correct-rendering'
 ];
 
-export const getBrowserOptions = async (): Promise<LaunchOptions> => {
+// BROWSER_HEADLESS and CHROME_EXECUTABLE_PATH override the per-environment defaults, e.g. for CI test runs
+const getHeadlessMode = (isProduction: boolean): LaunchOptions['headless'] => {
+  switch (process.env.BROWSER_HEADLESS) {
+    case 'true':
+    case 'shell':
+      return 'shell';
+    case 'false':
+      return false;
+    default:
+      return isProduction ? 'shell' : false;
+  }
+};
+
+// Recent desktop Chrome on the common platforms, one is picked per browser so its pages look like one visitor
+const USER_AGENTS = [
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/130.0.0.0 Safari/537.36',
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/130.0.0.0 Safari/537.36',
+  'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36'
+];
+
+// Common desktop screens, all wide enough for the Maps results panel next to the map
+const VIEWPORTS = [
+  { width: 1920, height: 1080 },
+  { width: 1536, height: 864 },
+  { width: 1440, height: 900 },
+  { width: 1366, height: 768 },
+  { width: 1280, height: 800 }
+];
+
+const ACCEPT_LANGUAGES = [
+  'en-US,en;q=0.9',
+  'en-GB,en;q=0.9',
+  'en-IN,en;q=0.9',
+  'en-US,en;q=0.8'
+];
+
+// How one pooled browser presents itself, every page it opens keeps the same identity
+export type TBrowserIdentity = {
+  userAgent: string;
+  viewport: { width: number; height: number };
+  acceptLanguage: string;
+  // Proxy server Chrome connects through, credentials are handled by a local forwarder
+  proxyServer?: string;
+}
+
+const pickRandom = <T>(values: T[]): T => values[Math.floor(Math.random() * values.length)];
+
+export const createBrowserIdentity = (proxyServer?: string): TBrowserIdentity => ({
+  userAgent: pickRandom(USER_AGENTS),
+  viewport: pickRandom(VIEWPORTS),
+  acceptLanguage: pickRandom(ACCEPT_LANGUAGES),
+  ...(proxyServer && { proxyServer })
+});
+
+export const getBrowserOptions = async (identity?: TBrowserIdentity): Promise<LaunchOptions> => {
   const isProduction = process.env.NODE_ENV === 'production';
 
   return {
-    headless: isProduction ? 'shell' : false,
-    defaultViewport: null,
-      executablePath: isProduction ? '/usr/bin/chromium-browser' : undefined,
-    args: [...optimisedBrowserArgs],
+    headless: getHeadlessMode(isProduction),
+    defaultViewport: identity?.viewport ?? null,
+      executablePath: process.env.CHROME_EXECUTABLE_PATH || (isProduction ? '/usr/bin/chromium-browser' : undefined),
+    args: [
+      ...optimisedBrowserArgs,
+      ...(identity ? [`--window-size=${identity.viewport.width},${identity.viewport.height}`, `--lang=${identity.acceptLanguage.split(',')[0]}`] : []),
+      ...(identity?.proxyServer ? [`--proxy-server=${identity.proxyServer}`] : [])
+    ],
     timeout: 60000
   }
 
@@ -1,7 +1,21 @@
 export const GOOGLE_MAPS_BASE_URL = 'https://www.google.com/maps/search/';
 
-export const GOOGLE_MAPS_TEXTSEARCH_API_URL = 'https://places.googleapis.com/v1/places:searchText';
+// Overridable with GOOGLE_PLACES_API_BASE_URL, e.g. to point at a local stub
+export const GOOGLE_PLACES_API_BASE_URL = 'https://places.googleapis.com/v1';
+
+export const GOOGLE_MAPS_TEXTSEARCH_API_PATH = '/places:searchText';
 
 export const GOOGLE_MAPS_TEXT_FREE_FIELD_MASKS = 'places.id,places.name,places.attributions,nextPageToken';
 
-export const DEFAULT_PAGE_LOAD_TIMEOUT = 15000;
\ No newline at end of file
+const GOOGLE_MAPS_TEXT_PRO_FIELD_MASKS = `${GOOGLE_MAPS_TEXT_FREE_FIELD_MASKS},places.displayName,places.formattedAddress,places.location,places.plusCode,places.primaryTypeDisplayName,places.businessStatus,places.googleMapsUri`;
+
+const GOOGLE_MAPS_TEXT_ENTERPRISE_FIELD_MASKS = `${GOOGLE_MAPS_TEXT_PRO_FIELD_MASKS},places.nationalPhoneNumber,places.internationalPhoneNumber,places.websiteUri,places.rating,places.userRatingCount,places.priceLevel`;
+
+// Text Search is billed by the most expensive field requested, each preset adds the next tier's fields
+export const GOOGLE_MAPS_TEXT_FIELD_MASK_PRESETS = {
+  ids: GOOGLE_MAPS_TEXT_FREE_FIELD_MASKS,
+  pro: GOOGLE_MAPS_TEXT_PRO_FIELD_MASKS,
+  enterprise: GOOGLE_MAPS_TEXT_ENTERPRISE_FIELD_MASKS
+} as const;
+
+export const DEFAULT_PAGE_LOAD_TIMEOUT = 15000;
@@ -0,0 +1,235 @@
+import {Page} from "puppeteer";
+import {DEFAULT_PAGE_LOAD_TIMEOUT} from "./constants";
+
+// Languages the Maps page labels below are known for, Maps is asked for the page in this language through hl
+export const GMAPS_LANGUAGES = ['en', 'es', 'de', 'fr', 'hi'] as const;
+
+export type TGmapsLanguage = typeof GMAPS_LANGUAGES[number];
+
+export type TMapsLocale = {
+  // Defaults to English
+  language?: TGmapsLanguage;
+  // Two letter country code Maps ranks and formats results for, sent as gl
+  region?: string;
+}
+
+export type TRelativeDateUnit = 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year';
+
+export type TGmapsLabels = {
+  // Joins query and location in a search, "coffee in Pune"
+  searchIn: string;
+  // Start of the place panel's aria-labels, "Phone: 020 1234 5000", the colon is left out as its spacing varies
+  phone: string;
+  website: string;
+  address: string;
+  plusCode: string;
+  price: string;
+  // Word of the review count's aria-label, "1,234 reviews"
+  reviews: string;
+  // aria-labels that name the place or query, {name} stands for the name
+  informationFor: string;
+  reviewsFor: string;
+  resultsFor: string;
+  sortReviews: string;
+  endOfList: string;
+  // aria-label of the banner closed places show, and what its text says for each status
+  notice: string;
+  permanentlyClosed: RegExp;
+  temporarilyClosed: RegExp;
+  // Relative review dates like "3 months ago", amount is a number or a word meaning one
+  relativeDate: RegExp;
+  relativeDateUnits: Record<string, TRelativeDateUnit>;
+  today: string[];
+  yesterday: string[];
+}
+
+export const GMAPS_LABELS: Record<TGmapsLanguage, TGmapsLabels> = {
+  en: {
+    searchIn: 'in',
+    phone: 'Phone',
+    website: 'Website',
+    address: 'Address',
+    plusCode: 'Plus code',
+    price: 'Price',
+    reviews: 'reviews',
+    informationFor: 'Information for {name}',
+    reviewsFor: 'Reviews for {name}',
+    resultsFor: 'Results for {name}',
+    sortReviews: 'Sort reviews',
+    endOfList: "You've reached the end of the list.",
+    notice: 'Notice',
+    permanentlyClosed: /permanently closed/i,
+    temporarilyClosed: /temporarily closed/i,
+    relativeDate: /^(?:edited\s+)?(?<amount>a|an|one|\d+)\s+(?<unit>\S+)\s+ago$/,
+    relativeDateUnits: {
+      minute: 'minute', minutes: 'minute', hour: 'hour', hours: 'hour', day: 'day', days: 'day',
+      week: 'week', weeks: 'week', month: 'month', months: 'month', year: 'year', years: 'year'
+    },
+    today: ['just now', 'today'],
+    yesterday: ['yesterday']
+  },
+  es: {
+    searchIn: 'en',
+    phone: 'Teléfono',
+    website: 'Sitio web',
+    address: 'Dirección',
+    plusCode: 'Plus Code',
+    price: 'Precio',
+    reviews: 'reseñas',
+    informationFor: 'Información de {name}',
+    reviewsFor: 'Reseñas de {name}',
+    resultsFor: 'Resultados de {name}',
+    sortReviews: 'Ordenar reseñas',
+    endOfList: 'Has llegado al final de la lista.',
+    notice: 'Aviso',
+    permanentlyClosed: /cerrado permanentemente/i,
+    temporarilyClosed: /cerrado temporalmente/i,
+    relativeDate: /^(?:editado\s+)?hace\s+(?<amount>un|una|\d+)\s+(?<unit>\S+)$/,
+    relativeDateUnits: {
+      minuto: 'minute', minutos: 'minute', hora: 'hour', horas: 'hour', 'día': 'day', 'días': 'day',
+      semana: 'week', semanas: 'week', mes: 'month', meses: 'month', 'año': 'year', 'años': 'year'
+    },
+    today: ['justo ahora', 'hoy'],
+    yesterday: ['ayer']
+  },
+  de: {
+    searchIn: 'in',
+    phone: 'Telefon',
+    website: 'Website',
+    address: 'Adresse',
+    plusCode: 'Plus Code',
+    price: 'Preis',
+    reviews: 'Rezensionen',
+    informationFor: 'Informationen für {name}',
+    reviewsFor: 'Rezensionen für {name}',
+    resultsFor: 'Ergebnisse für {name}',
+    sortReviews: 'Rezensionen sortieren',
+    endOfList: 'Das Ende der Liste ist erreicht.',
+    notice: 'Hinweis',
+    permanentlyClosed: /dauerhaft geschlossen/i,
+    temporarilyClosed: /vorübergehend geschlossen/i,
+    relativeDate: /^(?:bearbeitet:?\s+)?vor\s+(?<amount>einer|einem|\d+)\s+(?<unit>\S+)$/,
+    relativeDateUnits: {
+      minute: 'minute', minuten: 'minute', stunde: 'hour', stunden: 'hour', tag: 'day', tagen: 'day',
+      woche: 'week', wochen: 'week', monat: 'month', monaten: 'month', jahr: 'year', jahren: 'year'
+    },
+    today: ['gerade eben', 'heute'],
+    yesterday: ['gestern']
+  },
+  fr: {
+    searchIn: 'à',
+    phone: 'Téléphone',
+    website: 'Site Web',
+    address: 'Adresse',
+    plusCode: 'Plus code',
+    price: 'Prix',
+    reviews: 'avis',
+    informationFor: 'Informations pour {name}',
+    reviewsFor: 'Avis sur {name}',
+    resultsFor: 'Résultats pour {name}',
+    sortReviews: 'Trier les avis',
+    endOfList: 'Vous êtes arrivé à la fin de la liste.',
+    notice: 'Avis important',
+    permanentlyClosed: /définitivement fermé/i,
+    temporarilyClosed: /temporairement fermé/i,
+    relativeDate: /^(?:modifié\s+)?il y a\s+(?<amount>un|une|\d+)\s+(?<unit>\S+)$/,
+    relativeDateUnits: {
+      minute: 'minute', minutes: 'minute', heure: 'hour', heures: 'hour', jour: 'day', jours: 'day',
+      semaine: 'week', semaines: 'week', mois: 'month', an: 'year', ans: 'year'
+    },
+    today: ["à l'instant", "aujourd'hui"],
+    yesterday: ['hier']
+  },
+  hi: {
+    // Queries and places are usually written in English, so the search reads as English too
+    searchIn: 'in',
+    phone: 'फ़ोन',
+    website: 'वेबसाइट',
+    address: 'पता',
+    plusCode: 'प्लस कोड',
+    price: 'कीमत',
+    reviews: 'समीक्षाएं',
+    informationFor: '{name} के बारे में जानकारी',
+    reviewsFor: '{name} की समीक्षाएं',
+    resultsFor: '{name} के लिए नतीजे',
+    sortReviews: 'समीक्षाएं क्रम से लगाएं',
+    endOfList: 'आप सूची के आखिर में पहुंच गए हैं.',
+    notice: 'सूचना',
+    permanentlyClosed: /हमेशा के लिए बंद/,
+    temporarilyClosed: /कुछ समय के लिए बंद/,
+    relativeDate: /^(?:बदलाव किया गया\s+)?(?<amount>एक|\d+)\s+(?<unit>\S+)\s+पहले$/,
+    relativeDateUnits: {
+      'मिनट': 'minute', 'घंटा': 'hour', 'घंटे': 'hour', 'दिन': 'day', 'हफ़्ता': 'week', 'हफ़्ते': 'week',
+      'सप्ताह': 'week', 'महीना': 'month', 'महीने': 'month', 'साल': 'year', 'वर्ष': 'year'
+    },
+    today: ['अभी', 'आज'],
+    yesterday: ['कल']
+  }
+};
+
+export const getGmapsLabels = (locale: TMapsLocale = {}): TGmapsLabels => GMAPS_LABELS[locale.language ?? 'en'];
+
+// CSS attribute selector matching an aria-label template, {name} may be anything
+export const ariaLabelSelector = (template: string) => {
+  const [prefix, suffix = ''] = template.split('{name}');
+  return [prefix && `[aria-label^="${prefix}"]`, suffix && `[aria-label$="${suffix}"]`].join('');
+};
+
+// The part of an aria-label that stands where the template has {name}, null when the label does not match
+export const readAriaLabelName = (label: string | null | undefined, template: string): string | null => {
+  const [prefix, suffix = ''] = template.split('{name}');
+  if (!label || !label.startsWith(prefix) || !label.endsWith(suffix) || label.length < prefix.length + suffix.length) return null;
+
+  return label.slice(prefix.length, label.length - suffix.length);
+};
+
+// "Phone: 020 1234" or "Téléphone : 020 1234" without the label, values without the label are kept as they are
+export const stripLabelPrefix = (value: string | null | undefined, label: string): string | null => {
+  if (!value) return null;
+  if (!value.startsWith(label)) return value.trim();
+
+  return value.slice(label.length).replace(/^\s*:\s*/, '').trim();
+};
+
+/**
+ * Sets hl and gl on a Maps url so the page comes back in the locale whatever the proxy's country,
+ * English is asked for explicitly too.
+ */
+export const localizeMapsUrl = (url: string, locale: TMapsLocale = {}) => {
+  const localized = new URL(url);
+  localized.searchParams.set('hl', locale.language ?? 'en');
+  if (locale.region) localized.searchParams.set('gl', locale.region);
+
+  return localized.toString();
+};
+
+// Place urls are stored without hl and gl so the same place scraped in different languages stays one url
+export const removeLocaleParams = (url: string) => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+  if (!parsed.searchParams.has('hl') && !parsed.searchParams.has('gl')) return url;
+
+  parsed.searchParams.delete('hl');
+  parsed.searchParams.delete('gl');
+  return parsed.toString();
+};
+
+// English without a region keeps the Accept-Language the browser was launched with
+export const getAcceptLanguage = (locale: TMapsLocale = {}): string | null => {
+  const language = locale.language ?? 'en';
+  if (language === 'en' && !locale.region) return null;
+
+  return locale.region ? `${language}-${locale.region.toUpperCase()},${language};q=0.9` : language;
+};
+
+// Opens a Maps page in the locale, through the url and the Accept-Language header of this page only
+export const gotoLocalizedMapsPage = async (page: Page, url: string, locale: TMapsLocale = {}) => {
+  const acceptLanguage = getAcceptLanguage(locale);
+  if (acceptLanguage) await page.setExtraHTTPHeaders({ 'Accept-Language': acceptLanguage });
+
+  return page.goto(localizeMapsUrl(url, locale), { waitUntil: "networkidle2", timeout: DEFAULT_PAGE_LOAD_TIMEOUT });
+};
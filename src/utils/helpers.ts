@@ -1,28 +1,26 @@
 import {GmapsScrape} from "../apis/GMAPS_SCRAPE";
 import {GOOGLE_MAPS_BASE_URL} from "./constants";
+import {getGmapsLabels, localizeMapsUrl, TMapsLocale} from "./gmaps-locales";
+import {createLogger} from "./logger";
 
-function createGoogleMapsUrl(query: string, city: string, state: string, country: string) {
-  console.log(`🔗 Creating URL for: "${query}" in "${city}, ${state}, ${country}"`);
-  
+const logger = createLogger('helpers');
+
+function createGoogleMapsUrl(query: string, city: string, state: string, country: string, locale: TMapsLocale) {
   // Clean and format the query
   const formattedQuery = query.toLowerCase().trim().replace(/\s+/g, '+');
-  console.log(`🔗 Formatted query: "${formattedQuery}"`);
 
   // Create location string: City, State, Country
   const location = `${city}, ${state}, ${country}`;
   const formattedLocation = location.replace(/\s+/g, '+').replace(/,/g, ',');
-  console.log(`🔗 Formatted location: "${formattedLocation}"`);
 
   // Construct the final URL
-  const searchTerm = `${formattedQuery}+in+${formattedLocation}`;
-  console.log(`🔗 Search term: "${searchTerm}"`);
+  const searchTerm = `${formattedQuery}+${getGmapsLabels(locale).searchIn}+${formattedLocation}`;
 
   // URL encode the entire search term
   const encodedSearchTerm = encodeURIComponent(searchTerm).replace(/%2B/g, '+');
-  console.log(`🔗 Encoded search term: "${encodedSearchTerm}"`);
 
-  const finalUrl = `${GOOGLE_MAPS_BASE_URL}${encodedSearchTerm}`;
-  console.log(`🔗 Final URL: "${finalUrl}"`);
+  const finalUrl = localizeMapsUrl(`${GOOGLE_MAPS_BASE_URL}${encodedSearchTerm}`, locale);
+  logger.debug('Created search url', { query, city, state, country, url: finalUrl });
 
   return finalUrl;
 }
@@ -35,12 +33,12 @@ export type TGoogleMapsUrls = {
   url: string;
 };
 
-export function generateGoogleMapsUrls(data: GmapsScrape) {
+export function generateGoogleMapsSearchTargets(data: Pick<GmapsScrape, 'query' | 'country' | 'states' | 'language' | 'region'>) {
   const urls: TGoogleMapsUrls[] = [];
 
   data.states.forEach(state => {
     state.cities.forEach(city => {
-      const url = createGoogleMapsUrl(data.query, city, state.name, data.country);
+      const url = createGoogleMapsUrl(data.query, city, state.name, data.country, { language: data.language, region: data.region });
       urls.push({
         city: city,
         state: state.name,
@@ -51,5 +49,83 @@ export function generateGoogleMapsUrls(data: GmapsScrape) {
     });
   });
 
-  return urls.map(url => url.url);
-}
\ No newline at end of file
+  return urls;
+}
+
+export function generateGoogleMapsUrls(data: Pick<GmapsScrape, 'query' | 'country' | 'states' | 'language' | 'region'>) {
+  return generateGoogleMapsSearchTargets(data).map(url => url.url);
+}
+
+/**
+ * Extracts a stable identifier for a place from its Google Maps url.
+ * Prefers the hex feature id, which every /maps/place/ url carries, then the ChIJ place id, then the numeric cid.
+ */
+export function extractGooglePlaceId(gmapsUrl: string | null | undefined): string | null {
+  const { featureId, googlePlaceId, cid } = parseGmapsUrlDetails(gmapsUrl);
+
+  if (featureId) return featureId;
+  if (googlePlaceId) return googlePlaceId;
+  if (cid) return `cid:${cid}`;
+
+  return null;
+}
+
+// Ratings are scraped as text like "4.5" or "4,5", anything unparsable becomes null
+export function parseLeadRating(rating: string | null | undefined): number | null {
+  if (!rating || rating === 'N/A') return null;
+
+  const value = Number.parseFloat(rating.replace(',', '.'));
+  return Number.isFinite(value) ? value : null;
+}
+
+// Review counts are scraped as text like "1,234" or "(87)", anything without digits becomes null
+export function parseLeadReviewCount(numberOfReviews: string | null | undefined): number | null {
+  if (!numberOfReviews || numberOfReviews === 'N/A') return null;
+
+  const digits = numberOfReviews.replace(/\D/g, '');
+  return digits ? Number(digits) : null;
+}
+
+export type TGmapsUrlDetails = {
+  featureId: string | null;
+  googlePlaceId: string | null;
+  cid: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+/**
+ * Reads the identifiers and coordinates Google encodes into a place url.
+ * The pin position (!3d/!4d) is preferred over the map viewport (@lat,lng) which may be off-center.
+ */
+export function parseGmapsUrlDetails(gmapsUrl: string | null | undefined): TGmapsUrlDetails {
+  const details: TGmapsUrlDetails = { featureId: null, googlePlaceId: null, cid: null, latitude: null, longitude: null };
+  if (!gmapsUrl || gmapsUrl === 'N/A') return details;
+
+  let decodedUrl = gmapsUrl;
+  try {
+    decodedUrl = decodeURIComponent(gmapsUrl);
+  } catch {
+    // Malformed escape sequences, match against the raw url instead
+  }
+
+  const featureId = decodedUrl.match(/!1s(0x[0-9a-f]+:0x[0-9a-f]+)/i)?.[1]?.toLowerCase();
+  if (featureId) {
+    details.featureId = featureId;
+    // The second half of the feature id is the cid in hex
+    details.cid = BigInt(featureId.split(':')[1]).toString();
+  }
+
+  details.googlePlaceId = decodedUrl.match(/!19s(ChIJ[\w-]+)/)?.[1] ?? null;
+  details.cid = details.cid ?? decodedUrl.match(/[?&]cid=(\d+)/)?.[1] ?? null;
+
+  const pin = decodedUrl.match(/!3d(-?\d+(?:\.\d+)?)!4d(-?\d+(?:\.\d+)?)/);
+  const viewport = decodedUrl.match(/@(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)/);
+  const coordinates = pin ?? viewport;
+  if (coordinates) {
+    details.latitude = Number(coordinates[1]);
+    details.longitude = Number(coordinates[2]);
+  }
+
+  return details;
+}
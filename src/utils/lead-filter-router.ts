@@ -1,7 +1,17 @@
-type LeadInfo = {
+import fs from "fs";
+import z from "zod";
+import { config } from "dotenv";
+import { createLogger } from "./logger";
+config();
+
+const logger = createLogger('lead-filter-router');
+
+export type LeadInfo = {
   email?: string | string[];
   phoneNumber?: string | string[];
   websiteUrl?: string | string[];
+  // Scraped leads call it website, both are accepted
+  website?: string | string[];
   socialProfiles?: string[];
 }
 
@@ -9,187 +19,230 @@ type LeadFilterProps = {
   leadInfo: LeadInfo;
 }
 
+const LeadRoutingConditionSchema = z.object({
+  email: z.boolean().optional(),
+  phone: z.boolean().optional(),
+  website: z.boolean().optional(),
+  social: z.boolean().optional()
+});
+
+export const LeadRoutingRuleSchema = z.object({
+  scenario: z.string().min(1),
+  primaryAction: z.string(),
+  system: z.string(),
+  description: z.string().optional(),
+  recursiveSystem: z.union([z.string(), z.array(z.string())]).optional(),
+  // Channels that must be present (true) or absent (false), channels left out are not checked
+  when: LeadRoutingConditionSchema.default({})
+});
+
+export const LeadRoutingRulesSchema = z.array(LeadRoutingRuleSchema).min(1);
+
+export type TLeadRoutingRule = z.infer<typeof LeadRoutingRuleSchema>;
+
+export type TLeadRoutingDecision = Omit<TLeadRoutingRule, 'when'>;
+
+type TLeadChannels = Required<z.infer<typeof LeadRoutingConditionSchema>>;
+
 /**
- * Handles lead routing based on available contact information
- * Returns an object with routing information and recommended action
+ * Rules are checked top to bottom and the first match wins, so more specific combinations come first.
+ * The last rule has no conditions and catches every lead.
  */
-function leadFilter(props: LeadFilterProps): {
-  scenario: string;
-  primaryAction: string;
-  system: string;
-  description?: string;
-  recursiveSystem?: string | string[];
-} {
-  const { leadInfo } = props;
-
-  // Extract and normalize information
-  const hasEmail = leadInfo.email && (typeof leadInfo.email === 'string' ? leadInfo.email.trim() !== '' : leadInfo.email.length > 0);
-  const hasPhone = leadInfo.phoneNumber && (typeof leadInfo.phoneNumber === 'string' ? leadInfo.phoneNumber.trim() !== '' : leadInfo.phoneNumber.length > 0);
-  const hasWebsite = leadInfo.websiteUrl && (typeof leadInfo.websiteUrl === 'string' ? leadInfo.websiteUrl.trim() !== '' : leadInfo.websiteUrl.length > 0);
-  const hasSocial = leadInfo.socialProfiles && leadInfo.socialProfiles.length > 0;
-
-  // Handle all possible combinations
-
-  // Case: All information available
-  if (hasEmail && hasPhone && hasWebsite && hasSocial) {
-    return {
-      scenario: "allContactInfo",
-      primaryAction: "Orchestrated multi-channel approach",
-      system: "Manual High-Value Outreach"
-    };
+export const DEFAULT_LEAD_ROUTING_RULES: TLeadRoutingRule[] = [
+  {
+    scenario: "allContactInfo",
+    primaryAction: "Orchestrated multi-channel approach",
+    system: "Manual High-Value Outreach",
+    when: { email: true, phone: true, website: true, social: true }
+  },
+  {
+    scenario: "emailPhoneWebsite",
+    primaryAction: "Multi-touch sequence with website insights",
+    system: "Combined Email + Call System",
+    when: { email: true, phone: true, website: true }
+  },
+  {
+    scenario: "emailPhoneSocial",
+    primaryAction: "Multi-touch sequence with social engagement",
+    system: "Combined Email + Call + Social System",
+    when: { email: true, phone: true, social: true }
+  },
+  {
+    scenario: "emailWebsiteSocial",
+    primaryAction: "Personalized email with website and social insights",
+    system: "Cold Email System with Social Engagement",
+    when: { email: true, website: true, social: true }
+  },
+  {
+    scenario: "emailAndPhone",
+    primaryAction: "Multi-touch sequence",
+    system: "Combined Email + Call System",
+    recursiveSystem: [
+      "professional email -> website -> socials -> PC-DM",
+      "normal email -> google search -> PC-ES"
+    ],
+    when: { email: true, phone: true }
+  },
+  {
+    scenario: "emailAndWebsite",
+    primaryAction: "Personalized cold email with website insights",
+    system: "Cold Email System",
+    recursiveSystem: [
+      "website -> socials -> social stalk -> PC-DM",
+      "website -> email -> PC-ES",
+    ],
+    when: { email: true, website: true }
+  },
+  {
+    scenario: "emailAndSocial",
+    primaryAction: "Email with social engagement",
+    system: "Cold Email System with Social Support",
+    description: "email -> stalk and connect on social -> PC-DM",
+    recursiveSystem: [],
+    when: { email: true, social: true }
+  },
+  {
+    scenario: "emailOnly",
+    primaryAction: "Forward to cold email system",
+    system: "Cold Email System",
+    description: "email -> PC-ES",
+    recursiveSystem: [
+      "professional email -> website -> socials -> PC-DM",
+      "normal email -> google search -> PC-ES"
+    ],
+    when: { email: true }
+  },
+  {
+    scenario: "phoneWebsiteSocial",
+    primaryAction: "Informed call with social context",
+    system: "Cold Call System with Social Support",
+    when: { phone: true, website: true, social: true }
+  },
+  {
+    scenario: "phoneAndWebsite",
+    primaryAction: "Informed cold call",
+    system: "Cold Call System",
+    when: { phone: true, website: true }
+  },
+  {
+    scenario: "phoneAndSocial",
+    primaryAction: "Cold call with social context",
+    system: "Cold Call System with Social Support",
+    when: { phone: true, social: true }
+  },
+  {
+    scenario: "phoneOnly",
+    primaryAction: "Route to cold call system",
+    system: "Cold Call System",
+    when: { phone: true }
+  },
+  {
+    scenario: "websiteAndSocial",
+    primaryAction: "Social engagement with website insights",
+    system: "Cold DM System with Website Research",
+    when: { website: true, social: true }
+  },
+  {
+    scenario: "websiteOnly",
+    primaryAction: "Website research then find contact channels",
+    system: "Research System",
+    when: { website: true }
+  },
+  {
+    scenario: "socialProfilesOnly",
+    primaryAction: "Social engagement before direct outreach",
+    system: "Cold DM System",
+    when: { social: true }
+  },
+  {
+    scenario: "noContactInfo",
+    primaryAction: "Deprioritize or seek alternative sources",
+    system: "Research or Deprioritize",
+    when: {}
   }
+];
 
-  // Cases with Email + combinations
-  if (hasEmail) {
-    if (hasPhone && hasWebsite) {
-      return {
-        scenario: "emailPhoneWebsite",
-        primaryAction: "Multi-touch sequence with website insights",
-        system: "Combined Email + Call System"
-      };
-    }
+const RULES_PATH = process.env.LEAD_ROUTING_RULES_PATH;
 
-    if (hasPhone && hasSocial) {
-      return {
-        scenario: "emailPhoneSocial",
-        primaryAction: "Multi-touch sequence with social engagement",
-        system: "Combined Email + Call + Social System"
-      };
-    }
+let loadedRules: TLeadRoutingRule[] = DEFAULT_LEAD_ROUTING_RULES;
+let loadedRulesModifiedAt = 0;
+// leadFilter runs for every lead, a missing file is reported once until it shows up
+let rulesFileMissing = false;
 
-    if (hasWebsite && hasSocial) {
-      return {
-        scenario: "emailWebsiteSocial",
-        primaryAction: "Personalized email with website and social insights",
-        system: "Cold Email System with Social Engagement"
-      };
-    }
+/**
+ * Returns the active routing rules.
+ * When LEAD_ROUTING_RULES_PATH points at a JSON file it is re-read whenever it changes on disk,
+ * an invalid file keeps the last good rules in place and is only read again once it changes.
+ */
+export const getLeadRoutingRules = (): TLeadRoutingRule[] => {
+  if (!RULES_PATH) return loadedRules;
+
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(RULES_PATH).mtimeMs;
+  } catch (error) {
+    if (!rulesFileMissing) logger.error('Could not read lead routing rules, keeping previous rules', { path: RULES_PATH, error });
+    rulesFileMissing = true;
+    return loadedRules;
+  }
 
-    if (hasPhone) {
-      return {
-        scenario: "emailAndPhone",
-        primaryAction: "Multi-touch sequence",
-        system: "Combined Email + Call System",
-        recursiveSystem: [
-          "professional email -> website -> socials -> PC-DM",
-          "normal email -> google search -> PC-ES"
-        ]
-      };
-    }
+  rulesFileMissing = false;
+  if (mtimeMs === loadedRulesModifiedAt) return loadedRules;
+  // Recorded before parsing so a broken file is read and reported once per change
+  loadedRulesModifiedAt = mtimeMs;
 
-    // DONE
-    if (hasWebsite) {
-      return {
-        scenario: "emailAndWebsite",
-        primaryAction: "Personalized cold email with website insights",
-        system: "Cold Email System",
-        recursiveSystem: [
-          "website -> socials -> social stalk -> PC-DM",
-          "website -> email -> PC-ES",
-        ]
-      };
-    }
+  try {
+    const parsedRules = LeadRoutingRulesSchema.safeParse(JSON.parse(fs.readFileSync(RULES_PATH, 'utf8')));
 
-    // DONE
-    if (hasSocial) {
-      return {
-        scenario: "emailAndSocial",
-        primaryAction: "Email with social engagement",
-        system: "Cold Email System with Social Support",
-        description: "email -> stalk and connect on social -> PC-DM",
-        recursiveSystem: []
-      };
+    if (!parsedRules.success) {
+      logger.error('Invalid lead routing rules, keeping previous rules', { path: RULES_PATH, error: parsedRules.error.message });
+      return loadedRules;
     }
 
-    // DONE
-    return {
-      scenario: "emailOnly",
-      primaryAction: "Forward to cold email system",
-      system: "Cold Email System",
-      description: "email -> PC-ES",
-      recursiveSystem: [
-        "professional email -> website -> socials -> PC-DM",
-        "normal email -> google search -> PC-ES"
-      ]
-    };
+    loadedRules = parsedRules.data;
+    logger.info('Loaded lead routing rules', { path: RULES_PATH, count: loadedRules.length });
+  } catch (error) {
+    logger.error('Could not read lead routing rules, keeping previous rules', { path: RULES_PATH, error });
   }
 
-  // Cases with Phone + combinations (without email)
-  if (hasPhone) {
-    if (hasWebsite && hasSocial) {
-      return {
-        scenario: "phoneWebsiteSocial",
-        primaryAction: "Informed call with social context",
-        system: "Cold Call System with Social Support"
-      };
-    }
-
-    if (hasWebsite) {
-      return {
-        scenario: "phoneAndWebsite",
-        primaryAction: "Informed cold call",
-        system: "Cold Call System"
-      };
-    }
+  return loadedRules;
+};
 
-    if (hasSocial) {
-      return {
-        scenario: "phoneAndSocial",
-        primaryAction: "Cold call with social context",
-        system: "Cold Call System with Social Support"
-      };
-    }
+const hasContactValue = (value?: string | string[]) => {
+  if (!value) return false;
+  if (typeof value === 'string') return value.trim() !== '' && value !== 'N/A';
+  return value.some(item => item.trim() !== '' && item !== 'N/A');
+};
 
-    return {
-      scenario: "phoneOnly",
-      primaryAction: "Route to cold call system",
-      system: "Cold Call System"
-    };
-  }
+const getLeadChannels = (leadInfo: LeadInfo): TLeadChannels => ({
+  email: hasContactValue(leadInfo.email),
+  phone: hasContactValue(leadInfo.phoneNumber),
+  website: hasContactValue(leadInfo.websiteUrl) || hasContactValue(leadInfo.website),
+  social: hasContactValue(leadInfo.socialProfiles)
+});
 
-  // Cases with Website + combinations (without email or phone)
-  if (hasWebsite) {
-    if (hasSocial) {
-      return {
-        scenario: "websiteAndSocial",
-        primaryAction: "Social engagement with website insights",
-        system: "Cold DM System with Website Research"
-      };
-    }
+const matchesRule = (rule: TLeadRoutingRule, channels: TLeadChannels) => {
+  return (Object.keys(rule.when) as (keyof TLeadChannels)[])
+      .every(channel => rule.when[channel] === undefined || rule.when[channel] === channels[channel]);
+};
 
-    return {
-      scenario: "websiteOnly",
-      primaryAction: "Website research then find contact channels",
-      system: "Research System"
-    };
-  }
+/**
+ * Handles lead routing based on available contact information
+ * Returns an object with routing information and recommended action
+ */
+export function leadFilter(props: LeadFilterProps, rules: TLeadRoutingRule[] = getLeadRoutingRules()): TLeadRoutingDecision {
+  const channels = getLeadChannels(props.leadInfo);
+  const matchedRule = rules.find(rule => matchesRule(rule, channels));
 
-  // Case: Social only
-  if (hasSocial) {
+  // Custom rule sets may not end with a catch-all
+  if (!matchedRule) {
     return {
-      scenario: "socialProfilesOnly",
-      primaryAction: "Social engagement before direct outreach",
-      system: "Cold DM System"
+      scenario: "unmatched",
+      primaryAction: "Review routing rules",
+      system: "Research or Deprioritize"
     };
   }
 
-  // Case: No information
-  return {
-    scenario: "noContactInfo",
-    primaryAction: "Deprioritize or seek alternative sources",
-    system: "Research or Deprioritize"
-  };
+  const { when, ...decision } = matchedRule;
+  return decision;
 }
-
-// Example usage:
-const exampleLead = {
-  leadInfo: {
-    email: "contact@example.com",
-    phoneNumber: "+1234567890",
-    websiteUrl: "https://example.com",
-    socialProfiles: ["https://linkedin.com/company/example"]
-  }
-};
-
-const routingDecision = leadFilter(exampleLead);
-console.log(routingDecision);
\ No newline at end of file
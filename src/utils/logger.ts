@@ -0,0 +1,82 @@
+import {AsyncLocalStorage} from "async_hooks";
+
+/**
+ * Leveled JSON logger, one line per entry.
+ * Every entry carries the correlation fields of the code it runs in (request, job, batch, browser, url),
+ * they are set once with withLogContext and picked up by everything awaited inside it.
+ */
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
+export type TLogLevel = typeof LOG_LEVELS[number];
+
+export type TLogContext = {
+  requestId?: string;
+  jobId?: string;
+  scrapeId?: string;
+  scheduleId?: string;
+  batch?: number;
+  browser?: number;
+  url?: string;
+}
+
+export type TLogFields = TLogContext & Record<string, unknown>;
+
+export type TLogger = Record<TLogLevel, (message: string, fields?: TLogFields) => void>;
+
+const logContext = new AsyncLocalStorage<TLogContext>();
+
+const isLogLevel = (value: string | undefined): value is TLogLevel => LOG_LEVELS.includes(value as TLogLevel);
+
+// Per-url progress is debug output, so info keeps production logs to what matters
+const DEFAULT_LOG_LEVEL: TLogLevel = isLogLevel(process.env.LOG_LEVEL) ? process.env.LOG_LEVEL : 'info';
+
+// Comma separated module=level pairs overriding LOG_LEVEL, e.g. browser-batch-handler=debug,helpers=warn
+const moduleLevelEntries = (process.env.LOG_MODULE_LEVELS ?? '').split(',').map(entry => entry.trim()).filter(Boolean);
+
+const MODULE_LOG_LEVELS = new Map(moduleLevelEntries.flatMap((entry): [string, TLogLevel][] => {
+  const [module, level] = entry.split('=').map(part => part.trim());
+  return module && isLogLevel(level) ? [[module, level]] : [];
+}));
+
+// Errors keep their name, message and stack, JSON.stringify would turn them into {}
+const serializeValue = (_: string, value: unknown) => {
+  if (value instanceof Error) return { name: value.name, message: value.message, stack: value.stack };
+  if (typeof value === 'bigint') return value.toString();
+  return value;
+};
+
+// Runs work with these correlation fields added to every entry logged inside it, nested contexts add to the outer one
+export const withLogContext = <T>(context: TLogContext, work: () => T): T =>
+    logContext.run({ ...logContext.getStore(), ...context }, work);
+
+export const getLogContext = (): TLogContext => logContext.getStore() ?? {};
+
+export const createLogger = (module: string): TLogger => {
+  const minLevel = LOG_LEVELS.indexOf(MODULE_LOG_LEVELS.get(module) ?? DEFAULT_LOG_LEVEL);
+
+  const write = (level: TLogLevel, message: string, fields: TLogFields = {}) => {
+    if (LOG_LEVELS.indexOf(level) < minLevel) return;
+
+    const line = JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      module,
+      msg: message,
+      ...logContext.getStore(),
+      ...fields
+    }, serializeValue);
+
+    (level === 'warn' || level === 'error' ? process.stderr : process.stdout).write(`${line}\n`);
+  };
+
+  return {
+    debug: (message, fields) => write('debug', message, fields),
+    info: (message, fields) => write('info', message, fields),
+    warn: (message, fields) => write('warn', message, fields),
+    error: (message, fields) => write('error', message, fields)
+  };
+};
+
+moduleLevelEntries
+    .filter(entry => !MODULE_LOG_LEVELS.has(entry.split('=')[0].trim()))
+    .forEach(entry => createLogger('logger').warn('Ignoring invalid entry in LOG_MODULE_LEVELS', { entry }));
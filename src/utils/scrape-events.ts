@@ -0,0 +1,95 @@
+import type {TGoogleMapLeadInfo, TLeadSource} from "../functions/gmap-details-lead-extractor";
+import type {TScrapeErrorRecord} from "../functions/common/scrape-errors";
+
+/**
+ * Event protocol of the /gmaps/scrape stream, shared with the frontend.
+ * Only type imports are used here so the module can be imported without any server dependencies.
+ * Bump the version whenever an event's data changes shape.
+ */
+export const SCRAPE_EVENTS_VERSION = 1;
+
+export type TScrapeEventType = 'status' | 'progress' | 'error' | 'lead' | 'lead_contacts' | 'complete' | 'heartbeat';
+
+type TScrapeEventEnvelope<TType extends TScrapeEventType, TData> = {
+  version: typeof SCRAPE_EVENTS_VERSION;
+  type: TType;
+  message: string;
+  data: TData;
+  timestamp: string;
+}
+
+export type TScrapeStatusEvent = TScrapeEventEnvelope<'status', {
+  stage: string;
+  total?: number;
+  current?: number;
+  percentage?: number;
+  phase?: number;
+  browser?: number;
+  scrapeId?: string;
+  cancelUrl?: string;
+  eventsUrl?: string;
+  source?: TLeadSource;
+}>;
+
+export type TScrapeProgressEvent = TScrapeEventEnvelope<'progress', {
+  current: number;
+  total: number;
+  percentage: number;
+  browser?: number;
+}>;
+
+export type TScrapeErrorEvent = TScrapeEventEnvelope<'error', {
+  stage?: string;
+  current?: number;
+  total?: number;
+  percentage?: number;
+  browser?: number;
+  // Present when a single url failed for good
+  failure?: TScrapeErrorRecord;
+  // Present when the whole scrape failed
+  error?: string;
+}>;
+
+// Sent for every lead as soon as its details page has been parsed
+export type TScrapeLeadEvent = TScrapeEventEnvelope<'lead', {
+  url: string;
+  lead: TGoogleMapLeadInfo;
+}>;
+
+// Sent when website enrichment found contacts, applies to every lead with this website
+export type TScrapeLeadContactsEvent = TScrapeEventEnvelope<'lead_contacts', {
+  website: string;
+  emails: string[];
+  socialProfiles: string[];
+}>;
+
+export type TScrapeCompleteEvent = TScrapeEventEnvelope<'complete', {
+  stage: 'final_results' | 'no_results' | 'cancelled';
+  founded: string[];
+  foundedLeadsCount: number;
+  allLeads: TGoogleMapLeadInfo[];
+  allLeadsCount: number;
+  savedLeadsCount: number;
+  // Only present when reviews were collected
+  savedReviewsCount?: number;
+  errors: TScrapeErrorRecord[];
+}>;
+
+// Keeps idle connections open through proxies, never stored for resume
+export type TScrapeHeartbeatEvent = TScrapeEventEnvelope<'heartbeat', Record<string, never>>;
+
+export type TScrapeEvent =
+    | TScrapeStatusEvent
+    | TScrapeProgressEvent
+    | TScrapeErrorEvent
+    | TScrapeLeadEvent
+    | TScrapeLeadContactsEvent
+    | TScrapeCompleteEvent
+    | TScrapeHeartbeatEvent;
+
+type TWithoutEnvelopeFields<TEvent> = TEvent extends TScrapeEvent ? Omit<TEvent, 'version' | 'timestamp'> : never;
+
+// What producers hand to the stream, version and timestamp are filled in when the event is sent
+export type TScrapeEventInput = TWithoutEnvelopeFields<TScrapeEvent>;
+
+export type TEmitScrapeEvent = (event: TScrapeEventInput) => void;
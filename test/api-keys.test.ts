@@ -0,0 +1,51 @@
+import {describe, test} from "node:test";
+import assert from "node:assert/strict";
+import {Request} from "express";
+import {findExceededLimit, getUsageDay, hashApiKey, isAdminRequest, isOwnedByApiKey, TApiKey} from "../src/functions/api-keys";
+
+const limits = { urlsScraped: 100, leadsExtracted: 50, placesApiCalls: 10 };
+
+// Only the header lookup of a request is used
+const requestWithHeaders = (headers: Record<string, string>) => ({
+  get: (name: string) => headers[name.toLowerCase()]
+}) as unknown as Request;
+
+describe("API keys", () => {
+  test("reports the first limit today's usage has reached", () => {
+    assert.equal(findExceededLimit(limits, {}), null);
+    assert.equal(findExceededLimit(limits, { urlsScraped: 99, leadsExtracted: 49, placesApiCalls: 9 }), null);
+    assert.equal(findExceededLimit(limits, { urlsScraped: 20, placesApiCalls: 10 }), 'placesApiCalls');
+    assert.equal(findExceededLimit(limits, { urlsScraped: 150, leadsExtracted: 60 }), 'urlsScraped');
+  });
+
+  test("counts usage per UTC day", () => {
+    assert.equal(getUsageDay(new Date('2026-03-01T23:30:00-05:00')), '2026-03-02');
+  });
+
+  test("never stores keys in a form that can be read back", () => {
+    assert.match(hashApiKey('axl_secret'), /^[0-9a-f]{64}$/);
+    assert.notEqual(hashApiKey('axl_secret'), hashApiKey('axl_secret2'));
+  });
+
+  test("accepts the admin key as a bearer token or X-API-Key header", () => {
+    process.env.ADMIN_API_KEY = 'admin-secret';
+
+    assert.equal(isAdminRequest(requestWithHeaders({ authorization: 'Bearer admin-secret' })), true);
+    assert.equal(isAdminRequest(requestWithHeaders({ 'x-api-key': 'admin-secret' })), true);
+    assert.equal(isAdminRequest(requestWithHeaders({ 'x-api-key': 'admin-secret-but-longer' })), false);
+    assert.equal(isAdminRequest(requestWithHeaders({})), false);
+
+    delete process.env.ADMIN_API_KEY;
+    assert.equal(isAdminRequest(requestWithHeaders({ 'x-api-key': 'admin-secret' })), false);
+  });
+
+  test("only lets a key reach what it started itself", () => {
+    const apiKey = { _id: 'key-1' } as TApiKey;
+
+    assert.equal(isOwnedByApiKey('key-1', apiKey), true);
+    assert.equal(isOwnedByApiKey('key-2', apiKey), false);
+    assert.equal(isOwnedByApiKey(undefined, apiKey), false);
+    assert.equal(isOwnedByApiKey('key-1', undefined), false);
+    assert.equal(isOwnedByApiKey(undefined, undefined), true);
+  });
+});
@@ -0,0 +1,79 @@
+import {after, before, describe, test} from "node:test";
+import assert from "node:assert/strict";
+import {launchTestBrowser} from "./fixtures/test-browser";
+import {startMapsFixtureServer, TMapsFixtureServer} from "./fixtures/maps-fixture-server";
+import {BrowserBatchHandler, EachPageResult} from "../src/functions/common/browser-batch-handler";
+import {SCRAPE_RETRY_POLICY} from "../src/functions/common/scrape-errors";
+import {closeBrowserPool, getBrowserPoolStats} from "../src/functions/common/browser-pool";
+import {scrapeLinks} from "../src/functions/scrape-links";
+import {GmapsDetailsLeadInfoExtractor} from "../src/functions/gmap-details-lead-extractor";
+
+describe("BrowserBatchHandler", async () => {
+  let server: TMapsFixtureServer;
+  // The handler uses the shared pool, this browser only checks that launching works here
+  const { browser, unavailableReason } = await launchTestBrowser();
+  await browser?.close();
+
+  before(async () => {
+    server = await startMapsFixtureServer(6);
+  });
+
+  after(async () => {
+    await closeBrowserPool();
+    await server.close();
+  });
+
+  test("collects links from every search url and reports each page as it finishes", { skip: unavailableReason }, async () => {
+    const searchUrls = [server.searchUrl("cafes in pune"), server.searchUrl("empty search")];
+    const pageResults: [string, EachPageResult<string[]>][] = [];
+
+    const result = await BrowserBatchHandler(searchUrls, scrapeLinks, null, {
+      onPageResult: (url, pageResult) => {
+        pageResults.push([url, pageResult]);
+      }
+    });
+
+    assert.equal(result.success, true);
+    assert.equal(result.successCount, 2);
+    assert.equal(result.errorCount, 0);
+    assert.deepEqual(result.results.flat(), server.places.map(place => server.placeUrl(place)));
+    assert.deepEqual(pageResults.map(([url]) => url).sort(), [...searchUrls].sort());
+    // Browsers stay warm for the next run but every page has been handed back
+    assert.equal(getBrowserPoolStats().activePages, 0);
+  });
+
+  test("records failed urls without losing the successful ones", { skip: unavailableReason }, async () => {
+    // Nothing listens on port 9, so navigation fails
+    const urls = [server.placeUrl(server.places[0]), 'http://127.0.0.1:9/maps/place/Unreachable'];
+
+    const result = await BrowserBatchHandler(urls, GmapsDetailsLeadInfoExtractor);
+
+    assert.equal(result.successCount, 1);
+    assert.equal(result.errorCount, 1);
+    assert.equal(result.results[0].name, server.places[0].name);
+    assert.equal(result.errors[0].url, urls[1]);
+    assert.equal(result.errors[0].type, 'navigation');
+    // Navigation errors are retried before they are given up on
+    assert.equal(result.errors[0].attempts, SCRAPE_RETRY_POLICY.navigation + 1);
+  });
+
+  test("stops scraping once cancelled and keeps what finished before", { skip: unavailableReason }, async () => {
+    const controller = new AbortController();
+    const urls = server.places.map(place => server.placeUrl(place));
+
+    const result = await BrowserBatchHandler(urls, async (url, page) => {
+      // Every other page hangs until cancelling closes it
+      if (url !== urls[0]) await page.waitForSelector('#never-rendered', { timeout: 0 });
+
+      const lead = await GmapsDetailsLeadInfoExtractor(url, page);
+      controller.abort();
+      return lead;
+    }, null, { signal: controller.signal });
+
+    assert.equal(result.cancelled, true);
+    assert.equal(result.successCount, 1);
+    assert.equal(result.results[0].name, server.places[0].name);
+    assert.equal(result.errorCount, 0);
+    assert.equal(getBrowserPoolStats().queuedPages, 0);
+  });
+});
@@ -0,0 +1,53 @@
+import {after, describe, test} from "node:test";
+import assert from "node:assert/strict";
+import {launchTestBrowser} from "./fixtures/test-browser";
+import {
+  closeBrowserPool,
+  getBrowserPoolStats,
+  MAX_BROWSER_SESSIONS,
+  MAX_PAGES_PER_BROWSER,
+  withPooledPage
+} from "../src/functions/common/browser-pool";
+
+describe("browser pool", async () => {
+  const { browser, unavailableReason } = await launchTestBrowser();
+  await browser?.close();
+
+  after(async () => {
+    await closeBrowserPool();
+  });
+
+  test("never runs more pages than the pool allows and keeps browsers warm afterwards", { skip: unavailableReason }, async () => {
+    const capacity = MAX_BROWSER_SESSIONS * MAX_PAGES_PER_BROWSER;
+    let runningPages = 0;
+    let maxRunningPages = 0;
+
+    await Promise.all(Array.from({ length: capacity + 3 }, () => withPooledPage(async page => {
+      runningPages++;
+      maxRunningPages = Math.max(maxRunningPages, runningPages);
+      await page.setContent('<p>pooled</p>');
+      await new Promise(resolve => setTimeout(resolve, 20));
+      runningPages--;
+    })));
+
+    assert.ok(maxRunningPages <= capacity);
+    const stats = getBrowserPoolStats();
+    assert.equal(stats.activePages, 0);
+    assert.equal(stats.queuedPages, 0);
+    assert.ok(stats.browsers > 0 && stats.browsers <= MAX_BROWSER_SESSIONS);
+  });
+
+  test("replaces a browser that crashed while pages were queued", { skip: unavailableReason }, async () => {
+    await withPooledPage(async page => {
+      page.browser().process()?.kill('SIGKILL');
+      await new Promise(resolve => page.browser().once('disconnected', resolve));
+    }).catch(() => undefined);
+
+    const text = await withPooledPage(async page => {
+      await page.setContent('<p>still working</p>');
+      return page.$eval('p', element => element.textContent);
+    });
+
+    assert.equal(text, 'still working');
+  });
+});
@@ -0,0 +1,135 @@
+import {describe, test} from "node:test";
+import assert from "node:assert/strict";
+import {JSDOM} from "jsdom";
+import {
+  DEFAULT_EXTRACTION_PROFILE,
+  extractProfileFields,
+  extractReviewFields,
+  isValidPostProcessStep,
+  isValidProfileSelector,
+  resolveProfileSelector,
+  resolveReviewsSelectors,
+  resolveSearchSelectors,
+  TExtractionProfile
+} from "../src/functions/extraction-profiles";
+import {GMAPS_LABELS} from "../src/utils/gmaps-locales";
+
+const parse = (html: string) => new JSDOM(html).window.document;
+
+const PLACE_PANEL = `
+  <span class="ceNzKf" aria-label="4.6 stars "></span>
+  <span aria-label="1,234 reviews">(1,234)</span>
+  <div role="region" aria-label="Information for Stub Cafe">
+    <button data-item-id="address" aria-label="Address: FC Road, Pune"></button>
+    <a data-item-id="authority" aria-label="Website: stub-cafe.example" href="https://stub-cafe.example/"></a>
+    <button data-item-id="phone:tel:02025670000" aria-label="Phone: 020 2567 0000"></button>
+  </div>`;
+
+const REVIEW = `
+  <div class="jftiEf fontBodyMedium" data-review-id="review-1">
+    <div class="d4r55">Asha</div>
+    <span class="kvMYJc" role="img" aria-label="4,0 estrellas"></span>
+    <span class="rsqaWe">hace 3 meses</span>
+    <div class="MyEned"><span class="wiI7pd">Great filter coffee</span></div>
+    <div class="CDe7pd"><span class="DZSIDd">hace 2 meses</span><div class="wiI7pd">Thank you!</div></div>
+  </div>`;
+
+describe("extraction profiles", () => {
+  test("reads every field with the first selector of its chain and records it", () => {
+    const { values, selectors, missing } = extractProfileFields(parse(PLACE_PANEL), DEFAULT_EXTRACTION_PROFILE, GMAPS_LABELS.en);
+
+    assert.deepEqual(values, {
+      name: 'Stub Cafe',
+      website: 'https://stub-cafe.example/',
+      phoneNumber: '02025670000',
+      overAllRating: '4.6',
+      numberOfReviews: '1,234',
+      address: 'FC Road, Pune'
+    });
+    assert.equal(selectors.phoneNumber, 'button[aria-label^="{{label:phone}}"]');
+    assert.equal(selectors.name, 'div{{ariaLabel:informationFor}}');
+    assert.deepEqual(missing, []);
+  });
+
+  test("falls back to the next selector when the first one stops matching", () => {
+    const page = parse(`
+      <h1 class="DUwDvf">Stub Cafe</h1>
+      <button data-item-id="phone:tel:02025670000" aria-label="Llamar"></button>`);
+    const { values, selectors, missing } = extractProfileFields(page, DEFAULT_EXTRACTION_PROFILE, GMAPS_LABELS.en);
+
+    assert.equal(values.name, 'Stub Cafe');
+    assert.equal(selectors.name, 'h1.DUwDvf');
+    assert.equal(values.phoneNumber, '02025670000');
+    assert.equal(selectors.phoneNumber, 'button[data-item-id^="phone:tel:"]');
+    assert.deepEqual(missing, []);
+  });
+
+  test("reports required fields none of whose selectors matched", () => {
+    const { values, missing } = extractProfileFields(parse('<p>Before you continue to Google</p>'), DEFAULT_EXTRACTION_PROFILE, GMAPS_LABELS.en);
+
+    assert.deepEqual(values, {});
+    assert.deepEqual(missing, ['name']);
+  });
+
+  test("skips a selector the page cannot parse and tries the rest of the chain", () => {
+    const profile: TExtractionProfile = {
+      ...DEFAULT_EXTRACTION_PROFILE,
+      place: {
+        ...DEFAULT_EXTRACTION_PROFILE.place,
+        address: { selectors: [{ css: 'button[data-item-id=', attribute: 'aria-label' }, { css: 'button[data-item-id="address"]', attribute: 'aria-label', postProcess: ['stripLabel:address'] }] }
+      }
+    };
+
+    const { values, selectors } = extractProfileFields(parse(PLACE_PANEL), profile, GMAPS_LABELS.en);
+
+    assert.equal(values.address, 'FC Road, Pune');
+    assert.equal(selectors.address, 'button[data-item-id="address"]');
+  });
+
+  test("reads review fields from the markup of a single review", () => {
+    const { values, selectors, missing } = extractReviewFields(JSDOM.fragment(REVIEW), DEFAULT_EXTRACTION_PROFILE, GMAPS_LABELS.es);
+
+    assert.deepEqual(values, {
+      reviewId: 'review-1',
+      reviewerName: 'Asha',
+      rating: '4,0',
+      relativeDate: 'hace 3 meses',
+      text: 'Great filter coffee',
+      ownerResponseText: 'Thank you!',
+      ownerResponseDate: 'hace 2 meses'
+    });
+    assert.equal(selectors.rating, 'span.kvMYJc');
+    assert.deepEqual(missing, []);
+  });
+
+  test("falls back to the next review selector and reports reviews without an id", () => {
+    const renamed = JSDOM.fragment('<div data-review-id="review-2" aria-label="Ravi"><span role="img" aria-label="5 stars"></span></div>');
+    const { values, selectors } = extractReviewFields(renamed, DEFAULT_EXTRACTION_PROFILE, GMAPS_LABELS.en);
+
+    assert.equal(values.reviewerName, 'Ravi');
+    assert.equal(selectors.reviewerName, '[data-review-id][aria-label]');
+    assert.equal(values.rating, '5');
+    assert.deepEqual(extractReviewFields(JSDOM.fragment('<div class="jftiEf"></div>'), DEFAULT_EXTRACTION_PROFILE, GMAPS_LABELS.en).missing, ['reviewId']);
+  });
+
+  test("fills label placeholders in with the locale's labels", () => {
+    assert.equal(resolveProfileSelector('div{{ariaLabel:informationFor}}', GMAPS_LABELS.hi), 'div[aria-label$=" के बारे में जानकारी"]');
+    assert.equal(resolveProfileSelector('button[aria-label^="{{label:phone}}"]', GMAPS_LABELS.de), 'button[aria-label^="Telefon"]');
+    assert.deepEqual(resolveSearchSelectors(DEFAULT_EXTRACTION_PROFILE, GMAPS_LABELS.es).feed, ['div[aria-label^="Resultados de "]', 'div[role="feed"]']);
+    assert.deepEqual(resolveReviewsSelectors(DEFAULT_EXTRACTION_PROFILE, GMAPS_LABELS.es).sortButton, ['button[aria-label="Ordenar reseñas"]', 'button[data-value="Sort"]']);
+  });
+
+  test("rejects selectors and steps a loaded profile could not use", () => {
+    assert.equal(isValidProfileSelector('button[data-item-id="oloc"]'), true);
+    assert.equal(isValidProfileSelector('button[data-item-id='), false);
+    assert.equal(isValidProfileSelector('a[aria-label^="{{label:unknown}}"]'), false);
+
+    assert.equal(isValidPostProcessStep('removePrefix:phone:tel:'), true);
+    assert.equal(isValidPostProcessStep('stripLabel:address'), true);
+    assert.equal(isValidPostProcessStep('firstNumber'), true);
+    // Only text labels can be stripped, relativeDate is a pattern
+    assert.equal(isValidPostProcessStep('stripLabel:relativeDate'), false);
+    assert.equal(isValidPostProcessStep('trim:everything'), false);
+    assert.equal(isValidPostProcessStep('uppercase'), false);
+  });
+});
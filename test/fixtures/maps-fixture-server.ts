@@ -0,0 +1,279 @@
+import fs from "fs";
+import http from "http";
+import path from "path";
+import {AddressInfo} from "net";
+
+const PAGES_DIR = path.join(__dirname, "pages");
+
+// Listings Maps renders per scroll step, the real feed loads roughly this many at a time
+const RESULTS_PER_PAGE = 5;
+
+// Reviews per scroll step of the reviews panel
+const REVIEWS_PER_PAGE = 5;
+
+const REVIEWS_PER_PLACE = 12;
+
+// Weeks old of each review in most relevant order, every age from 1 to 12 once
+const REVIEW_AGES_IN_WEEKS = [3, 1, 8, 12, 5, 2, 10, 7, 4, 11, 6, 9];
+
+export type TFixturePlace = {
+  slug: string;
+  name: string;
+  featureId: string;
+  googlePlaceId: string;
+  latitude: number;
+  longitude: number;
+  rating: string;
+  reviews: string;
+  price: string;
+  category: string;
+  address: string;
+  website: string;
+  phone: string;
+  plusCode: string;
+  notice?: string;
+  // In the order Maps lists them as most relevant
+  reviewsList: TFixtureReview[];
+}
+
+export type TFixtureReview = {
+  reviewId: string;
+  reviewerName: string;
+  rating: number;
+  weeksAgo: number;
+  relativeDate: string;
+  // What the page shows before "More" is clicked, unset when the text is shown in full
+  shortText?: string;
+  text: string;
+  ownerResponse?: { text: string; relativeDate: string };
+}
+
+export type TMapsFixtureServer = {
+  baseUrl: string;
+  places: TFixturePlace[];
+  searchUrl: (query: string) => string;
+  placeUrl: (place: TFixturePlace) => string;
+  close: () => Promise<void>;
+}
+
+const readPage = (name: string) => fs.readFileSync(path.join(PAGES_DIR, name), "utf8");
+
+const fillTemplate = (template: string, values: Record<string, string | number>) =>
+    template.replace(/{{(\w+)}}/g, (_, key: string) => String(values[key] ?? ''));
+
+const escapeHtml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+// How the English labels of the pages read on Maps in Spanish, served for hl=es
+const SPANISH_LABELS: [string, string][] = [
+  ['Results for', 'Resultados de'],
+  ["You've reached the end of the list.", 'Has llegado al final de la lista.'],
+  ['Information for ', 'Información de '],
+  ['Reviews for ', 'Reseñas de '],
+  ['Sort reviews', 'Ordenar reseñas'],
+  ['Address: ', 'Dirección: '],
+  ['Website: ', 'Sitio web: '],
+  ['Phone: ', 'Teléfono: '],
+  ['Plus code: ', 'Plus Code: '],
+  ['Price: ', 'Precio: '],
+  [' stars', ' estrellas'],
+  [' reviews"', ' reseñas"'],
+  ['aria-label="Notice"', 'aria-label="Aviso"'],
+  ['Temporarily closed', 'Cerrado temporalmente'],
+  ['Permanently closed', 'Cerrado permanentemente']
+];
+
+const localizePage = (html: string, language: string | null) => language === 'es'
+    ? SPANISH_LABELS.reduce((page, [english, spanish]) => page.split(english).join(spanish), html)
+    : html;
+
+const formatWeeksAgo = (weeks: number) => weeks === 1 ? 'a week ago' : `${weeks} weeks ago`;
+
+const createReviews = (slug: string, name: string): TFixtureReview[] => REVIEW_AGES_IN_WEEKS.map((weeks, index) => ({
+  reviewId: `${slug}-review-${index + 1}`,
+  reviewerName: `Reviewer ${index + 1}`,
+  rating: (index % 5) + 1,
+  weeksAgo: weeks,
+  relativeDate: formatWeeksAgo(weeks),
+  // The second review is long enough to be cut off
+  ...(index === 1 && { shortText: `Visit ${index + 1} to ${name}…` }),
+  text: index === 1 ? `Visit ${index + 1} to ${name}. The coffee was cold and it took forty minutes to get our order.` : `Visit ${index + 1} to ${name}.`,
+  ...(index % 3 === 0 && { ownerResponse: { text: `Thank you for visiting, reviewer ${index + 1}.`, relativeDate: formatWeeksAgo(Math.max(1, weeks - 1)) } })
+}));
+
+const REVIEW_SORTERS: Record<string, (a: TFixtureReview, b: TFixtureReview) => number> = {
+  newest: (a, b) => a.weeksAgo - b.weeksAgo,
+  highest_rating: (a, b) => b.rating - a.rating,
+  lowest_rating: (a, b) => a.rating - b.rating
+};
+
+const createPlaces = (count: number): TFixturePlace[] => Array.from({ length: count }, (_, index) => ({
+  slug: `Fixture+Cafe+${index + 1}`,
+  name: `Fixture Cafe ${index + 1}`,
+  featureId: `0x3bc2c07f5d3b0c2d:0x4f6b1d2e9a8c${(0x1000 + index).toString(16)}`,
+  googlePlaceId: `ChIJFixtureCafe${index + 1}`,
+  latitude: Number((18.52 + index * 0.001).toFixed(7)),
+  longitude: Number((73.85 + index * 0.001).toFixed(7)),
+  rating: (4 + (index % 10) / 10).toFixed(1),
+  reviews: (1000 + index * 37).toLocaleString('en-US'),
+  price: 'Moderate',
+  category: 'Coffee shop',
+  address: `${index + 1} MG Road, Pune, Maharashtra 411001`,
+  website: `https://fixture-cafe-${index + 1}.example/`,
+  phone: `020 1234 ${String(5000 + index).padStart(4, '0')}`,
+  plusCode: `G4HM+${index}Q Pune, Maharashtra`,
+  // A couple of closed places so status extraction is exercised
+  notice: index === 1 ? 'Temporarily closed' : index === 2 ? 'Permanently closed' : undefined,
+  // The fourth place has no reviews yet, so its page has no reviews tab
+  reviewsList: index === 3 ? [] : createReviews(`Fixture+Cafe+${index + 1}`, `Fixture Cafe ${index + 1}`)
+}));
+
+/**
+ * Serves trimmed captures of Google Maps search and place pages.
+ * Search results for a query containing "empty" have no listings, any other query returns every fixture place,
+ * delivered in pages as the result feed is scrolled just like the live infinite-scroll list.
+ * A query containing "endless" never shows the end of list marker.
+ * Place pages have a reviews tab whose list loads the same way, except for the fourth place which has no reviews.
+ * Search and place pages are labelled in Spanish when requested with hl=es, in English otherwise.
+ */
+export const startMapsFixtureServer = async (placeCount = 12, scrollDelayMs = 50): Promise<TMapsFixtureServer> => {
+  const places = createPlaces(placeCount);
+  const templates = {
+    search: readPage("search-results.html"),
+    searchItem: readPage("search-result-item.html"),
+    searchEnd: readPage("search-end.html"),
+    place: readPage("place-details.html"),
+    notice: readPage("place-notice.html"),
+    reviews: readPage("place-reviews.html"),
+    review: readPage("review-item.html"),
+    reviewResponse: readPage("review-response.html")
+  };
+
+  let baseUrl = '';
+
+  const placeUrl = (place: TFixturePlace) => {
+    const [, cidHex] = place.featureId.split(':');
+    return `${baseUrl}/maps/place/${place.slug}/data=!4m7!3m6!1s${place.featureId}!8m2!3d${place.latitude}!4d${place.longitude}!16s%2Fg%2F${cidHex}!19s${place.googlePlaceId}?entry=ttu`;
+  };
+
+  const renderResultsPage = (query: string, start: number) => {
+    const matchingPlaces = query.includes('empty') ? [] : places;
+    const pagePlaces = matchingPlaces.slice(start, start + RESULTS_PER_PAGE);
+    const nextStart = start + RESULTS_PER_PAGE < matchingPlaces.length ? start + RESULTS_PER_PAGE : null;
+
+    const items = pagePlaces.map(place => fillTemplate(templates.searchItem, {
+      NAME: escapeHtml(place.name),
+      PLACE_URL: escapeHtml(placeUrl(place))
+    })).join('\n');
+
+    return { html: nextStart === null && !query.includes('endless') ? items + templates.searchEnd : items, nextStart };
+  };
+
+  const renderReviewsPage = (place: TFixturePlace, sort: string, start: number) => {
+    const sorter = REVIEW_SORTERS[sort];
+    const reviews = sorter ? [...place.reviewsList].sort(sorter) : place.reviewsList;
+    const nextStart = start + REVIEWS_PER_PAGE < reviews.length ? start + REVIEWS_PER_PAGE : null;
+
+    const html = reviews.slice(start, start + REVIEWS_PER_PAGE).map(review => fillTemplate(templates.review, {
+      REVIEW_ID: review.reviewId,
+      REVIEWER: escapeHtml(review.reviewerName),
+      RATING: review.rating,
+      DATE: review.relativeDate,
+      TEXT: escapeHtml(review.shortText ?? review.text),
+      MORE: review.shortText ? `<button class="w8nwRe" data-full-text="${escapeHtml(review.text)}">More</button>` : '',
+      RESPONSE: review.ownerResponse ? fillTemplate(templates.reviewResponse, {
+        DATE: review.ownerResponse.relativeDate,
+        TEXT: escapeHtml(review.ownerResponse.text)
+      }) : ''
+    })).join('\n');
+
+    return { html, nextStart };
+  };
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', baseUrl);
+    const language = url.searchParams.get('hl');
+    const send = (status: number, contentType: string, body: string) => {
+      res.writeHead(status, { 'Content-Type': `${contentType}; charset=utf-8` });
+      res.end(body);
+    };
+
+    if (url.pathname.startsWith('/maps/search/')) {
+      const query = decodeURIComponent(url.pathname.slice('/maps/search/'.length)).replace(/\+/g, ' ');
+      const firstPage = renderResultsPage(query, 0);
+
+      send(200, 'text/html', localizePage(fillTemplate(templates.search, {
+        QUERY: escapeHtml(query),
+        QUERY_PARAM: encodeURIComponent(query),
+        LANGUAGE: encodeURIComponent(language ?? 'en'),
+        RESULTS: firstPage.html,
+        NEXT_START: firstPage.nextStart === null ? 'null' : firstPage.nextStart,
+        SCROLL_DELAY_MS: scrollDelayMs
+      }), language));
+      return;
+    }
+
+    if (url.pathname === '/maps/search-page') {
+      const page = renderResultsPage(url.searchParams.get('q') ?? '', Number(url.searchParams.get('start')) || 0);
+      send(200, 'application/json', JSON.stringify({ ...page, html: localizePage(page.html, language) }));
+      return;
+    }
+
+    if (url.pathname === '/maps/reviews') {
+      const place = places.find(candidate => candidate.slug === url.searchParams.get('place'));
+      const page = place
+          ? renderReviewsPage(place, url.searchParams.get('sort') ?? 'most_relevant', Number(url.searchParams.get('start')) || 0)
+          : { html: '', nextStart: null };
+      send(200, 'application/json', JSON.stringify(page));
+      return;
+    }
+
+    if (url.pathname.startsWith('/maps/place/')) {
+      const slug = url.pathname.split('/')[3];
+      const place = places.find(candidate => candidate.slug === slug);
+
+      if (!place) {
+        send(404, 'text/html', '<html><body>Not found</body></html>');
+        return;
+      }
+
+      send(200, 'text/html', localizePage(fillTemplate(templates.place, {
+        NAME: escapeHtml(place.name),
+        RATING: place.rating,
+        REVIEWS: place.reviews,
+        PRICE: place.price,
+        CATEGORY: escapeHtml(place.category),
+        ADDRESS: escapeHtml(place.address),
+        WEBSITE: escapeHtml(place.website),
+        WEBSITE_LABEL: escapeHtml(new URL(place.website).hostname),
+        PHONE: place.phone,
+        PHONE_DIGITS: place.phone.replace(/\s/g, ''),
+        PLUS_CODE: escapeHtml(place.plusCode),
+        NOTICE: place.notice ? fillTemplate(templates.notice, { NOTICE_TEXT: place.notice }) : '',
+        REVIEWS_TAB: place.reviewsList.length > 0
+            ? fillTemplate(templates.reviews, { NAME: escapeHtml(place.name), SLUG: encodeURIComponent(place.slug), SCROLL_DELAY_MS: scrollDelayMs })
+            : ''
+      }), language));
+      return;
+    }
+
+    send(404, 'text/plain', 'Not found');
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    baseUrl,
+    places,
+    searchUrl: (query: string) => `${baseUrl}/maps/search/${encodeURIComponent(query).replace(/%20/g, '+')}`,
+    placeUrl,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections();
+      server.close(error => error ? reject(error) : resolve());
+    })
+  };
+};
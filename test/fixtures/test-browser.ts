@@ -0,0 +1,21 @@
+import puppeteer, {Browser} from "puppeteer";
+import {getBrowserOptions} from "../../src/utils/browser";
+
+// Tests always run headless, CHROME_EXECUTABLE_PATH can still point at a locally installed browser
+process.env.BROWSER_HEADLESS = process.env.BROWSER_HEADLESS || 'shell';
+
+export type TTestBrowser = {
+  browser: Browser | null;
+  // Why the browser could not be started, used as the skip reason for browser tests
+  unavailableReason?: string;
+}
+
+export const launchTestBrowser = async (): Promise<TTestBrowser> => {
+  try {
+    const browser = await puppeteer.launch(await getBrowserOptions());
+    return { browser };
+  } catch (error) {
+    const message = error instanceof Error ? error.message.split('\n')[0] : String(error);
+    return { browser: null, unavailableReason: `Chrome could not be launched: ${message}` };
+  }
+};
@@ -0,0 +1,95 @@
+import {after, before, describe, test} from "node:test";
+import assert from "node:assert/strict";
+import {Browser} from "puppeteer";
+import {launchTestBrowser} from "./fixtures/test-browser";
+import {startMapsFixtureServer, TMapsFixtureServer} from "./fixtures/maps-fixture-server";
+import {createGmapsDetailsLeadInfoExtractor, GmapsDetailsLeadInfoExtractor} from "../src/functions/gmap-details-lead-extractor";
+import {ScrapeError} from "../src/functions/common/scrape-errors";
+import {DEFAULT_EXTRACTION_PROFILE} from "../src/functions/extraction-profiles";
+
+describe("GmapsDetailsLeadInfoExtractor", async () => {
+  let server: TMapsFixtureServer;
+  let browser: Browser | null = null;
+  const { browser: launchedBrowser, unavailableReason } = await launchTestBrowser();
+
+  before(async () => {
+    server = await startMapsFixtureServer();
+    browser = launchedBrowser;
+  });
+
+  after(async () => {
+    await browser?.close();
+    await server.close();
+  });
+
+  test("extracts every field of an operational place", { skip: unavailableReason }, async () => {
+    const place = server.places[0];
+    const lead = await GmapsDetailsLeadInfoExtractor(server.placeUrl(place), await browser!.newPage());
+
+    assert.deepEqual(lead, {
+      website: place.website,
+      phoneNumber: place.phone.replace(/\s/g, ''),
+      name: place.name,
+      gmapsUrl: server.placeUrl(place),
+      overAllRating: place.rating,
+      numberOfReviews: place.reviews,
+      address: place.address,
+      category: place.category,
+      plusCode: place.plusCode,
+      priceLevel: place.price,
+      latitude: place.latitude,
+      longitude: place.longitude,
+      googlePlaceId: place.googlePlaceId,
+      cid: BigInt(place.featureId.split(':')[1]).toString(),
+      businessStatus: 'OPERATIONAL',
+      extraction: {
+        profileVersion: DEFAULT_EXTRACTION_PROFILE.version,
+        selectors: {
+          name: 'div{{ariaLabel:informationFor}}',
+          website: 'a[aria-label^="{{label:website}}"]',
+          phoneNumber: 'button[aria-label^="{{label:phone}}"]',
+          overAllRating: '.ceNzKf',
+          numberOfReviews: 'span[aria-label*="{{label:reviews}}"]',
+          address: 'button[data-item-id="address"]',
+          plusCode: 'button[data-item-id="oloc"]',
+          category: 'button[jsaction*="category"]',
+          priceLevel: 'span[aria-label^="{{label:price}}"]'
+        }
+      }
+    });
+  });
+
+  test("keeps the details of temporarily and permanently closed places", { skip: unavailableReason }, async () => {
+    const [, temporarilyClosed, permanentlyClosed] = server.places;
+
+    const temporarilyClosedLead = await GmapsDetailsLeadInfoExtractor(server.placeUrl(temporarilyClosed), await browser!.newPage());
+    const permanentlyClosedLead = await GmapsDetailsLeadInfoExtractor(server.placeUrl(permanentlyClosed), await browser!.newPage());
+
+    assert.equal(temporarilyClosedLead.businessStatus, 'CLOSED_TEMPORARILY');
+    assert.equal(temporarilyClosedLead.name, temporarilyClosed.name);
+    assert.equal(permanentlyClosedLead.businessStatus, 'CLOSED_PERMANENTLY');
+    assert.equal(permanentlyClosedLead.phoneNumber, permanentlyClosed.phone.replace(/\s/g, ''));
+  });
+
+  test("reads a place page served in Spanish with the Spanish labels", { skip: unavailableReason }, async () => {
+    const place = server.places[1];
+    const lead = await createGmapsDetailsLeadInfoExtractor({ language: 'es', region: 'mx' })(server.placeUrl(place), await browser!.newPage());
+
+    assert.equal(lead.name, place.name);
+    assert.equal(lead.address, place.address);
+    assert.equal(lead.phoneNumber, place.phone.replace(/\s/g, ''));
+    assert.equal(lead.website, place.website);
+    assert.equal(lead.plusCode, place.plusCode);
+    assert.equal(lead.numberOfReviews, place.reviews);
+    assert.equal(lead.businessStatus, 'CLOSED_TEMPORARILY');
+    // hl and gl are left out of the stored url
+    assert.equal(lead.gmapsUrl, server.placeUrl(place));
+  });
+
+  test("rejects a page without place details as a missing selector", { skip: unavailableReason }, async () => {
+    await assert.rejects(
+        GmapsDetailsLeadInfoExtractor(`${server.baseUrl}/maps/place/Unknown+Place/data=!4m2`, await browser!.newPage()),
+        (error: unknown) => error instanceof ScrapeError && error.type === 'selector_missing'
+    );
+  });
+});
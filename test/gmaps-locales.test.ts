@@ -0,0 +1,60 @@
+import {describe, test} from "node:test";
+import assert from "node:assert/strict";
+import {
+  ariaLabelSelector,
+  getAcceptLanguage,
+  GMAPS_LABELS,
+  localizeMapsUrl,
+  readAriaLabelName,
+  removeLocaleParams,
+  stripLabelPrefix
+} from "../src/utils/gmaps-locales";
+import {generateGoogleMapsSearchTargets} from "../src/utils/helpers";
+
+describe("gmaps locales", () => {
+  const placeUrl = 'https://www.google.com/maps/place/Cafe/data=!4m7!3m6!1s0x1:0x2?entry=ttu';
+
+  test("searches in the requested language and region", () => {
+    const [target] = generateGoogleMapsSearchTargets({
+      query: 'Cafeterías',
+      country: 'Mexico',
+      states: [{ name: 'Jalisco', cities: ['Guadalajara'] }],
+      language: 'es',
+      region: 'mx'
+    });
+
+    assert.equal(target.url, 'https://www.google.com/maps/search/cafeter%C3%ADas+en+Guadalajara%2C+Jalisco%2C+Mexico?hl=es&gl=mx');
+  });
+
+  test("asks for English when no language is given", () => {
+    assert.equal(localizeMapsUrl(placeUrl), `${placeUrl}&hl=en`);
+    assert.equal(localizeMapsUrl(`${placeUrl}&hl=fr`, { language: 'de' }), `${placeUrl}&hl=de`);
+  });
+
+  test("leaves hl and gl out of stored place urls", () => {
+    assert.equal(removeLocaleParams(`${placeUrl}&hl=hi&gl=in`), placeUrl);
+    assert.equal(removeLocaleParams(placeUrl), placeUrl);
+    assert.equal(removeLocaleParams('N/A'), 'N/A');
+  });
+
+  test("only overrides the browser's Accept-Language for another locale", () => {
+    assert.equal(getAcceptLanguage({}), null);
+    assert.equal(getAcceptLanguage({ language: 'en', region: 'gb' }), 'en-GB,en;q=0.9');
+    assert.equal(getAcceptLanguage({ language: 'fr' }), 'fr');
+  });
+
+  test("matches aria-labels that put the name first or last", () => {
+    assert.equal(ariaLabelSelector(GMAPS_LABELS.en.informationFor), '[aria-label^="Information for "]');
+    assert.equal(ariaLabelSelector(GMAPS_LABELS.hi.informationFor), '[aria-label$=" के बारे में जानकारी"]');
+
+    assert.equal(readAriaLabelName('Información de Café Azul', GMAPS_LABELS.es.informationFor), 'Café Azul');
+    assert.equal(readAriaLabelName('कैफ़े के बारे में जानकारी', GMAPS_LABELS.hi.informationFor), 'कैफ़े');
+    assert.equal(readAriaLabelName('Information for Cafe', GMAPS_LABELS.de.informationFor), null);
+  });
+
+  test("strips the label whatever the spacing around its colon", () => {
+    assert.equal(stripLabelPrefix('Téléphone : 01 23 45 67 89', GMAPS_LABELS.fr.phone), '01 23 45 67 89');
+    assert.equal(stripLabelPrefix('Adresse: Hauptstraße 1', GMAPS_LABELS.de.address), 'Hauptstraße 1');
+    assert.equal(stripLabelPrefix(undefined, GMAPS_LABELS.en.address), null);
+  });
+});
@@ -0,0 +1,83 @@
+import {after, before, describe, test} from "node:test";
+import assert from "node:assert/strict";
+import {Browser} from "puppeteer";
+import {launchTestBrowser} from "./fixtures/test-browser";
+import {startMapsFixtureServer, TMapsFixtureServer} from "./fixtures/maps-fixture-server";
+
+describe("GmapsReviewsExtractor", async () => {
+  // Keep the idle scrolls at the end of the list short
+  process.env.REVIEWS_SCROLL_DELAY_MS = '200';
+  const { createGmapsReviewsExtractor, parseRelativeReviewDate } = await import("../src/functions/gmaps-reviews-extractor");
+
+  let server: TMapsFixtureServer;
+  let browser: Browser | null = null;
+  const { browser: launchedBrowser, unavailableReason } = await launchTestBrowser();
+
+  before(async () => {
+    server = await startMapsFixtureServer();
+    browser = launchedBrowser;
+  });
+
+  after(async () => {
+    await browser?.close();
+    await server.close();
+  });
+
+  test("works out the date of relative review dates", () => {
+    const now = new Date('2026-03-15T12:00:00Z');
+
+    assert.equal(parseRelativeReviewDate('a week ago', now), '2026-03-08');
+    assert.equal(parseRelativeReviewDate('3 months ago', now), '2025-12-15');
+    assert.equal(parseRelativeReviewDate('Edited 2 years ago', now), '2024-03-15');
+    assert.equal(parseRelativeReviewDate('an hour ago', now), '2026-03-15');
+    assert.equal(parseRelativeReviewDate('yesterday', now), '2026-03-14');
+    assert.equal(parseRelativeReviewDate('New', now), null);
+  });
+
+  test("works out relative review dates in every supported language", () => {
+    const now = new Date('2026-03-15T12:00:00Z');
+
+    assert.equal(parseRelativeReviewDate('hace una semana', now, { language: 'es' }), '2026-03-08');
+    assert.equal(parseRelativeReviewDate('Hace 3 meses', now, { language: 'es' }), '2025-12-15');
+    assert.equal(parseRelativeReviewDate('vor 2 Jahren', now, { language: 'de' }), '2024-03-15');
+    assert.equal(parseRelativeReviewDate('il y a 3 mois', now, { language: 'fr' }), '2025-12-15');
+    assert.equal(parseRelativeReviewDate('hier', now, { language: 'fr' }), '2026-03-14');
+    assert.equal(parseRelativeReviewDate('एक हफ़्ते पहले', now, { language: 'hi' }), '2026-03-08');
+    // A date in another language than the scrape's is not guessed at
+    assert.equal(parseRelativeReviewDate('3 months ago', now, { language: 'de' }), null);
+  });
+
+  test("collects every review with its owner response", { skip: unavailableReason }, async () => {
+    const place = server.places[0];
+    const extractReviews = createGmapsReviewsExtractor({ limit: 100, sort: 'most_relevant' });
+    const { reviews } = await extractReviews(server.placeUrl(place), await browser!.newPage());
+
+    assert.deepEqual(reviews.map(review => review.reviewId), place.reviewsList.map(review => review.reviewId));
+
+    const [first, second] = reviews;
+    assert.equal(first.reviewerName, place.reviewsList[0].reviewerName);
+    assert.equal(first.rating, place.reviewsList[0].rating);
+    assert.equal(first.relativeDate, place.reviewsList[0].relativeDate);
+    assert.match(first.date ?? '', /^\d{4}-\d{2}-\d{2}$/);
+    assert.equal(first.ownerResponse?.text, place.reviewsList[0].ownerResponse?.text);
+    assert.equal(second.ownerResponse, null);
+    // Cut off reviews are expanded before they are read
+    assert.equal(second.text, place.reviewsList[1].text);
+  });
+
+  test("stops at the limit in the requested order", { skip: unavailableReason }, async () => {
+    const place = server.places[0];
+    const extractReviews = createGmapsReviewsExtractor({ limit: 7, sort: 'newest' });
+    const { reviews } = await extractReviews(server.placeUrl(place), await browser!.newPage());
+
+    const newest = [...place.reviewsList].sort((a, b) => a.weeksAgo - b.weeksAgo).slice(0, 7);
+    assert.deepEqual(reviews.map(review => review.reviewId), newest.map(review => review.reviewId));
+  });
+
+  test("gives no reviews for a place without a reviews tab", { skip: unavailableReason }, async () => {
+    const extractReviews = createGmapsReviewsExtractor({ limit: 10, sort: 'newest' });
+    const { reviews } = await extractReviews(server.placeUrl(server.places[3]), await browser!.newPage());
+
+    assert.deepEqual(reviews, []);
+  });
+});
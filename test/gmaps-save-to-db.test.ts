@@ -0,0 +1,48 @@
+import {describe, test} from "node:test";
+import assert from "node:assert/strict";
+import {TGoogleMapLeadInfo} from "../src/functions/gmap-details-lead-extractor";
+import {buildLeadUpsertFilter, createQuerySlug, getLeadPlaceId} from "../src/functions/gmaps-save-to-db";
+
+const lead: TGoogleMapLeadInfo = {
+  website: 'N/A',
+  phoneNumber: '02025670000',
+  name: 'Stub Cafe',
+  gmapsUrl: 'https://www.google.com/maps/place/Stub+Cafe/data=!4m2!3m1!1s0x3bc2c0:0x2dfdc8f2d5',
+  overAllRating: '4.5',
+  numberOfReviews: '1,234',
+  address: 'FC Road, Pune, Maharashtra 411004, India',
+  category: 'Coffee shop',
+  plusCode: 'N/A',
+  priceLevel: 'N/A',
+  latitude: null,
+  longitude: null,
+  googlePlaceId: 'ChIJStubPlace',
+  cid: '12345678901',
+  businessStatus: 'OPERATIONAL'
+};
+
+describe("saving leads", () => {
+  test("identifies a lead by its Maps url first", () => {
+    assert.equal(getLeadPlaceId(lead), '0x3bc2c0:0x2dfdc8f2d5');
+    // Urls without a feature id still name the place over the lead's own fields
+    assert.equal(getLeadPlaceId({ ...lead, gmapsUrl: 'https://www.google.com/maps/place/Stub+Cafe/data=!4m2!3m1!19sChIJFromUrl' }), 'ChIJFromUrl');
+    assert.equal(getLeadPlaceId({ ...lead, gmapsUrl: 'https://maps.google.com/?cid=98765432109' }), 'cid:98765432109');
+  });
+
+  test("falls back to the place id or cid of leads without a Maps url", () => {
+    assert.equal(getLeadPlaceId({ ...lead, gmapsUrl: 'N/A' }), 'ChIJStubPlace');
+    assert.equal(getLeadPlaceId({ ...lead, gmapsUrl: 'N/A', googlePlaceId: 'N/A' }), 'cid:12345678901');
+    assert.equal(getLeadPlaceId({ ...lead, gmapsUrl: 'N/A', googlePlaceId: 'N/A', cid: 'N/A' }), null);
+  });
+
+  test("matches a stored place by its placeId or its cid", () => {
+    assert.deepEqual(buildLeadUpsertFilter('0x3bc2c0:0x2dfdc8f2d5', '12345678901'), { $or: [{ placeId: '0x3bc2c0:0x2dfdc8f2d5' }, { cid: '12345678901' }] });
+    // Leads without a cid must not match every other cid-less lead
+    assert.deepEqual(buildLeadUpsertFilter('ChIJStubPlace', 'N/A'), { placeId: 'ChIJStubPlace' });
+    assert.deepEqual(buildLeadUpsertFilter('ChIJStubPlace', undefined), { placeId: 'ChIJStubPlace' });
+  });
+
+  test("turns queries into stable slugs", () => {
+    assert.equal(createQuerySlug('Coffee Shops & Cafes'), 'coffee-shops-cafes');
+  });
+});
@@ -0,0 +1,77 @@
+import {describe, test} from "node:test";
+import assert from "node:assert/strict";
+import {TGoogleMapsUrls} from "../src/utils/helpers";
+import {
+  createTiledSearchPages,
+  createTileSearchUrl,
+  getBoundsAroundCenter,
+  getTileZoom,
+  shouldSubdivideTile,
+  splitBounds,
+  subdivideTile,
+  TILE_RESULT_CAP
+} from "../src/functions/gmaps-tiling";
+
+const PUNE_CENTER = { latitude: 18.52, longitude: 73.85 };
+
+const target: TGoogleMapsUrls = {
+  city: 'Pune',
+  state: 'Maharashtra',
+  country: 'India',
+  query: 'Coffee Shops',
+  url: 'https://www.google.com/maps/search/coffee+shops+in+Pune,+Maharashtra,+India'
+};
+
+describe("gmaps tiling", () => {
+  test("covers the radius around a center with a grid of adjacent tiles", () => {
+    const bounds = getBoundsAroundCenter(PUNE_CENTER, 10);
+    const tiles = splitBounds(bounds, 3);
+
+    assert.equal(tiles.length, 9);
+    assert.deepEqual(tiles[0].low, bounds.low);
+    assert.ok(Math.abs(tiles[8].high.latitude - bounds.high.latitude) < 1e-9);
+    assert.ok(Math.abs(tiles[8].high.longitude - bounds.high.longitude) < 1e-9);
+    assert.equal(tiles[1].low.longitude, tiles[0].high.longitude);
+    assert.equal(tiles[3].low.latitude, tiles[0].high.latitude);
+  });
+
+  test("zooms in further the smaller the tile", () => {
+    const cityZoom = getTileZoom(getBoundsAroundCenter(PUNE_CENTER, 10));
+    const tileZoom = getTileZoom(getBoundsAroundCenter(PUNE_CENTER, 1));
+
+    assert.ok(tileZoom > cityZoom);
+    assert.equal(getTileZoom(getBoundsAroundCenter(PUNE_CENTER, 0.01)), 18);
+    assert.equal(getTileZoom(getBoundsAroundCenter(PUNE_CENTER, 100)), 10);
+  });
+
+  test("searches the query alone at the tile's center", () => {
+    const url = createTileSearchUrl('Coffee Shops', getBoundsAroundCenter(PUNE_CENTER, 1));
+    assert.match(url, /^https:\/\/www\.google\.com\/maps\/search\/coffee\+shops\/@18\.520000,73\.850000,\d+z\?hl=en$/);
+  });
+
+  test("asks for the tile in the scrape's language and region", () => {
+    const url = createTileSearchUrl('cafeterías', getBoundsAroundCenter(PUNE_CENTER, 1), { language: 'es', region: 'mx' });
+    assert.match(url, /\/maps\/search\/cafeter%C3%ADas\/@18\.520000,73\.850000,\d+z\?hl=es&gl=mx$/);
+  });
+
+  test("splits only capped tiles, and only while depth allows", async () => {
+    const [page] = await createTiledSearchPages([target], { center: PUNE_CENTER, radiusKm: 10, gridSize: 1, maxDepth: 1 });
+
+    assert.equal(page.target, target);
+    assert.equal(shouldSubdivideTile(page, TILE_RESULT_CAP - 1, 1), false);
+    assert.equal(shouldSubdivideTile(page, TILE_RESULT_CAP, 1), true);
+
+    const quarters = subdivideTile(page);
+    assert.equal(quarters.length, 4);
+    assert.ok(quarters.every(quarter => quarter.tile?.depth === 1 && quarter.target === target));
+    assert.equal(new Set(quarters.map(quarter => quarter.url)).size, 4);
+    assert.equal(shouldSubdivideTile(quarters[0], TILE_RESULT_CAP, 1), false);
+  });
+
+  test("keeps the plain city search when its area cannot be looked up", async () => {
+    delete process.env.GOOGLE_MAPS_PLACES_API_KEY;
+    const pages = await createTiledSearchPages([target], { gridSize: 3, maxDepth: 2 });
+
+    assert.deepEqual(pages, [{ url: target.url, target }]);
+  });
+});
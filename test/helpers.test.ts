@@ -0,0 +1,31 @@
+import {describe, test} from "node:test";
+import assert from "node:assert/strict";
+import {extractGooglePlaceId, parseGmapsUrlDetails} from "../src/utils/helpers";
+
+const PLACE_URL = 'https://www.google.com/maps/place/Stub+Cafe/@18.52,73.84,17z/data=!4m7!3m6!1s0x3bc2c0b8:0x2dfdc8f2d5!8m2!3d18.5204!4d73.8567!19sChIJStubPlace-_1';
+
+describe("Maps url ids", () => {
+  test("prefers the feature id of a place url", () => {
+    assert.equal(extractGooglePlaceId(PLACE_URL), '0x3bc2c0b8:0x2dfdc8f2d5');
+    // Shared links arrive percent-encoded and with upper case hex
+    assert.equal(extractGooglePlaceId(PLACE_URL.replace('!1s0x3bc2c0b8:0x2dfdc8f2d5', '%211s0x3BC2C0B8%3A0x2DFDC8F2D5')), '0x3bc2c0b8:0x2dfdc8f2d5');
+  });
+
+  test("falls back to the ChIJ place id, then the cid", () => {
+    assert.equal(extractGooglePlaceId('https://www.google.com/maps/place/Stub+Cafe/data=!4m2!3m1!19sChIJStubPlace-_1'), 'ChIJStubPlace-_1');
+    assert.equal(extractGooglePlaceId('https://maps.google.com/?cid=12345678901'), 'cid:12345678901');
+    assert.equal(extractGooglePlaceId('https://www.google.com/maps/place/Stub+Cafe'), null);
+    assert.equal(extractGooglePlaceId('N/A'), null);
+  });
+
+  test("reads the cid and pin coordinates of a place url", () => {
+    assert.deepEqual(parseGmapsUrlDetails(PLACE_URL), {
+      featureId: '0x3bc2c0b8:0x2dfdc8f2d5',
+      googlePlaceId: 'ChIJStubPlace-_1',
+      // The second half of the feature id in decimal
+      cid: '197531333333',
+      latitude: 18.5204,
+      longitude: 73.8567
+    });
+  });
+});
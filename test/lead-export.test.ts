@@ -0,0 +1,133 @@
+import {after, before, describe, test} from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import {AddressInfo} from "net";
+import express from "express";
+import {LEAD_EXPORT_FORMATS, resolveLeadExportFormat, streamLeadsExport, TExportLead} from "../src/functions/lead-export";
+
+const lead: TExportLead = {
+  placeId: 'ChIJStubPlace',
+  website: 'https://stub-cafe.example/',
+  phoneNumber: '+91 20 2567 0000',
+  name: 'Stub Cafe, "The Original"',
+  gmapsUrl: 'https://www.google.com/maps/place/Stub+Cafe',
+  overAllRating: '4.5',
+  numberOfReviews: '1,234',
+  address: 'FC Road\nPune; Maharashtra',
+  category: 'Coffee shop',
+  plusCode: 'N/A',
+  priceLevel: 'N/A',
+  latitude: 18.52,
+  longitude: 73.84,
+  googlePlaceId: 'ChIJStubPlace',
+  cid: '12345678901',
+  businessStatus: 'OPERATIONAL',
+  emails: ['hello@stub-cafe.example', 'orders@stub-cafe.example'],
+  socialProfiles: ['https://www.instagram.com/stubcafe'],
+  city: 'Pune',
+  state: 'Maharashtra',
+  country: 'India',
+  extraction: { profileVersion: 'builtin-1', selectors: { phoneNumber: 'button[data-item-id^="phone:tel:"]' } }
+};
+
+async function* toAsyncIterable(leads: TExportLead[]) {
+  yield* leads;
+}
+
+describe("lead export", () => {
+  let server: http.Server;
+  let baseUrl = '';
+
+  before(async () => {
+    const app = express();
+    app.get('/leads/export', async (req, res) => {
+      const format = resolveLeadExportFormat(req, LEAD_EXPORT_FORMATS.find(exportFormat => exportFormat === req.query.format));
+      if (!format) {
+        res.status(406).end();
+        return;
+      }
+      await streamLeadsExport(res, toAsyncIterable([lead, { ...lead, placeId: undefined, name: 'N/A', emails: [] }]), format, 'leads');
+    });
+
+    app.get('/leads/export-formulas', async (_, res) => {
+      const formulaLead = {
+        ...lead,
+        name: '=HYPERLINK("https://evil.example","Stub Cafe")',
+        website: '@SUM(1+1)',
+        category: '-2+3',
+        address: '\tFC Road',
+        latitude: -33.86
+      };
+      await streamLeadsExport(res, toAsyncIterable([formulaLead]), 'csv', 'leads');
+    });
+
+    server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test("picks the format from the parameter first, then the Accept header", async () => {
+    const vcard = await fetch(`${baseUrl}/leads/export?format=vcard`, { headers: { Accept: 'text/csv' } });
+    assert.equal(vcard.headers.get('content-type'), 'text/vcard; charset=utf-8');
+    assert.equal(vcard.headers.get('content-disposition'), 'attachment; filename="leads.vcf"');
+    await vcard.text();
+
+    const ndjson = await fetch(`${baseUrl}/leads/export`, { headers: { Accept: 'application/x-ndjson' } });
+    assert.equal(ndjson.headers.get('content-type'), 'application/x-ndjson; charset=utf-8');
+    await ndjson.text();
+
+    const unsupported = await fetch(`${baseUrl}/leads/export`, { headers: { Accept: 'application/pdf' } });
+    assert.equal(unsupported.status, 406);
+  });
+
+  test("quotes csv values holding separators and joins multi-valued fields into one cell", async () => {
+    const text = await (await fetch(`${baseUrl}/leads/export?format=csv`)).text();
+    const rows = text.split('\r\n');
+
+    assert.ok(rows[0].startsWith('placeId,name,phoneNumber,category,businessStatus,website,emails,socialProfiles,'));
+    assert.ok(!rows[0].includes('extraction'));
+    assert.ok(rows[1].startsWith(
+        `ChIJStubPlace,"Stub Cafe, ""The Original""",'+91 20 2567 0000,Coffee shop,OPERATIONAL,https://stub-cafe.example/,` +
+        'hello@stub-cafe.example; orders@stub-cafe.example,https://www.instagram.com/stubcafe,4.5,"1,234",N/A,'
+    ));
+    // The address' line break stays inside its quoted cell
+    assert.ok(rows[1].includes(',"FC Road\nPune; Maharashtra",N/A,18.52,73.84,'));
+    assert.ok(rows[2].startsWith(",N/A,'+91 20 2567 0000,"));
+  });
+
+  test("keeps spreadsheets from running scraped csv values as formulas", async () => {
+    const row = (await (await fetch(`${baseUrl}/leads/export-formulas`)).text()).split('\r\n')[1];
+
+    assert.ok(row.startsWith(`ChIJStubPlace,"'=HYPERLINK(""https://evil.example"",""Stub Cafe"")",'+91 20 2567 0000,'-2+3,OPERATIONAL,'@SUM(1+1),`));
+    // Negative coordinates are numbers, not formulas
+    assert.ok(row.includes(",'\tFC Road,N/A,-33.86,73.84,"));
+  });
+
+  test("keeps selector provenance and every field in ndjson", async () => {
+    const lines = (await (await fetch(`${baseUrl}/leads/export?format=ndjson`)).text()).trim().split('\n').map(line => JSON.parse(line));
+
+    assert.equal(lines.length, 2);
+    assert.deepEqual(lines[0], lead);
+  });
+
+  test("escapes vCard text values and folds long lines", async () => {
+    const cards = (await (await fetch(`${baseUrl}/leads/export?format=vcard`)).text()).split('END:VCARD\r\n').filter(card => card !== '');
+    const lines = cards[0].split('\r\n');
+
+    assert.ok(lines.includes('FN:Stub Cafe\\, "The Original"'));
+    assert.ok(lines.includes('UID:urn:gmaps:ChIJStubPlace'));
+    assert.ok(lines.includes('TEL;VALUE=uri;TYPE=work:tel:+912025670000'));
+    assert.ok(lines.includes('EMAIL;TYPE=work:orders@stub-cafe.example'));
+    assert.ok(lines.includes('GEO:geo:18.52,73.84'));
+    assert.ok(lines.every(line => Buffer.byteLength(line) <= 75));
+    // The folded address label continues on lines starting with a space
+    assert.ok(cards[0].replace(/\r\n /g, '').includes('ADR;TYPE=work;LABEL="FC Road, Pune; Maharashtra":;;;Pune;Maharashtra;;India'));
+
+    assert.ok(cards[1].includes('FN:Unknown business\r\n'));
+    assert.ok(!cards[1].includes('ORG:') && !cards[1].includes('UID:') && !cards[1].includes('EMAIL'));
+  });
+});
@@ -0,0 +1,85 @@
+import {after, describe, mock, test} from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+describe("lead filter router", async () => {
+  // The rules path is read once when the router module loads
+  const rulesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lead-routing-'));
+  const rulesPath = path.join(rulesDir, 'rules.json');
+  process.env.LEAD_ROUTING_RULES_PATH = rulesPath;
+  const { DEFAULT_LEAD_ROUTING_RULES, getLeadRoutingRules, leadFilter, LeadRoutingRulesSchema } = await import("../src/utils/lead-filter-router");
+
+  after(() => {
+    fs.rmSync(rulesDir, { recursive: true, force: true });
+  });
+
+  test("routes to the first rule whose channels match", () => {
+    const route = (leadInfo: Parameters<typeof leadFilter>[0]['leadInfo']) => leadFilter({ leadInfo }, DEFAULT_LEAD_ROUTING_RULES).scenario;
+
+    assert.equal(route({ email: 'hello@stub-cafe.example', phoneNumber: '02025670000', websiteUrl: 'https://stub-cafe.example/', socialProfiles: ['https://www.instagram.com/stubcafe'] }), 'allContactInfo');
+    assert.equal(route({ email: ['hello@stub-cafe.example'], phoneNumber: '02025670000' }), 'emailAndPhone');
+    // Scraped leads name the field website instead of websiteUrl
+    assert.equal(route({ phoneNumber: '02025670000', website: 'https://stub-cafe.example/' }), 'phoneAndWebsite');
+    assert.equal(route({}), 'noContactInfo');
+  });
+
+  test("treats blank and N/A values as missing channels", () => {
+    const decision = leadFilter({ leadInfo: { email: ['', 'N/A'], phoneNumber: ' ', website: 'N/A', socialProfiles: ['https://x.com/stubcafe'] } }, DEFAULT_LEAD_ROUTING_RULES);
+
+    assert.equal(decision.scenario, 'socialProfilesOnly');
+    assert.ok(!('when' in decision));
+  });
+
+  test("reports leads no custom rule matches as unmatched", () => {
+    const rules = LeadRoutingRulesSchema.parse([{ scenario: 'phoneOnly', primaryAction: 'Call', system: 'Cold Call System', when: { phone: true, email: false } }]);
+
+    assert.equal(leadFilter({ leadInfo: { phoneNumber: '02025670000' } }, rules).scenario, 'phoneOnly');
+    assert.equal(leadFilter({ leadInfo: { phoneNumber: '02025670000', email: 'hello@stub-cafe.example' } }, rules).scenario, 'unmatched');
+  });
+
+  test("rejects empty rule sets and defaults missing conditions to a catch-all", () => {
+    assert.equal(LeadRoutingRulesSchema.safeParse([]).success, false);
+    assert.equal(LeadRoutingRulesSchema.safeParse([{ scenario: '', primaryAction: 'Call', system: 'Cold Call System' }]).success, false);
+    assert.deepEqual(LeadRoutingRulesSchema.parse([{ scenario: 'everyone', primaryAction: 'Call', system: 'Cold Call System' }])[0].when, {});
+  });
+
+  test("reloads the rules file when it changes and keeps the last good rules when it is invalid", () => {
+    const reads = mock.method(fs, 'readFileSync');
+    const rulesFileReads = () => reads.mock.calls.filter(call => call.arguments[0] === rulesPath).length;
+    const errorLines: string[] = [];
+    const stderrWrite = mock.method(process.stderr, 'write', (chunk: string) => {
+      errorLines.push(...String(chunk).split('\n').filter(line => line.includes('lead routing rules')));
+      return true;
+    });
+
+    try {
+      // A missing file is reported once, not for every routed lead
+      assert.equal(getLeadRoutingRules(), DEFAULT_LEAD_ROUTING_RULES);
+      assert.equal(getLeadRoutingRules(), DEFAULT_LEAD_ROUTING_RULES);
+      assert.equal(errorLines.length, 1);
+
+      fs.writeFileSync(rulesPath, JSON.stringify([{ scenario: 'everyone', primaryAction: 'Email', system: 'Cold Email System' }]));
+      fs.utimesSync(rulesPath, new Date(), new Date(1000));
+      assert.deepEqual(getLeadRoutingRules().map(rule => rule.scenario), ['everyone']);
+
+      fs.writeFileSync(rulesPath, '[{"scenario": ');
+      fs.utimesSync(rulesPath, new Date(), new Date(2000));
+      const readsBeforeInvalid = rulesFileReads();
+      assert.deepEqual(getLeadRoutingRules().map(rule => rule.scenario), ['everyone']);
+      // The broken file is neither read nor reported again until it changes
+      assert.deepEqual(getLeadRoutingRules().map(rule => rule.scenario), ['everyone']);
+      assert.equal(rulesFileReads(), readsBeforeInvalid + 1);
+      assert.equal(errorLines.length, 2);
+
+      fs.writeFileSync(rulesPath, JSON.stringify([]));
+      fs.utimesSync(rulesPath, new Date(), new Date(3000));
+      assert.deepEqual(getLeadRoutingRules().map(rule => rule.scenario), ['everyone']);
+      assert.equal(rulesFileReads(), readsBeforeInvalid + 2);
+    } finally {
+      reads.mock.restore();
+      stderrWrite.mock.restore();
+    }
+  });
+});
@@ -0,0 +1,136 @@
+import {describe, test} from "node:test";
+import assert from "node:assert/strict";
+import {
+  diffLeadSnapshots,
+  findLeadRunPair,
+  getLeadSeriesKey,
+  isCompleteLeadRun,
+  TLeadRun,
+  TLeadSnapshot,
+  TLeadSnapshotValues
+} from "../src/functions/lead-history";
+
+const SERIES_KEY = 'india|maharashtra|pune|cafes';
+
+const values = (overrides: Partial<TLeadSnapshotValues> = {}): TLeadSnapshotValues => ({
+  name: 'Stub Cafe',
+  phoneNumber: '02025670000',
+  website: 'N/A',
+  address: 'FC Road, Pune',
+  category: 'Coffee shop',
+  businessStatus: 'OPERATIONAL',
+  rating: 4.5,
+  reviewCount: 120,
+  ...overrides
+});
+
+const snapshot = (runId: string, placeId: string, snapshotValues: TLeadSnapshotValues): TLeadSnapshot => ({
+  runId,
+  seriesKey: SERIES_KEY,
+  placeId,
+  capturedAt: new Date(),
+  values: snapshotValues
+});
+
+const run = (runId: string, day: number, complete: boolean): TLeadRun => ({
+  runId,
+  seriesKey: SERIES_KEY,
+  country: 'India',
+  state: 'Maharashtra',
+  city: 'Pune',
+  querySlug: 'cafes',
+  capturedAt: new Date(Date.UTC(2026, 9, day)),
+  leadsCount: 20,
+  complete,
+  missedPagesCount: complete ? 0 : 3
+});
+
+type TRunCondition = TLeadRun[keyof TLeadRun] | { $ne?: unknown; $lt?: Date; $lte?: Date };
+
+// Answers findOne like MongoDB does for the equality, $ne, $lt and $lte filters and the capturedAt sort run lookups use
+const createRunLookup = (runs: TLeadRun[]) => ({
+  findOne: async (filter: Record<string, TRunCondition>, options: { skip?: number } = {}) => {
+    const matching = runs
+        .filter(candidate => Object.entries(filter).every(([field, condition]) => {
+          const value = candidate[field as keyof TLeadRun];
+          if (!(condition instanceof Object) || condition instanceof Date) return value === condition;
+          return ('$ne' in condition ? value !== condition.$ne : true)
+              && (condition.$lt ? value < condition.$lt : true)
+              && (condition.$lte ? value <= condition.$lte : true);
+        }))
+        .sort((a, b) => b.capturedAt.getTime() - a.capturedAt.getTime());
+    return matching[options.skip ?? 0] ?? null;
+  }
+}) as unknown as Parameters<typeof findLeadRunPair>[0];
+
+describe("lead history", () => {
+  test("finds new, disappeared and closed businesses", () => {
+    const diff = diffLeadSnapshots(
+        [snapshot('a', 'kept', values()), snapshot('a', 'gone', values({ name: 'Old Cafe' })), snapshot('a', 'closing', values({ name: 'Closing Cafe' }))],
+        [snapshot('b', 'kept', values()), snapshot('b', 'new', values({ name: 'New Cafe' })), snapshot('b', 'closing', values({ name: 'Closing Cafe', businessStatus: 'CLOSED_PERMANENTLY' }))]
+    );
+
+    assert.deepEqual(diff.added.map(lead => lead.placeId), ['new']);
+    assert.deepEqual(diff.removed.map(lead => lead.placeId), ['gone']);
+    assert.deepEqual(diff.closed.map(change => [change.placeId, change.to]), [['closing', 'CLOSED_PERMANENTLY']]);
+    assert.deepEqual(diff.summary, { added: 1, removed: 1, closed: 1, businessStatus: 1 });
+  });
+
+  test("reports rating, review, website and phone changes", () => {
+    const diff = diffLeadSnapshots(
+        [snapshot('a', 'cafe', values())],
+        [snapshot('b', 'cafe', values({ rating: 4.2, reviewCount: 131, website: 'https://stub-cafe.example/', phoneNumber: '02025671111' }))]
+    );
+
+    assert.deepEqual(diff.changes.map(({ field, kind, from, to, delta }) => ({ field, kind, from, to, delta })), [
+      { field: 'phoneNumber', kind: 'changed', from: '02025670000', to: '02025671111', delta: undefined },
+      { field: 'website', kind: 'added', from: null, to: 'https://stub-cafe.example/', delta: undefined },
+      { field: 'rating', kind: 'changed', from: 4.5, to: 4.2, delta: -0.3 },
+      { field: 'reviewCount', kind: 'changed', from: 120, to: 131, delta: 11 }
+    ]);
+  });
+
+  test("ignores fields that stayed empty", () => {
+    const diff = diffLeadSnapshots([snapshot('a', 'cafe', values({ rating: null }))], [snapshot('b', 'cafe', values({ rating: null }))]);
+
+    assert.deepEqual(diff.changes, []);
+  });
+
+  test("treats differently written locations as the same series", () => {
+    assert.equal(
+        getLeadSeriesKey({ country: 'India', state: ' Maharashtra', city: 'PUNE', querySlug: 'cafes' }),
+        getLeadSeriesKey({ country: 'india', state: 'maharashtra', city: 'Pune ', querySlug: 'cafes' })
+    );
+  });
+
+  test("only trusts runs that reached every place", () => {
+    assert.equal(isCompleteLeadRun({ complete: true }), true);
+    assert.equal(isCompleteLeadRun({ complete: false }), false);
+    // Recorded before completeness was tracked
+    assert.equal(isCompleteLeadRun({} as { complete: boolean }), true);
+  });
+
+  test("compares the latest complete run with the complete run before it", async () => {
+    const runs = createRunLookup([run('first', 1, true), run('second', 2, true), run('cancelled', 3, false)]);
+
+    const { fromRun, toRun } = await findLeadRunPair(runs, SERIES_KEY, {}, {});
+
+    assert.equal(toRun.runId, 'second');
+    assert.equal(fromRun.runId, 'first');
+  });
+
+  test("compares an incomplete run picked by id with the complete run before it", async () => {
+    const runs = createRunLookup([run('first', 1, true), run('second', 2, true), run('cancelled', 3, false), run('later', 4, true)]);
+
+    const { fromRun, toRun } = await findLeadRunPair(runs, SERIES_KEY, {}, { runId: 'cancelled' });
+
+    assert.equal(toRun.runId, 'cancelled');
+    assert.equal(fromRun.runId, 'second');
+  });
+
+  test("has no earlier side for the first run of a series", async () => {
+    const runs = createRunLookup([run('first', 1, true)]);
+
+    await assert.rejects(findLeadRunPair(runs, SERIES_KEY, {}, {}), { name: 'LeadRunNotFoundError' });
+  });
+});
@@ -0,0 +1,65 @@
+import {describe, test} from "node:test";
+import assert from "node:assert/strict";
+import {TGoogleMapLeadInfo} from "../src/functions/gmap-details-lead-extractor";
+import {hasMissingLeadFields, mergeLeadInfo} from "../src/functions/lead-merge";
+
+const apiLead: TGoogleMapLeadInfo = {
+  website: 'N/A',
+  phoneNumber: '02025670000',
+  name: 'Stub Cafe',
+  gmapsUrl: 'https://maps.google.com/?cid=12345678901',
+  overAllRating: '4.5',
+  numberOfReviews: '1,234',
+  address: 'FC Road, Pune, Maharashtra 411004, India',
+  category: 'Coffee shop',
+  plusCode: 'N/A',
+  priceLevel: 'Moderate',
+  latitude: 18.52,
+  longitude: 73.84,
+  googlePlaceId: 'ChIJStubPlace',
+  cid: '12345678901',
+  businessStatus: 'OPERATIONAL'
+};
+
+const browserLead: TGoogleMapLeadInfo = {
+  ...apiLead,
+  website: 'https://stub-cafe.example/',
+  phoneNumber: '020 2567 0000',
+  gmapsUrl: 'https://www.google.com/maps/place/Stub+Cafe/data=!4m2!3m1!1s0x3bc2c0:0x2dfdc8f2d5',
+  overAllRating: '4.4',
+  plusCode: 'GRF2+X4 Pune, Maharashtra',
+  googlePlaceId: 'N/A'
+};
+
+describe("lead merge", () => {
+  test("only sends leads missing contact or identity fields to the browser", () => {
+    assert.equal(hasMissingLeadFields(apiLead), true);
+    assert.equal(hasMissingLeadFields({ ...apiLead, website: 'https://stub-cafe.example/' }), false);
+    // Price level and plus code are often legitimately empty and not worth a page visit
+    assert.equal(hasMissingLeadFields({ ...apiLead, website: 'https://stub-cafe.example/', priceLevel: 'N/A' }), false);
+  });
+
+  test("keeps API values and fills the gaps from the browser", () => {
+    const merged = mergeLeadInfo(apiLead, browserLead);
+
+    assert.equal(merged.website, 'https://stub-cafe.example/');
+    assert.equal(merged.plusCode, 'GRF2+X4 Pune, Maharashtra');
+    assert.equal(merged.phoneNumber, '02025670000');
+    assert.equal(merged.overAllRating, '4.5');
+    assert.equal(merged.googlePlaceId, 'ChIJStubPlace');
+  });
+
+  test("prefers the Maps page url so the lead is stored under its feature id", () => {
+    assert.equal(mergeLeadInfo(apiLead, browserLead).gmapsUrl, browserLead.gmapsUrl);
+    assert.equal(mergeLeadInfo(apiLead, { ...browserLead, gmapsUrl: 'N/A' }).gmapsUrl, apiLead.gmapsUrl);
+  });
+
+  test("keeps the selector provenance of page values only", () => {
+    const merged = mergeLeadInfo(apiLead, {
+      ...browserLead,
+      extraction: { profileVersion: 'builtin-1', selectors: { website: 'a[data-item-id="authority"]', phoneNumber: 'button[data-item-id^="phone:tel:"]' } }
+    });
+
+    assert.deepEqual(merged.extraction, { profileVersion: 'builtin-1', selectors: { website: 'a[data-item-id="authority"]' } });
+  });
+});
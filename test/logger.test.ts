@@ -0,0 +1,67 @@
+import {describe, test} from "node:test";
+import assert from "node:assert/strict";
+
+// Collects the log lines written to stdout or stderr while work runs, the test runner shares the same streams
+const captureLines = async (stream: NodeJS.WriteStream, work: () => void | Promise<void>) => {
+  const lines: string[] = [];
+  const write = stream.write;
+  stream.write = ((chunk: string) => {
+    lines.push(...String(chunk).split('\n').filter(line => line.startsWith('{"time"')));
+    return true;
+  }) as typeof stream.write;
+
+  try {
+    await work();
+  } finally {
+    stream.write = write;
+  }
+  return lines.map(line => JSON.parse(line));
+};
+
+describe("logger", async () => {
+  // Levels are read once when the logger module loads
+  process.env.LOG_LEVEL = 'info';
+  process.env.LOG_MODULE_LEVELS = 'verbose-module=debug';
+  const { createLogger, withLogContext } = await import("../src/utils/logger");
+
+  test("keeps debug output off unless the module's level asks for it", async () => {
+    const lines = await captureLines(process.stdout, () => {
+      createLogger('quiet-module').debug('per url detail');
+      createLogger('quiet-module').info('batch finished');
+      createLogger('verbose-module').debug('per url detail');
+    });
+
+    assert.deepEqual(lines.map(line => [line.module, line.level, line.msg]), [
+      ['quiet-module', 'info', 'batch finished'],
+      ['verbose-module', 'debug', 'per url detail']
+    ]);
+  });
+
+  test("adds the correlation fields of nested contexts across awaits", async () => {
+    const logger = createLogger('verbose-module');
+
+    const lines = await captureLines(process.stdout, () => withLogContext({ jobId: 'job-1' }, () =>
+        withLogContext({ batch: 3, url: 'https://www.google.com/maps/place/Blue+Tokai' }, async () => {
+          await new Promise(resolve => setTimeout(resolve, 1));
+          logger.info('Processed page', { browser: 2 });
+        })
+    ));
+
+    assert.equal(lines.length, 1);
+    assert.equal(lines[0].jobId, 'job-1');
+    assert.equal(lines[0].batch, 3);
+    assert.equal(lines[0].url, 'https://www.google.com/maps/place/Blue+Tokai');
+    assert.equal(lines[0].browser, 2);
+    assert.ok(!Number.isNaN(Date.parse(lines[0].time)));
+  });
+
+  test("writes warnings and errors to stderr with the error's message", async () => {
+    const lines = await captureLines(process.stderr, () => {
+      createLogger('quiet-module').error('Scrape job failed', { error: new Error('Navigation timeout') });
+    });
+
+    assert.equal(lines[0].level, 'error');
+    assert.equal(lines[0].error.message, 'Navigation timeout');
+    assert.equal(lines[0].error.name, 'Error');
+  });
+});
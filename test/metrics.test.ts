@@ -0,0 +1,38 @@
+import {describe, test} from "node:test";
+import assert from "node:assert/strict";
+import {extractionDurationSeconds, measureDuration, metricsRegistry} from "../src/functions/common/metrics";
+import "../src/functions/common/browser-pool";
+
+describe("metrics", () => {
+  test("exposes scraper, pool and process metrics in Prometheus text format", async () => {
+    const metrics = await metricsRegistry.metrics();
+
+    assert.match(metricsRegistry.contentType, /^text\/plain/);
+    for (const name of [
+      'scraper_pages_scraped_total',
+      'scraper_pages_failed_total',
+      'scraper_page_load_duration_seconds',
+      'scraper_batch_duration_seconds',
+      'scraper_browser_launch_failures_total',
+      'places_api_requests_total',
+      'process_resident_memory_bytes'
+    ]) {
+      assert.match(metrics, new RegExp(`^# TYPE ${name} `, 'm'));
+    }
+    assert.match(metrics, /^scraper_active_browsers 0$/m);
+    assert.match(metrics, /^scraper_active_pages 0$/m);
+  });
+
+  test("measures work that throws as well", async () => {
+    const countOf = async () => (await extractionDurationSeconds.get()).values
+        .find(({ metricName, labels }) => metricName === 'scraper_extraction_duration_seconds_count' && labels.page_type === 'website')?.value ?? 0;
+    const before = await countOf();
+
+    await measureDuration(extractionDurationSeconds, 'website', async () => 'read');
+    await assert.rejects(measureDuration(extractionDurationSeconds, 'website', async () => {
+      throw new Error('page closed');
+    }));
+
+    assert.equal(await countOf() - before, 2);
+  });
+});
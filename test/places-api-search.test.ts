@@ -0,0 +1,179 @@
+import {after, before, beforeEach, describe, test} from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import {AddressInfo} from "net";
+import {TGoogleMapsUrls} from "../src/utils/helpers";
+
+type TStubResponse = {
+  status: number;
+  body: unknown;
+}
+
+type TStubRequest = {
+  fieldMask: string;
+  body: Record<string, unknown>;
+}
+
+const PUNE_VIEWPORT = {
+  low: { latitude: 18.41, longitude: 73.74 },
+  high: { latitude: 18.63, longitude: 73.98 }
+};
+
+const createPlace = (index: number) => ({
+  id: `ChIJStubPlace${index}`,
+  displayName: { text: `Stub Cafe ${index}` },
+  formattedAddress: `${index} FC Road, Pune, Maharashtra 411004, India`,
+  location: { latitude: 18.52 + index / 1000, longitude: 73.84 },
+  plusCode: { globalCode: '7JCMGRF2+X4', compoundCode: 'GRF2+X4 Pune, Maharashtra' },
+  primaryTypeDisplayName: { text: 'Coffee shop' },
+  businessStatus: 'OPERATIONAL',
+  googleMapsUri: `https://maps.google.com/?cid=1234567890${index}`,
+  nationalPhoneNumber: '020 2567 0000',
+  websiteUri: `https://stub-cafe-${index}.example/`,
+  rating: 4.5,
+  userRatingCount: 1234,
+  priceLevel: 'PRICE_LEVEL_MODERATE'
+});
+
+const target = (city: string): TGoogleMapsUrls => ({ city, state: 'Maharashtra', country: 'India', query: 'cafes', url: '' });
+
+describe("Places API search", async () => {
+  const requests: TStubRequest[] = [];
+  let respond: (request: TStubRequest) => TStubResponse;
+
+  const server = http.createServer((req, res) => {
+    let rawBody = '';
+    req.on('data', chunk => rawBody += chunk);
+    req.on('end', () => {
+      const request = { fieldMask: String(req.headers['x-goog-fieldmask']), body: JSON.parse(rawBody) };
+      requests.push(request);
+
+      const { status, body } = respond(request);
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  // Point the client at the stub and keep retries fast
+  process.env.GOOGLE_PLACES_API_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  process.env.GOOGLE_MAPS_PLACES_API_KEY = 'stub-key';
+  process.env.PLACES_API_RETRY_BASE_DELAY_MS = '1';
+  const { searchPlacesForTargets, searchPlacesInCity } = await import("../src/functions/places-api-search");
+  const { runGmapsScrapePipeline } = await import("../src/functions/gmaps-scrape-pipeline");
+  const { placesApiRequestsTotal } = await import("../src/functions/common/metrics");
+
+  // Answers city lookups with a viewport and business searches with two pages of places
+  const respondWithPlaces = (request: TStubRequest): TStubResponse => {
+    if (request.body.includedType === 'locality') return { status: 200, body: { places: [{ viewport: PUNE_VIEWPORT }] } };
+    if (!request.body.pageToken) return { status: 200, body: { places: [createPlace(1), createPlace(2)], nextPageToken: 'page-2' } };
+    return { status: 200, body: { places: [createPlace(3)] } };
+  };
+
+  before(() => {
+    respond = respondWithPlaces;
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test("searches inside the city's viewport, follows pages and maps places to leads", async () => {
+    const leads = await searchPlacesInCity(target('Pune'), { fieldMask: 'enterprise', locationMode: 'restriction' });
+
+    assert.equal(leads.length, 3);
+    assert.deepEqual(requests[1].body.locationRestriction, { rectangle: PUNE_VIEWPORT });
+    assert.equal(requests[1].body.textQuery, 'cafes');
+    assert.equal(requests[2].body.pageToken, 'page-2');
+    assert.match(requests[1].fieldMask, /places\.websiteUri/);
+
+    assert.deepEqual(leads[0], {
+      website: 'https://stub-cafe-1.example/',
+      phoneNumber: '02025670000',
+      name: 'Stub Cafe 1',
+      gmapsUrl: 'https://maps.google.com/?cid=12345678901',
+      overAllRating: '4.5',
+      numberOfReviews: '1,234',
+      address: '1 FC Road, Pune, Maharashtra 411004, India',
+      category: 'Coffee shop',
+      plusCode: 'GRF2+X4 Pune, Maharashtra',
+      priceLevel: 'Moderate',
+      latitude: 18.521,
+      longitude: 73.84,
+      googlePlaceId: 'ChIJStubPlace1',
+      cid: '12345678901',
+      businessStatus: 'OPERATIONAL'
+    });
+  });
+
+  test("biases instead of restricting and only asks for the preset's fields", async () => {
+    await searchPlacesInCity(target('Pune'), { fieldMask: 'ids', locationMode: 'bias' });
+
+    assert.deepEqual(requests[1].body.locationBias, { rectangle: PUNE_VIEWPORT });
+    assert.equal(requests[1].fieldMask, 'places.id,places.name,places.attributions,nextPageToken');
+  });
+
+  test("retries rate limited and failing requests", async () => {
+    let failures = 2;
+    respond = (request) => {
+      if (failures-- > 0) return { status: failures === 1 ? 429 : 503, body: { error: { status: 'UNAVAILABLE', message: 'try again' } } };
+      return respondWithPlaces(request);
+    };
+
+    const countByStatus = async () => Object.fromEntries((await placesApiRequestsTotal.get()).values.map(({ labels, value }) => [labels.status, value]));
+    const before = await countByStatus();
+
+    const leads = await searchPlacesInCity(target('Pune'), { fieldMask: 'enterprise', locationMode: 'restriction' });
+    respond = respondWithPlaces;
+
+    assert.equal(leads.length, 3);
+    const after = await countByStatus();
+    assert.equal((after['429'] ?? 0) - (before['429'] ?? 0), 1);
+    assert.equal((after['503'] ?? 0) - (before['503'] ?? 0), 1);
+  });
+
+  test("stops searching further cities once the quota is exhausted", async () => {
+    respond = () => ({ status: 429, body: { error: { status: 'RESOURCE_EXHAUSTED', message: 'Quota exceeded' } } });
+
+    const results = await searchPlacesForTargets([target('Pune'), target('Mumbai')], { fieldMask: 'enterprise', locationMode: 'restriction' });
+    respond = respondWithPlaces;
+
+    assert.match(results[0].error ?? '', /quota exceeded/i);
+    assert.equal(results[1].error, results[0].error);
+    // One first try plus the retries for the first city, nothing at all for the second
+    assert.equal(requests.length, 4);
+  });
+
+  test("runs the scrape pipeline from the API alone with the places_api source", async () => {
+    const leadUrls: string[] = [];
+
+    const result = await runGmapsScrapePipeline([target('Pune'), target('Mumbai')], null, {
+      onLeadPageResult: (url) => {
+        leadUrls.push(url);
+      }
+    }, { source: 'places_api', places: { fieldMask: 'enterprise', locationMode: 'restriction' } });
+
+    // Both cities return the same places, the first city keeps them
+    assert.equal(result.founded.length, 3);
+    assert.equal(result.allLeads.length, 3);
+    assert.ok(result.allLeads.every(lead => lead.source === 'places_api'));
+    assert.deepEqual(leadUrls, result.founded);
+    assert.equal(leadUrls[0], 'https://www.google.com/maps/place/?q=place_id:ChIJStubPlace1');
+    assert.deepEqual(result.errors, []);
+  });
+
+  test("records failed cities as api errors in the pipeline", async () => {
+    respond = () => ({ status: 400, body: { error: { status: 'INVALID_ARGUMENT', message: 'Bad query' } } });
+
+    const result = await runGmapsScrapePipeline([target('Pune')], null, {}, { source: 'places_api' });
+    respond = respondWithPlaces;
+
+    assert.equal(result.founded.length, 0);
+    assert.equal(result.errors[0].type, 'api_error');
+    assert.match(result.errors[0].message, /Bad query/);
+  });
+});
@@ -0,0 +1,20 @@
+import {describe, test} from "node:test";
+import assert from "node:assert/strict";
+import {TApiKey} from "../src/functions/api-keys";
+import {cancelScrape, registerScrape, unregisterScrape} from "../src/functions/scrape-cancellation";
+
+describe("scrape cancellation", () => {
+  test("only cancels scrapes started by the same key", () => {
+    const controller = registerScrape('owned-scrape', 'key-1');
+
+    assert.equal(cancelScrape('owned-scrape', { _id: 'key-2' } as TApiKey), false);
+    assert.equal(cancelScrape('owned-scrape'), false);
+    assert.equal(controller.signal.aborted, false);
+
+    assert.equal(cancelScrape('owned-scrape', { _id: 'key-1' } as TApiKey), true);
+    assert.equal(controller.signal.aborted, true);
+
+    unregisterScrape('owned-scrape');
+    assert.equal(cancelScrape('owned-scrape', { _id: 'key-1' } as TApiKey), false);
+  });
+});
@@ -0,0 +1,38 @@
+import {describe, test} from "node:test";
+import assert from "node:assert/strict";
+import {classifyScrapeError, getRetryDelayMs, ScrapeError} from "../src/functions/common/scrape-errors";
+
+// Mirrors the error puppeteer throws, so these tests need no browser
+class TimeoutError extends Error {
+  name = 'TimeoutError';
+}
+
+describe("classifyScrapeError", () => {
+  test("uses the type a scraper gave its own errors", () => {
+    assert.equal(classifyScrapeError(new ScrapeError('empty_results', 'no feed')), 'empty_results');
+  });
+
+  test("tells navigation timeouts from missing selectors", () => {
+    assert.equal(classifyScrapeError(new TimeoutError('Navigation timeout of 15000 ms exceeded')), 'timeout');
+    assert.equal(classifyScrapeError(new TimeoutError('Waiting for selector `div[role="feed"]` failed: Waiting failed: 30000ms exceeded')), 'selector_missing');
+  });
+
+  test("recognises navigation failures and browser crashes", () => {
+    assert.equal(classifyScrapeError(new Error('net::ERR_CONNECTION_REFUSED at http://127.0.0.1:9/')), 'navigation');
+    assert.equal(classifyScrapeError(new Error('Protocol error (Page.navigate): Target closed')), 'browser_crash');
+    assert.equal(classifyScrapeError(new Error('Navigating frame was detached')), 'browser_crash');
+  });
+
+  test("falls back to unknown for anything else", () => {
+    assert.equal(classifyScrapeError(new Error('Cannot read properties of undefined')), 'unknown');
+    assert.equal(classifyScrapeError('plain string'), 'unknown');
+  });
+});
+
+describe("getRetryDelayMs", () => {
+  test("doubles the delay for every attempt up to the cap", () => {
+    assert.equal(getRetryDelayMs(2), getRetryDelayMs(1) * 2);
+    assert.equal(getRetryDelayMs(3), getRetryDelayMs(1) * 4);
+    assert.equal(getRetryDelayMs(50), getRetryDelayMs(60));
+  });
+});
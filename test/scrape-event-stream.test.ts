@@ -0,0 +1,130 @@
+import {after, before, describe, test} from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import {AddressInfo} from "net";
+import express from "express";
+import {TScrapeEvent} from "../src/utils/scrape-events";
+
+type TReceivedEvent = {
+  id?: string;
+  event: string;
+  data: TScrapeEvent;
+}
+
+const parseEvents = (text: string): TReceivedEvent[] => text
+    .split('\n\n')
+    .filter(block => block.trim() !== '')
+    .map(block => {
+      const fields = Object.fromEntries(block.split('\n').map(line => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 2)]));
+      return { id: fields.id, event: fields.event, data: JSON.parse(fields.data) };
+    });
+
+// Reads the stream until it ends or the expected number of events arrived, then disconnects
+const readEvents = async (url: string, count: number, headers: Record<string, string> = {}): Promise<TReceivedEvent[]> => {
+  const controller = new AbortController();
+  const response = await fetch(url, { headers, signal: controller.signal });
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+
+  while (parseEvents(text).length < count) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value, { stream: true });
+  }
+
+  controller.abort();
+  return parseEvents(text);
+};
+
+describe("scrape event stream", async () => {
+  // Short windows so abandonment and heartbeats happen within the test
+  process.env.SSE_RESUME_WINDOW_MS = '200';
+  process.env.SSE_HEARTBEAT_INTERVAL_MS = '50';
+  const { createScrapeEventStream, getScrapeEventStream } = await import("../src/functions/common/scrape-event-stream");
+
+  let server: http.Server;
+  let baseUrl = '';
+
+  before(async () => {
+    const app = express();
+    app.get('/events/:id', (req, res) => {
+      getScrapeEventStream(req.params.id)?.attach(res, req.get('Last-Event-ID'));
+    });
+
+    server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test("sends numbered, named and versioned events", async () => {
+    const stream = createScrapeEventStream('numbered', () => undefined);
+    stream.emit({ type: 'status', message: 'Starting', data: { stage: 'api_start' } });
+    stream.emit({ type: 'progress', message: 'Halfway', data: { current: 1, total: 2, percentage: 50 } });
+    stream.end();
+
+    const events = await readEvents(`${baseUrl}/events/numbered`, 2);
+
+    assert.deepEqual(events.map(event => [event.id, event.event]), [['1', 'status'], ['2', 'progress']]);
+    assert.equal(events[1].data.version, 1);
+    assert.equal(events[1].data.type, 'progress');
+    assert.ok(events[1].data.timestamp);
+  });
+
+  test("replays only the events after Last-Event-ID", async () => {
+    const stream = createScrapeEventStream('resume', () => undefined);
+    ['one', 'two', 'three'].forEach(message => stream.emit({ type: 'status', message, data: { stage: 'processing' } }));
+    stream.end();
+
+    const events = await readEvents(`${baseUrl}/events/resume`, 3, { 'Last-Event-ID': '1' });
+
+    assert.deepEqual(events.map(event => event.data.message), ['two', 'three']);
+  });
+
+  test("sends heartbeats without ids while the scrape is quiet", async () => {
+    const stream = createScrapeEventStream('heartbeat', () => undefined);
+
+    const events = await readEvents(`${baseUrl}/events/heartbeat`, 1);
+    stream.end();
+
+    assert.equal(events[0].event, 'heartbeat');
+    assert.equal(events[0].id, undefined);
+  });
+
+  test("accepts only its own access token", () => {
+    const stream = createScrapeEventStream('token', () => undefined, 'key-1');
+    const otherStream = createScrapeEventStream('other-token', () => undefined, 'key-1');
+
+    assert.equal(stream.hasAccessToken(stream.accessToken), true);
+    assert.equal(stream.hasAccessToken(otherStream.accessToken), false);
+    assert.equal(stream.hasAccessToken(`${stream.accessToken}x`), false);
+    assert.equal(stream.hasAccessToken(undefined), false);
+
+    stream.end();
+    otherStream.end();
+  });
+
+  test("gives up on the scrape only when no client reconnects in time", async () => {
+    let abandoned = false;
+    const stream = createScrapeEventStream('abandoned', () => {
+      abandoned = true;
+    });
+    stream.emit({ type: 'status', message: 'Starting', data: { stage: 'api_start' } });
+
+    await readEvents(`${baseUrl}/events/abandoned`, 1);
+    // Reconnecting inside the window keeps the scrape alive
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await readEvents(`${baseUrl}/events/abandoned`, 1, { 'Last-Event-ID': '0' });
+    await new Promise(resolve => setTimeout(resolve, 100));
+    assert.equal(abandoned, false);
+
+    await new Promise(resolve => setTimeout(resolve, 300));
+    assert.equal(abandoned, true);
+    stream.end();
+  });
+});
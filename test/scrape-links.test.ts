@@ -0,0 +1,77 @@
+import {after, before, describe, test} from "node:test";
+import assert from "node:assert/strict";
+import {Browser} from "puppeteer";
+import {launchTestBrowser} from "./fixtures/test-browser";
+import {startMapsFixtureServer, TMapsFixtureServer} from "./fixtures/maps-fixture-server";
+import {createLinksScraper, createSearchResultsScraper, scrapeLinks} from "../src/functions/scrape-links";
+import {ScrapeError} from "../src/functions/common/scrape-errors";
+
+describe("scrapeLinks", async () => {
+  let server: TMapsFixtureServer;
+  let browser: Browser | null = null;
+  const { browser: launchedBrowser, unavailableReason } = await launchTestBrowser();
+
+  before(async () => {
+    server = await startMapsFixtureServer();
+    browser = launchedBrowser;
+  });
+
+  after(async () => {
+    await browser?.close();
+    await server.close();
+  });
+
+  test("scrolls the result feed until the end of the list and returns every place", { skip: unavailableReason }, async () => {
+    const page = await browser!.newPage();
+    const links = await scrapeLinks(server.searchUrl("cafes in pune"), page);
+    await page.close();
+
+    assert.deepEqual(links, server.places.map(place => server.placeUrl(place)));
+  });
+
+  test("stops scrolling once the feed stops growing when the end of list marker never shows", { skip: unavailableReason }, async () => {
+    const page = await browser!.newPage();
+    const results = await createSearchResultsScraper()(server.searchUrl("endless cafes in pune"), page);
+    await page.close();
+
+    assert.deepEqual(results.links, server.places.map(place => server.placeUrl(place)));
+    assert.equal(results.endOfListFound, false);
+  });
+
+  test("stops scrolling when the scrape is cancelled and returns the listings loaded so far", { skip: unavailableReason }, async () => {
+    const page = await browser!.newPage();
+    const controller = new AbortController();
+    controller.abort();
+    const links = await scrapeLinks(server.searchUrl("cafes in pune"), page, controller.signal);
+    await page.close();
+
+    // Only the first page of listings was rendered before scrolling
+    assert.deepEqual(links, server.places.slice(0, 5).map(place => server.placeUrl(place)));
+  });
+
+  test("returns no links when the search has no results", { skip: unavailableReason }, async () => {
+    const page = await browser!.newPage();
+    const links = await scrapeLinks(server.searchUrl("empty search"), page);
+    await page.close();
+
+    assert.deepEqual(links, []);
+  });
+
+  test("reads a result feed served in Spanish to its end", { skip: unavailableReason }, async () => {
+    const page = await browser!.newPage();
+    const links = await createLinksScraper({ language: 'es' })(server.searchUrl("cafeterías en pune"), page);
+    await page.close();
+
+    assert.deepEqual(links, server.places.map(place => server.placeUrl(place)));
+  });
+
+  test("rejects a page without a result feed as empty results", { skip: unavailableReason }, async () => {
+    const page = await browser!.newPage();
+
+    await assert.rejects(
+        scrapeLinks(`${server.baseUrl}/not-a-maps-page`, page),
+        (error: unknown) => error instanceof ScrapeError && error.type === 'empty_results'
+    );
+    await page.close();
+  });
+});
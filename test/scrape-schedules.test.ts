@@ -0,0 +1,178 @@
+import {after, before, describe, test} from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import {AddressInfo} from "net";
+import express from "express";
+import {CREATE_SCHEDULE, UPDATE_SCHEDULE} from "../src/apis/SCHEDULES";
+import {
+  claimScheduleOccurrence,
+  getNextRunAt,
+  isValidCronExpression,
+  isValidTimeZone,
+  renewScheduleLock,
+  TScheduleLockStore,
+  TScrapeSchedule
+} from "../src/functions/scrape-schedules";
+
+const createSchedule = (overrides: Partial<TScrapeSchedule> = {}): TScrapeSchedule => ({
+  _id: 'schedule-1',
+  name: 'Weekly Pune cafes',
+  cron: '0 9 * * 1',
+  timezone: 'UTC',
+  request: { query: 'cafes', country: 'India', states: [{ name: 'Maharashtra', cities: ['Pune'] }], source: 'browser', fieldMask: 'enterprise', locationMode: 'restriction' },
+  enabled: true,
+  nextRunAt: new Date('2026-10-19T09:00:00Z'),
+  lock: null,
+  createdAt: new Date('2026-10-01T00:00:00Z'),
+  updatedAt: new Date('2026-10-01T00:00:00Z'),
+  ...overrides
+});
+
+type TCondition = { $lt?: Date } | unknown;
+
+const readPath = (document: object, path: string): unknown =>
+    path.split('.').reduce<unknown>((value, key) => (value as Record<string, unknown> | null | undefined)?.[key], document);
+
+const isSameValue = (value: unknown, expected: unknown) =>
+    value instanceof Date && expected instanceof Date ? value.getTime() === expected.getTime() : value === expected;
+
+// Matches the equality, $lt and $or filters the lock handling sends
+const matches = (document: object, filter: Record<string, TCondition>): boolean => Object.entries(filter).every(([path, condition]) => {
+  if (path === '$or') return (condition as Record<string, TCondition>[]).some(alternative => matches(document, alternative));
+
+  const value = readPath(document, path);
+  if (condition instanceof Object && !(condition instanceof Date) && '$lt' in condition) {
+    return value instanceof Date && condition.$lt instanceof Date && value < condition.$lt;
+  }
+  return isSameValue(value, condition);
+});
+
+const applySet = (document: TScrapeSchedule, set: Record<string, unknown>) => {
+  Object.entries(set).forEach(([path, value]) => {
+    const keys = path.split('.');
+    const parent = keys.slice(0, -1).reduce<Record<string, unknown>>((target, key) => target[key] as Record<string, unknown>, document);
+    parent[keys[keys.length - 1]] = value;
+  });
+};
+
+// Keeps schedules in memory and applies updates to them the way MongoDB would
+const createScheduleStore = (schedules: TScrapeSchedule[]) => {
+  const update = (filter: Record<string, TCondition>, { $set }: { $set: Record<string, unknown> }) => {
+    const schedule = schedules.find(candidate => matches(candidate, filter));
+    if (schedule) applySet(schedule, $set);
+    return schedule ?? null;
+  };
+
+  return {
+    findOneAndUpdate: async (filter: Record<string, TCondition>, changes: { $set: Record<string, unknown> }) => update(filter, changes),
+    updateOne: async (filter: Record<string, TCondition>, changes: { $set: Record<string, unknown> }) => {
+      const matchedCount = update(filter, changes) ? 1 : 0;
+      return { matchedCount, modifiedCount: matchedCount };
+    }
+  } as unknown as TScheduleLockStore;
+};
+
+describe("scrape schedules", () => {
+  test("only accepts five field cron expressions", () => {
+    assert.equal(isValidCronExpression('0 9 * * 1'), true);
+    assert.equal(isValidCronExpression('*/30 8-18 * * MON-FRI'), true);
+    assert.equal(isValidCronExpression('0 9 * *'), false);
+    assert.equal(isValidCronExpression('0 0 9 * * 1'), false);
+    assert.equal(isValidCronExpression('0 25 * * 1'), false);
+  });
+
+  test("validates IANA time zones", () => {
+    assert.equal(isValidTimeZone('Asia/Kolkata'), true);
+    assert.equal(isValidTimeZone('Mars/Olympus_Mons'), false);
+  });
+
+  test("evaluates the cron expression in the schedule's time zone", () => {
+    const after = new Date('2026-10-19T00:00:00Z');
+
+    assert.equal(getNextRunAt('0 9 * * 1', 'UTC', after).toISOString(), '2026-10-19T09:00:00.000Z');
+    assert.equal(getNextRunAt('0 9 * * 1', 'Asia/Kolkata', after).toISOString(), '2026-10-19T03:30:00.000Z');
+  });
+
+  test("keeps local run times across daylight saving changes", () => {
+    // Berlin moves from UTC+2 to UTC+1 on 25 October 2026
+    assert.equal(getNextRunAt('0 9 * * 1', 'Europe/Berlin', new Date('2026-10-19T12:00:00Z')).toISOString(), '2026-10-26T08:00:00.000Z');
+  });
+
+  test("claims a due occurrence once and moves to the next one", async () => {
+    const schedule = createSchedule();
+    const store = createScheduleStore([schedule]);
+    const now = new Date('2026-10-19T09:00:30Z');
+    const due = { ...schedule };
+
+    const claim = await claimScheduleOccurrence(store, due, now);
+
+    assert.equal(claim.outcome, 'claimed');
+    assert.equal(schedule.lock?.runId, claim.outcome === 'claimed' ? claim.lock.runId : undefined);
+    assert.equal(schedule.nextRunAt?.toISOString(), '2026-10-26T09:00:00.000Z');
+    // A second scheduler that read the same occurrence finds it already handled
+    assert.deepEqual(await claimScheduleOccurrence(store, due, now), { outcome: 'taken' });
+  });
+
+  test("skips an occurrence while the previous run still holds the lock", async () => {
+    const lock = { runId: 'previous-run', instanceId: 'scheduler-a', lockedAt: new Date('2026-10-12T09:00:00Z'), expiresAt: new Date('2026-10-19T09:04:00Z') };
+    const schedule = createSchedule({ lock });
+    const store = createScheduleStore([schedule]);
+
+    assert.deepEqual(await claimScheduleOccurrence(store, { ...schedule }, new Date('2026-10-19T09:00:30Z')), { outcome: 'skipped' });
+    assert.equal(schedule.lock?.runId, 'previous-run');
+    assert.equal(schedule.nextRunAt?.toISOString(), '2026-10-26T09:00:00.000Z');
+  });
+
+  test("keeps the lock of a long run alive while it renews and frees it once renewals stop", async () => {
+    const lockedAt = new Date('2026-10-19T09:00:00Z');
+    const schedule = createSchedule({ lock: { runId: 'long-run', instanceId: 'scheduler-a', lockedAt, expiresAt: new Date('2026-10-19T09:05:00Z') } });
+    const store = createScheduleStore([schedule]);
+
+    // Three hours in, the run renewed a moment ago
+    assert.equal(await renewScheduleLock(store, schedule._id, 'long-run', new Date('2026-10-19T12:00:00Z')), true);
+    assert.deepEqual(await claimScheduleOccurrence(store, { ...schedule }, new Date('2026-10-19T12:01:00Z')), { outcome: 'skipped' });
+
+    // Renewals stopped, the process running it died
+    const next = { ...schedule };
+    const claim = await claimScheduleOccurrence(store, next, new Date('2026-10-19T12:30:00Z'));
+    assert.equal(claim.outcome, 'claimed');
+    assert.equal(await renewScheduleLock(store, schedule._id, 'long-run'), false);
+  });
+});
+
+describe("schedule routes", () => {
+  let server: http.Server;
+  let baseUrl = '';
+  const placesApiKey = process.env.GOOGLE_MAPS_PLACES_API_KEY;
+
+  before(async () => {
+    delete process.env.GOOGLE_MAPS_PLACES_API_KEY;
+
+    const app = express();
+    app.use(express.json());
+    app.post('/schedules', CREATE_SCHEDULE);
+    app.patch('/schedules/:id', UPDATE_SCHEDULE);
+
+    server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    if (placesApiKey !== undefined) process.env.GOOGLE_MAPS_PLACES_API_KEY = placesApiKey;
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test("rejects Places API schedules while the Places API key is not configured", async () => {
+    const request = { query: 'cafes', country: 'India', states: [{ name: 'Maharashtra', cities: ['Pune'] }], source: 'hybrid' };
+    const send = (method: string, path: string, body: object) =>
+        fetch(`${baseUrl}${path}`, { method, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+    const created = await send('POST', '/schedules', { name: 'Weekly Pune cafes', cron: '0 9 * * 1', request });
+    assert.equal(created.status, 503);
+    assert.deepEqual(await created.json(), { success: false, error: "Places API key is not configured" });
+
+    const updated = await send('PATCH', '/schedules/schedule-1', { request: { ...request, source: 'places_api' } });
+    assert.equal(updated.status, 503);
+  });
+});
@@ -0,0 +1,173 @@
+import {after, before, describe, test} from "node:test";
+import assert from "node:assert/strict";
+import {launchTestBrowser} from "./fixtures/test-browser";
+import {startMapsFixtureServer, TMapsFixtureServer} from "./fixtures/maps-fixture-server";
+import {buildCanaryReport, runHealthCanary} from "../src/functions/scraper-health";
+import {DEFAULT_EXTRACTION_PROFILE, TReviewExtraction} from "../src/functions/extraction-profiles";
+import {TGoogleMapLeadInfo} from "../src/functions/gmap-details-lead-extractor";
+import {TGoogleMapReview, TPlaceReviews} from "../src/functions/gmaps-reviews-extractor";
+import {EachPageResult} from "../src/functions/common/browser-batch-handler";
+import {closeBrowserPool} from "../src/functions/common/browser-pool";
+
+const createLead = (overrides: Partial<TGoogleMapLeadInfo> = {}): TGoogleMapLeadInfo => ({
+  website: 'https://bluetokai.example',
+  phoneNumber: '+912012345678',
+  name: 'Blue Tokai',
+  gmapsUrl: 'https://www.google.com/maps/place/Blue+Tokai',
+  overAllRating: '4.5',
+  numberOfReviews: '1,204',
+  address: 'FC Road, Pune',
+  category: 'Coffee shop',
+  plusCode: 'GVJ9+4X Pune',
+  priceLevel: '₹200–400',
+  latitude: 18.52,
+  longitude: 73.85,
+  googlePlaceId: 'ChIJ123',
+  cid: '123',
+  businessStatus: 'OPERATIONAL',
+  extraction: {
+    profileVersion: DEFAULT_EXTRACTION_PROFILE.version,
+    selectors: { name: 'div{{ariaLabel:informationFor}}', phoneNumber: 'button[aria-label^="{{label:phone}}"]' }
+  },
+  ...overrides
+});
+
+const succeeded = (lead: TGoogleMapLeadInfo): EachPageResult<TGoogleMapLeadInfo> => ({ success: true, data: lead, attempts: 1 });
+
+const failed = (type: 'selector_missing' | 'timeout'): EachPageResult<TGoogleMapLeadInfo> => ({
+  success: false,
+  error: { url: 'https://www.google.com/maps/place/Gone', type, attempts: 3, message: type },
+  attempts: 3
+});
+
+const createReview = (selectors: TReviewExtraction['selectors']): TGoogleMapReview => ({
+  reviewId: 'review-1',
+  reviewerName: 'Asha',
+  rating: 4,
+  relativeDate: '3 months ago',
+  date: null,
+  text: 'Great filter coffee',
+  ownerResponse: null,
+  extraction: { profileVersion: DEFAULT_EXTRACTION_PROFILE.version, selectors }
+});
+
+const reviewed = (reviews: TGoogleMapReview[]): EachPageResult<TPlaceReviews> => ({
+  success: true,
+  data: { gmapsUrl: 'https://www.google.com/maps/place/Blue+Tokai', reviews },
+  attempts: 1
+});
+
+const search = { url: 'https://www.google.com/maps/search/cafes+in+pune', listingsFound: 5 };
+
+describe("scraper health canary", () => {
+  test("is ok while every monitored field stays filled", () => {
+    const report = buildCanaryReport([search], [succeeded(createLead()), succeeded(createLead())], [], DEFAULT_EXTRACTION_PROFILE, new Date());
+
+    assert.equal(report.status, 'ok');
+    assert.deepEqual(report.reasons, []);
+    assert.equal(report.placesChecked, 2);
+    assert.deepEqual(report.fields.phoneNumber, { filled: 2, fillRate: 1, fallbackCount: 0 });
+  });
+
+  test("degrades when a monitored field drops below the fill rate threshold", () => {
+    const report = buildCanaryReport([search], [
+      succeeded(createLead()),
+      succeeded(createLead({ phoneNumber: 'N/A' })),
+      succeeded(createLead({ phoneNumber: 'N/A', website: 'N/A' }))
+    ], [], DEFAULT_EXTRACTION_PROFILE, new Date());
+
+    assert.equal(report.status, 'degraded');
+    assert.deepEqual(report.reasons, ['phoneNumber filled on 33% of canary places, below 80%']);
+    assert.ok(Math.abs(report.fields.website.fillRate - 2 / 3) < 1e-9);
+  });
+
+  test("counts pages without a place as empty but leaves pages that never loaded out", () => {
+    const report = buildCanaryReport([search], [succeeded(createLead()), failed('selector_missing'), failed('timeout')], [], DEFAULT_EXTRACTION_PROFILE, new Date());
+
+    assert.equal(report.placesChecked, 2);
+    assert.equal(report.placesFailed, 1);
+    assert.equal(report.fields.name.fillRate, 0.5);
+    assert.equal(report.status, 'degraded');
+  });
+
+  test("degrades when a search finds no listings or no place loads", () => {
+    const report = buildCanaryReport([{ ...search, listingsFound: 0 }], [failed('timeout')], [], DEFAULT_EXTRACTION_PROFILE, new Date());
+
+    assert.deepEqual(report.reasons, [`Search ${search.url} found no listings`, 'No canary place page could be loaded']);
+  });
+
+  test("reports fields read by a fallback selector as drifted", () => {
+    const report = buildCanaryReport([search], [
+      succeeded(createLead({
+        extraction: {
+          profileVersion: DEFAULT_EXTRACTION_PROFILE.version,
+          selectors: { name: 'h1.DUwDvf', phoneNumber: 'button[aria-label^="{{label:phone}}"]' }
+        }
+      }))
+    ], [], DEFAULT_EXTRACTION_PROFILE, new Date());
+
+    assert.equal(report.status, 'ok');
+    assert.equal(report.fields.name.fallbackCount, 1);
+    assert.deepEqual(report.driftedFields, ['name']);
+  });
+
+  test("reports a search that never reached the end of list marker as drift", () => {
+    const report = buildCanaryReport([{ ...search, endOfListFound: false }], [succeeded(createLead())], [], DEFAULT_EXTRACTION_PROFILE, new Date());
+
+    assert.equal(report.status, 'ok');
+    assert.deepEqual(report.driftedSearchElements, ['endOfList']);
+    assert.deepEqual(buildCanaryReport([{ ...search, endOfListFound: true }], [succeeded(createLead())], [], DEFAULT_EXTRACTION_PROFILE, new Date()).driftedSearchElements, []);
+  });
+
+  test("reports review fields read by a fallback selector as drifted", () => {
+    const report = buildCanaryReport([search], [succeeded(createLead())], [reviewed([
+      createReview({ reviewId: '[data-review-id]', reviewerName: 'div.d4r55', rating: 'span.kvMYJc', relativeDate: 'span.rsqaWe' }),
+      createReview({ reviewId: '[data-review-id]', reviewerName: '[data-review-id][aria-label]', rating: 'span[role="img"][aria-label]', relativeDate: 'span.rsqaWe' })
+    ])], DEFAULT_EXTRACTION_PROFILE, new Date());
+
+    assert.equal(report.status, 'ok');
+    assert.equal(report.reviewsChecked, 2);
+    assert.deepEqual(report.reviewFields.rating, { filled: 2, fillRate: 1, fallbackCount: 1 });
+    assert.deepEqual(report.driftedReviewFields, ['reviewerName', 'rating']);
+  });
+
+  test("degrades when review selectors stop reading reviews or their fields", () => {
+    const noReviews = buildCanaryReport([search], [succeeded(createLead())], [reviewed([])], DEFAULT_EXTRACTION_PROFILE, new Date());
+    assert.deepEqual(noReviews.reasons, ['No reviews read from 1 canary places that list reviews']);
+
+    const noDates = buildCanaryReport([search], [succeeded(createLead())], [
+      reviewed([createReview({ reviewId: '[data-review-id]', reviewerName: 'div.d4r55', rating: 'span.kvMYJc' })])
+    ], DEFAULT_EXTRACTION_PROFILE, new Date());
+    assert.deepEqual(noDates.reasons, ['Review relativeDate filled on 0% of canary reviews, below 80%']);
+  });
+});
+
+describe("runHealthCanary", async () => {
+  let server: TMapsFixtureServer;
+  // The canary uses the shared pool, this browser only checks that launching works here
+  const { browser, unavailableReason } = await launchTestBrowser();
+  await browser?.close();
+
+  before(async () => {
+    server = await startMapsFixtureServer(6);
+  });
+
+  after(async () => {
+    await closeBrowserPool();
+    await server.close();
+  });
+
+  test("checks locally served search and place pages", { skip: unavailableReason }, async () => {
+    const report = await runHealthCanary({
+      searchUrls: [server.searchUrl("cafes in pune")],
+      placeUrls: [server.placeUrl(server.places[5])]
+    });
+
+    assert.equal(report.status, 'ok');
+    assert.deepEqual(report.searches, [{ url: server.searchUrl("cafes in pune"), listingsFound: 6, endOfListFound: true }]);
+    assert.equal(report.placesChecked, 6);
+    assert.equal(report.fields.name.fillRate, 1);
+    assert.deepEqual(report.driftedFields, []);
+    assert.deepEqual(report.driftedSearchElements, []);
+  });
+});
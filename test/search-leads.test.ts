@@ -0,0 +1,131 @@
+import {describe, test} from "node:test";
+import assert from "node:assert/strict";
+import {ObjectId, WithId} from "mongodb";
+import {findLeadsPage, InvalidLeadCursorError, TLeadSortField} from "../src/functions/search-leads";
+import {TStoredLead} from "../src/functions/gmaps-save-to-db";
+
+type TLeadFields = Partial<Record<TLeadSortField, string | number | Date | null>>;
+
+const lead = (id: number, fields: TLeadFields) => ({
+  _id: new ObjectId(id.toString(16).padStart(24, '0')),
+  ...fields
+}) as unknown as WithId<TStoredLead>;
+
+const day = (date: number) => new Date(Date.UTC(2026, 9, date));
+
+// rating is left out of lead 5 to cover leads saved before it was stored
+const LEADS = [
+  lead(1, { rating: 4.5, lastSeenAt: day(1), name: 'Brew House' }),
+  lead(2, { rating: null, lastSeenAt: day(3), name: 'Anna Cafe' }),
+  lead(3, { rating: 3.9, lastSeenAt: day(1), name: 'Cafe Goodluck' }),
+  lead(4, { rating: 4.5, lastSeenAt: day(2), name: 'Anna Cafe' }),
+  lead(5, { lastSeenAt: day(3), name: 'Vohuman Cafe' }),
+  lead(6, { rating: 4.1, lastSeenAt: day(1), name: 'Durga Cafe' }),
+  lead(7, { rating: 4.5, lastSeenAt: day(2), name: 'Cafe Goodluck' })
+];
+
+type TComparable = string | number | Date | ObjectId;
+
+const isComparable = (value: unknown): value is TComparable =>
+    typeof value === 'string' || typeof value === 'number' || value instanceof Date || value instanceof ObjectId;
+
+const toSortKey = (value: TComparable) =>
+    value instanceof Date ? value.getTime() : value instanceof ObjectId ? value.toHexString() : value;
+
+// Missing values and nulls come first, like MongoDB sorts them
+const compare = (a: unknown, b: unknown) => {
+  if (!isComparable(a) || !isComparable(b)) return Number(isComparable(a)) - Number(isComparable(b));
+  const [left, right] = [toSortKey(a), toSortKey(b)];
+  return left < right ? -1 : left > right ? 1 : 0;
+};
+
+const isOperatorObject = (condition: unknown): condition is Record<string, unknown> =>
+    condition instanceof Object && !isComparable(condition) && Object.keys(condition).every(key => key.startsWith('$'));
+
+// Matches like MongoDB for what keyset paging asks for, a null condition also matches a missing field while $gt and $lt never do
+const matches = (document: Record<string, unknown>, filter: Record<string, unknown>): boolean =>
+    Object.entries(filter).every(([key, condition]) => {
+      if (key === '$and') return (condition as Record<string, unknown>[]).every(part => matches(document, part));
+      if (key === '$or') return (condition as Record<string, unknown>[]).some(part => matches(document, part));
+
+      const value = document[key] ?? null;
+      if (!isOperatorObject(condition)) return compare(value, condition ?? null) === 0;
+
+      return Object.entries(condition).every(([operator, operand]) => {
+        if (operator === '$ne') return compare(value, operand ?? null) !== 0;
+        if (value === null) return false;
+        if (operator === '$gt') return compare(value, operand) > 0;
+        if (operator === '$lt') return compare(value, operand) < 0;
+        throw new Error(`Unsupported operator ${operator}`);
+      });
+    });
+
+const createLeadsCollection = (leads: WithId<TStoredLead>[]) => {
+  const calls: unknown[] = [];
+  const collection = {
+    find: (filter: Record<string, unknown>) => {
+      calls.push(filter);
+      let found = leads.filter(document => matches(document, filter));
+      const cursor = {
+        sort: (sort: Record<string, 1 | -1>) => {
+          found = [...found].sort((a, b) => {
+            for (const [field, direction] of Object.entries(sort)) {
+              const order = compare(a[field as keyof TStoredLead], b[field as keyof TStoredLead]);
+              if (order !== 0) return order * direction;
+            }
+            return 0;
+          });
+          return cursor;
+        },
+        limit: (limit: number) => {
+          found = found.slice(0, limit);
+          return cursor;
+        },
+        toArray: async () => found
+      };
+      return cursor;
+    }
+  };
+  return { calls, collection: collection as unknown as Parameters<typeof findLeadsPage>[0] };
+};
+
+// Follows nextCursor until the last page and lists the ids of every lead on the way
+const pageThrough = async (sortBy: TLeadSortField, order: 'asc' | 'desc', limit: number) => {
+  const { collection } = createLeadsCollection(LEADS);
+  const ids: number[] = [];
+  let cursor: string | undefined;
+
+  for (let page = 0; page < LEADS.length; page++) {
+    const result = await findLeadsPage(collection, { sortBy, order, limit, cursor });
+    ids.push(...result.leads.map(found => parseInt(found._id.toHexString(), 16)));
+    if (!result.nextCursor) return ids;
+    cursor = result.nextCursor;
+  }
+  throw new Error('Paging did not end');
+};
+
+describe("lead search paging", () => {
+  test("pages through null, missing and tied ratings in both orders without repeating or skipping leads", async () => {
+    for (const limit of [1, 2, 3]) {
+      assert.deepEqual(await pageThrough('rating', 'asc', limit), [2, 5, 3, 6, 1, 4, 7]);
+      assert.deepEqual(await pageThrough('rating', 'desc', limit), [7, 4, 1, 6, 3, 5, 2]);
+    }
+  });
+
+  test("pages through tied dates and names", async () => {
+    for (const limit of [2, 3]) {
+      assert.deepEqual(await pageThrough('lastSeenAt', 'desc', limit), [5, 2, 7, 4, 6, 3, 1]);
+      assert.deepEqual(await pageThrough('lastSeenAt', 'asc', limit), [1, 3, 6, 4, 7, 2, 5]);
+      assert.deepEqual(await pageThrough('name', 'asc', limit), [2, 4, 1, 3, 7, 6, 5]);
+    }
+  });
+
+  test("rejects a malformed cursor before querying", async () => {
+    const { calls, collection } = createLeadsCollection(LEADS);
+    const notAnId = Buffer.from(JSON.stringify({ value: 4.5, isDate: false, id: 'lead-1' })).toString('base64url');
+
+    await assert.rejects(findLeadsPage(collection, { sortBy: 'rating', order: 'asc', limit: 2, cursor: 'not-a-cursor' }), InvalidLeadCursorError);
+    await assert.rejects(findLeadsPage(collection, { sortBy: 'rating', order: 'asc', limit: 2, cursor: notAnId }), InvalidLeadCursorError);
+    assert.equal(calls.length, 0);
+  });
+});
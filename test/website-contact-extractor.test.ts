@@ -0,0 +1,59 @@
+import {describe, test} from "node:test";
+import assert from "node:assert/strict";
+import {
+  decodeCloudflareEmail,
+  deobfuscateEmailText,
+  extractEmails,
+  extractSocialProfiles
+} from "../src/functions/website-contact-extractor";
+
+describe("website contact extractor", () => {
+  test("decodes Cloudflare protected addresses and rejects malformed ones", () => {
+    assert.equal(decodeCloudflareEmail('422b2c242d02313637206f212324276c2b2c'), 'info@stub-cafe.in');
+    assert.equal(decodeCloudflareEmail('42'), null);
+    assert.equal(decodeCloudflareEmail('422b2'), null);
+    assert.equal(decodeCloudflareEmail('zz2b2c24'), null);
+  });
+
+  test("turns spelled out addresses back into normal ones", () => {
+    assert.equal(deobfuscateEmailText('Write to hello [at] stub-cafe [dot] in'), 'Write to hello@stub-cafe.in');
+    assert.equal(deobfuscateEmailText('orders(at)stub-cafe(dot)com'), 'orders@stub-cafe.com');
+    assert.equal(deobfuscateEmailText('bookings at stub-cafe dot com'), 'bookings@stub-cafe.com');
+    // Ordinary sentences using "at" stay untouched
+    assert.equal(deobfuscateEmailText('Open at 9 every day'), 'Open at 9 every day');
+  });
+
+  test("collects emails from mailto links, Cloudflare data and page text without duplicates", () => {
+    const emails = extractEmails(
+        'Reach us: Hello@Stub-Cafe.in or hello [at] stub-cafe [dot] in. Logo: logo@2x.png',
+        ['mailto:orders%40stub-cafe.in?subject=Order', 'mailto:a@stub-cafe.in,b@stub-cafe.in', 'https://stub-cafe.in/contact'],
+        ['422b2c242d02313637206f212324276c2b2c']
+    );
+
+    assert.deepEqual(emails, ['orders@stub-cafe.in', 'a@stub-cafe.in', 'b@stub-cafe.in', 'info@stub-cafe.in', 'hello@stub-cafe.in']);
+  });
+
+  test("ignores tracking and placeholder addresses", () => {
+    assert.deepEqual(extractEmails('abc123@sentry.io name@example.com 1a2b@sentry-next.wixpress.com', []), []);
+  });
+
+  test("keeps one normalized url per social profile and skips share links and posts", () => {
+    const profiles = extractSocialProfiles([
+      'http://www.instagram.com/stubcafe/',
+      'https://www.instagram.com/p/Cx123/',
+      'https://www.facebook.com/sharer/sharer.php?u=https://stub-cafe.in',
+      'https://www.facebook.com/stubcafe?ref=footer',
+      'https://in.linkedin.com/company/stub-cafe/about',
+      'https://twitter.com/intent/tweet?text=hi',
+      'https://x.com/stubcafe',
+      'https://stub-cafe.in/instagram'
+    ]);
+
+    assert.deepEqual(profiles, [
+      'https://www.instagram.com/stubcafe',
+      'https://www.facebook.com/stubcafe',
+      'https://in.linkedin.com/company/stub-cafe',
+      'https://x.com/stubcafe'
+    ]);
+  });
+});